@@ -10,12 +10,14 @@ import Index from "./pages/Index";
 import FloorSamples from "./pages/FloorSamples";
 import OnlineInventory from "./pages/OnlineInventory";
 import ProductDetail from "./pages/ProductDetail";
+import Search from "./pages/Search";
 import NotFound from "./pages/NotFound";
 
 // Lazy load heavy routes to reduce initial bundle size
 const Admin = lazy(() => import("./pages/Admin"));
 const Auth = lazy(() => import("./pages/Auth"));
 const Invoice = lazy(() => import("./pages/Invoice"));
+const ManageAppointment = lazy(() => import("./pages/ManageAppointment"));
 
 // Loading fallback component
 const PageLoader = () => (
@@ -45,6 +47,7 @@ const App = () => (
             <Route path="/floor-samples" element={<FloorSamples />} />
             <Route path="/online-inventory" element={<OnlineInventory />} />
             <Route path="/product/:id" element={<ProductDetail />} />
+            <Route path="/search" element={<Search />} />
             <Route
               path="/admin"
               element={
@@ -69,6 +72,14 @@ const App = () => (
                 </Suspense>
               }
             />
+            <Route
+              path="/appointment/:token"
+              element={
+                <Suspense fallback={<PageLoader />}>
+                  <ManageAppointment />
+                </Suspense>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
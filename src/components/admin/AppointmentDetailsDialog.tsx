@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Mail, Phone, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Appointment,
+  AppointmentProduct,
+  AppointmentStatus,
+  APPOINTMENT_STATUS_LABELS,
+  Consultant,
+  formatAppointmentTime,
+} from '@/types/appointment';
+import { AppointmentStatusBadge } from './AppointmentStatusBadge';
+
+interface AppointmentDetailsDialogProps {
+  // Open while set. Render with key={appointment?.id} so the notes field resets.
+  appointment: Appointment | null;
+  // What the customer wants to see, already looked up
+  products: AppointmentProduct[];
+  onOpenChange: (open: boolean) => void;
+  onStatusChange: (id: string, status: AppointmentStatus) => Promise<unknown>;
+  onSaveNotes: (id: string, internalNotes: string) => Promise<unknown>;
+  consultants: Consultant[];
+  onAssignConsultant: (id: string, consultantId: string | null) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+const STATUS_ACTIONS: { status: AppointmentStatus; label: string; destructive?: boolean }[] = [
+  { status: 'confirmed', label: 'Confirm' },
+  { status: 'completed', label: 'Mark completed' },
+  { status: 'no_show', label: 'Mark no-show' },
+  { status: 'pending', label: 'Back to pending' },
+  { status: 'cancelled', label: 'Cancel appointment', destructive: true },
+];
+
+export function AppointmentDetailsDialog({
+  appointment,
+  products,
+  onOpenChange,
+  onStatusChange,
+  onSaveNotes,
+  consultants,
+  onAssignConsultant,
+  onDelete,
+}: AppointmentDetailsDialogProps) {
+  const [internalNotes, setInternalNotes] = useState(appointment?.internalNotes ?? '');
+  const [pendingAction, setPendingAction] = useState<AppointmentStatus | 'notes' | 'consultant' | 'delete' | null>(null);
+
+  const run = async (action: AppointmentStatus | 'notes' | 'consultant' | 'delete', task: () => Promise<unknown>) => {
+    setPendingAction(action);
+    try {
+      await task();
+      return true;
+    } catch {
+      // Error is already handled in hook with toast
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!appointment) return;
+    const deleted = await run('delete', () => onDelete(appointment.id));
+    if (deleted) onOpenChange(false);
+  };
+
+  const isBusy = pendingAction !== null;
+  const notesChanged = !!appointment && internalNotes.trim() !== appointment.internalNotes;
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        {appointment && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {appointment.name}
+                <AppointmentStatusBadge status={appointment.status} />
+              </DialogTitle>
+              <DialogDescription>
+                {format(parseISO(appointment.date), 'EEEE, MMMM d, yyyy')} at{' '}
+                {formatAppointmentTime(appointment.time)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-1 text-sm">
+              <a href={`tel:${appointment.phone}`} className="flex items-center gap-2 hover:underline">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                {appointment.phone}
+              </a>
+              <a href={`mailto:${appointment.email}`} className="flex items-center gap-2 hover:underline">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+                {appointment.email}
+              </a>
+            </div>
+
+            {consultants.length > 0 && (
+              <div className="space-y-2">
+                <Label>Consultant</Label>
+                <Select
+                  value={appointment.consultantId ?? 'none'}
+                  onValueChange={(value) =>
+                    run('consultant', () => onAssignConsultant(appointment.id, value === 'none' ? null : value))
+                  }
+                  disabled={isBusy}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {consultants.map((consultant) => (
+                      <SelectItem key={consultant.id} value={consultant.id}>
+                        {consultant.name}
+                        {!consultant.isActive && ' (inactive)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {products.length > 0 && (
+              <div className="space-y-2">
+                <Label>Wants to see</Label>
+                <ul className="space-y-2">
+                  {products.map((product) => (
+                    <li key={product.id}>
+                      <Link
+                        to={`/product/${product.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-3 rounded-lg border border-border p-2 transition-colors hover:bg-secondary"
+                      >
+                        <img
+                          src={product.mainImageUrl}
+                          alt=""
+                          className="h-12 w-12 shrink-0 rounded-md object-cover"
+                          loading="lazy"
+                        />
+                        <span className="text-sm font-medium text-foreground">{product.name}</span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <Label>Customer notes</Label>
+              <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">
+                {appointment.notes || 'None'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="appointment-internal-notes">Internal notes</Label>
+              <Textarea
+                id="appointment-internal-notes"
+                value={internalNotes}
+                onChange={(e) => setInternalNotes(e.target.value)}
+                placeholder="Only visible to staff"
+                rows={3}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => run('notes', () => onSaveNotes(appointment.id, internalNotes))}
+                disabled={isBusy || !notesChanged}
+              >
+                {pendingAction === 'notes' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save notes
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 border-t border-border pt-4">
+              {STATUS_ACTIONS.filter((action) => action.status !== appointment.status).map((action) => (
+                <Button
+                  key={action.status}
+                  size="sm"
+                  variant={action.destructive ? 'destructive' : 'secondary'}
+                  onClick={() => run(action.status, () => onStatusChange(appointment.id, action.status))}
+                  disabled={isBusy}
+                  title={`Set status to ${APPOINTMENT_STATUS_LABELS[action.status]}`}
+                >
+                  {pendingAction === action.status && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {action.label}
+                </Button>
+              ))}
+            </div>
+
+            <DialogFooter className="sm:justify-between">
+              <Button variant="ghost" className="text-destructive" onClick={handleDelete} disabled={isBusy}>
+                {pendingAction === 'delete' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="mr-2 h-4 w-4" />
+                )}
+                Delete
+              </Button>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Copy, Download, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCalendarFeed } from '@/hooks/useCalendarFeed';
+import { downloadAppointmentsCsv } from '@/lib/appointment-export';
+import { toast } from '@/hooks/use-toast';
+
+interface AppointmentExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // YYYY-MM-DD; the range on screen when the dialog opens
+  defaultFrom: string;
+  defaultTo: string;
+}
+
+export function AppointmentExportDialog({ open, onOpenChange, defaultFrom, defaultTo }: AppointmentExportDialogProps) {
+  const { feedUrl, isLoading: isFeedLoading, error: feedError, fetchFeed, resetFeed } = useCalendarFeed();
+  const [dateFrom, setDateFrom] = useState(defaultFrom);
+  const [dateTo, setDateTo] = useState(defaultTo);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDateFrom(defaultFrom);
+    setDateTo(defaultTo);
+    fetchFeed();
+  }, [open, defaultFrom, defaultTo, fetchFeed]);
+
+  const handleExport = async () => {
+    if (!dateFrom || !dateTo || dateFrom > dateTo) {
+      toast({ title: 'Pick a valid date range', variant: 'destructive' });
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const count = await downloadAppointmentsCsv(dateFrom, dateTo);
+      toast({ title: `Exported ${count} appointment${count === 1 ? '' : 's'}` });
+    } catch (err) {
+      console.error('Error exporting appointments:', err);
+      toast({ title: 'Failed to export appointments', variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: 'Calendar link copied' });
+    } catch {
+      toast({
+        title: 'Could not copy the link',
+        description: 'Select it and copy it manually.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      await resetFeed();
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Appointments</DialogTitle>
+          <DialogDescription>
+            Download a spreadsheet, or subscribe to upcoming appointments in a calendar app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h3 className="font-medium text-foreground">CSV export</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Includes every status, contact details, customer and internal notes.
+          </p>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Download CSV
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t border-border pt-4">
+          <h3 className="font-medium text-foreground">Calendar feed</h3>
+          <p className="text-sm text-muted-foreground">
+            Add this link as a subscribed calendar (Google Calendar: &ldquo;From URL&rdquo;). It lists upcoming
+            appointments that aren&rsquo;t cancelled. Anyone with the link can see them, so only share it with staff.
+          </p>
+          {feedError ? (
+            <p className="text-sm text-destructive">{feedError}</p>
+          ) : isFeedLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : !feedUrl ? (
+            <p className="text-sm text-muted-foreground">The calendar feed isn&rsquo;t set up yet.</p>
+          ) : (
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy calendar link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <Button variant="outline" onClick={handleReset} disabled={isResetting || !feedUrl}>
+            {isResetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Reset link
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
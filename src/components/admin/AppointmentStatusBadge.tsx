@@ -0,0 +1,19 @@
+import { Badge } from '@/components/ui/badge';
+import { AppointmentStatus, APPOINTMENT_STATUS_LABELS } from '@/types/appointment';
+import { cn } from '@/lib/utils';
+
+const STATUS_CLASSES: Record<AppointmentStatus, string> = {
+  pending: 'border-transparent bg-amber-100 text-amber-800 hover:bg-amber-100',
+  confirmed: 'border-transparent bg-blue-100 text-blue-800 hover:bg-blue-100',
+  completed: 'border-transparent bg-green-100 text-green-800 hover:bg-green-100',
+  no_show: 'border-transparent bg-red-100 text-red-800 hover:bg-red-100',
+  cancelled: 'border-transparent bg-muted text-muted-foreground hover:bg-muted',
+};
+
+export function AppointmentStatusBadge({ status, className }: { status: AppointmentStatus; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn(STATUS_CLASSES[status], className)}>
+      {APPOINTMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
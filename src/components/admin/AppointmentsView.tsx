@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  addDays,
+  addWeeks,
+  endOfWeek,
+  format,
+  isToday,
+  parseISO,
+  startOfWeek,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Download, Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAppointments, AppointmentFilters, APPOINTMENT_LIST_LIMIT } from '@/hooks/useAppointments';
+import { useConsultants } from '@/hooks/useConsultants';
+import {
+  Appointment,
+  AppointmentStatus,
+  APPOINTMENT_STATUS_LABELS,
+  formatAppointmentTime,
+} from '@/types/appointment';
+import { cn } from '@/lib/utils';
+import { AppointmentDetailsDialog } from './AppointmentDetailsDialog';
+import { BlockedAttemptsDialog } from './BlockedAttemptsDialog';
+import { AppointmentExportDialog } from './AppointmentExportDialog';
+import { AppointmentStatusBadge } from './AppointmentStatusBadge';
+
+type AppointmentLayout = 'day' | 'week' | 'list';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Weeks run Monday to Sunday, the way the store lists its hours
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export function AppointmentsView() {
+  const {
+    appointments,
+    products,
+    isLoading,
+    error,
+    isTruncated,
+    fetchAppointments,
+    updateAppointmentStatus,
+    updateInternalNotes,
+    assignConsultant,
+    deleteAppointment,
+  } = useAppointments();
+  const { consultants } = useConsultants();
+  const [layout, setLayout] = useState<AppointmentLayout>('day');
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [listFrom, setListFrom] = useState(() => toDateString(new Date()));
+  const [listStatus, setListStatus] = useState<'all' | AppointmentStatus>('all');
+  const [consultantFilter, setConsultantFilter] = useState<'all' | string>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isBlockedOpen, setIsBlockedOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const weekDays = useMemo(() => {
+    const start = startOfWeek(anchorDate, WEEK_OPTIONS);
+    return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+  }, [anchorDate]);
+
+  useEffect(() => {
+    let filters: AppointmentFilters;
+    if (layout === 'day') {
+      filters = { dateFrom: toDateString(anchorDate), dateTo: toDateString(anchorDate) };
+    } else if (layout === 'week') {
+      filters = {
+        dateFrom: toDateString(startOfWeek(anchorDate, WEEK_OPTIONS)),
+        dateTo: toDateString(endOfWeek(anchorDate, WEEK_OPTIONS)),
+      };
+    } else {
+      filters = {
+        dateFrom: listFrom || undefined,
+        status: listStatus === 'all' ? undefined : listStatus,
+      };
+    }
+    if (consultantFilter !== 'all') {
+      filters.consultantId = consultantFilter;
+    }
+    fetchAppointments(filters);
+  }, [layout, anchorDate, listFrom, listStatus, consultantFilter, fetchAppointments]);
+
+  const consultantNames = useMemo(
+    () => new Map(consultants.map((consultant) => [consultant.id, consultant.name])),
+    [consultants]
+  );
+
+  const selected = appointments.find((appointment) => appointment.id === selectedId) ?? null;
+
+  const step = (direction: 1 | -1) => {
+    setAnchorDate((prev) => (layout === 'week' ? addWeeks(prev, direction) : addDays(prev, direction)));
+  };
+
+  const rangeLabel =
+    layout === 'day'
+      ? format(anchorDate, 'EEEE, MMMM d, yyyy')
+      : `${format(weekDays[0], 'MMM d')} – ${format(weekDays[6], 'MMM d, yyyy')}`;
+
+  // Export starts from what's on screen; the list has no end date, so offer a month
+  const exportFrom =
+    layout === 'list'
+      ? listFrom || toDateString(new Date())
+      : toDateString(layout === 'week' ? weekDays[0] : anchorDate);
+  const exportTo =
+    layout === 'list'
+      ? toDateString(addDays(parseISO(exportFrom), 30))
+      : toDateString(layout === 'week' ? weekDays[6] : anchorDate);
+
+  const getProducts = (appointment: Appointment) =>
+    appointment.productIds.flatMap((id) => products[id] ?? []);
+
+  const renderAppointmentButton = (appointment: Appointment, compact = false) => (
+    <button
+      key={appointment.id}
+      type="button"
+      onClick={() => setSelectedId(appointment.id)}
+      className={cn(
+        'w-full rounded-lg border border-border bg-card text-left transition-colors hover:bg-secondary',
+        compact ? 'p-2' : 'p-3',
+        appointment.status === 'cancelled' && 'opacity-60'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className={cn('font-medium text-foreground', compact && 'text-xs')}>
+          {formatAppointmentTime(appointment.time)}
+        </span>
+        {!compact && <AppointmentStatusBadge status={appointment.status} />}
+      </div>
+      <div
+        className={cn(
+          'truncate text-foreground',
+          compact ? 'text-xs' : 'text-sm',
+          appointment.status === 'cancelled' && 'line-through'
+        )}
+      >
+        {appointment.name}
+      </div>
+      {compact ? (
+        <AppointmentStatusBadge status={appointment.status} className="mt-1 px-1.5 py-0 text-[10px]" />
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          {appointment.phone}
+          {appointment.consultantId && consultantNames.has(appointment.consultantId) && (
+            <span className="ml-2">· with {consultantNames.get(appointment.consultantId)}</span>
+          )}
+          {appointment.notes && <span className="ml-2 italic">“{appointment.notes}”</span>}
+        </div>
+      )}
+      {!compact && getProducts(appointment).length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {getProducts(appointment).map((product) => (
+            <img
+              key={product.id}
+              src={product.mainImageUrl}
+              alt={product.name}
+              title={product.name}
+              className="h-10 w-10 rounded object-cover"
+              loading="lazy"
+            />
+          ))}
+        </div>
+      )}
+    </button>
+  );
+
+  const renderDay = () => (
+    <div className="space-y-2">
+      {appointments.map((appointment) => renderAppointmentButton(appointment))}
+      {appointments.length === 0 && (
+        <p className="py-8 text-center text-muted-foreground">No appointments on this day.</p>
+      )}
+    </div>
+  );
+
+  const renderWeek = () => (
+    <div className="grid gap-3 md:grid-cols-7">
+      {weekDays.map((day) => {
+        const dayString = toDateString(day);
+        const dayAppointments = appointments.filter((appointment) => appointment.date === dayString);
+        return (
+          <div key={dayString} className="min-w-0">
+            <button
+              type="button"
+              onClick={() => {
+                setAnchorDate(day);
+                setLayout('day');
+              }}
+              className={cn(
+                'mb-2 w-full rounded-md px-2 py-1 text-left text-sm font-medium hover:bg-secondary',
+                isToday(day) ? 'bg-primary text-primary-foreground hover:bg-primary/90' : 'text-foreground'
+              )}
+            >
+              {format(day, 'EEE d')}
+            </button>
+            <div className="space-y-2">
+              {dayAppointments.map((appointment) => renderAppointmentButton(appointment, true))}
+              {dayAppointments.length === 0 && (
+                <p className="px-2 text-xs text-muted-foreground">—</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderList = () => (
+    <>
+      <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-[1fr_1fr_2fr] lg:items-end">
+        <div>
+          <Label htmlFor="appointment-list-from">From</Label>
+          <Input
+            id="appointment-list-from"
+            type="date"
+            value={listFrom}
+            onChange={(e) => setListFrom(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label>Status</Label>
+          <Select value={listStatus} onValueChange={(value) => setListStatus(value as 'all' | AppointmentStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {(Object.keys(APPOINTMENT_STATUS_LABELS) as AppointmentStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {APPOINTMENT_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Phone</TableHead>
+              {consultants.length > 0 && <TableHead>Consultant</TableHead>}
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {appointments.map((appointment) => (
+              <TableRow
+                key={appointment.id}
+                className="cursor-pointer"
+                onClick={() => setSelectedId(appointment.id)}
+              >
+                <TableCell>{format(parseISO(appointment.date), 'EEE, MMM d, yyyy')}</TableCell>
+                <TableCell>{formatAppointmentTime(appointment.time)}</TableCell>
+                <TableCell>
+                  <div className="font-medium text-foreground">{appointment.name}</div>
+                  <div className="text-xs text-muted-foreground">{appointment.email}</div>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{appointment.phone}</TableCell>
+                {consultants.length > 0 && (
+                  <TableCell className="text-muted-foreground">
+                    {(appointment.consultantId && consultantNames.get(appointment.consultantId)) || '—'}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <AppointmentStatusBadge status={appointment.status} />
+                </TableCell>
+              </TableRow>
+            ))}
+            {appointments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={consultants.length > 0 ? 6 : 5} className="py-8 text-center text-muted-foreground">
+                  No appointments match your filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <CardTitle>Appointments</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            {consultants.length > 0 && (
+              <Select value={consultantFilter} onValueChange={setConsultantFilter}>
+                <SelectTrigger className="w-48" aria-label="Consultant">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All consultants</SelectItem>
+                  {consultants.map((consultant) => (
+                    <SelectItem key={consultant.id} value={consultant.id}>
+                      {consultant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={layout}
+              onValueChange={(value) => value && setLayout(value as AppointmentLayout)}
+            >
+              <ToggleGroupItem value="day">Day</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+              <ToggleGroupItem value="list">List</ToggleGroupItem>
+            </ToggleGroup>
+            <Button variant="outline" onClick={() => setIsBlockedOpen(true)}>
+              <ShieldAlert className="mr-2 h-4 w-4" />
+              Blocked
+            </Button>
+            <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {layout !== 'list' && (
+            <div className="mb-6 flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label="Previous">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} aria-label="Next">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setAnchorDate(new Date())}>
+                Today
+              </Button>
+              <span className="ml-2 font-medium text-foreground">{rangeLabel}</span>
+            </div>
+          )}
+
+          {error ? (
+            <p className="py-8 text-center text-destructive">{error}</p>
+          ) : isLoading && appointments.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className={cn(isLoading && 'opacity-60')}>
+              {layout === 'day' && renderDay()}
+              {layout === 'week' && renderWeek()}
+              {layout === 'list' && renderList()}
+              {isTruncated && (
+                <p className="pt-4 text-center text-sm text-muted-foreground">
+                  Showing the first {APPOINTMENT_LIST_LIMIT} appointments. Narrow the dates or filters to see the rest.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AppointmentDetailsDialog
+        key={selected?.id}
+        appointment={selected}
+        products={selected ? getProducts(selected) : []}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+        onStatusChange={updateAppointmentStatus}
+        onSaveNotes={updateInternalNotes}
+        consultants={consultants}
+        onAssignConsultant={assignConsultant}
+        onDelete={deleteAppointment}
+      />
+
+      <BlockedAttemptsDialog open={isBlockedOpen} onOpenChange={setIsBlockedOpen} />
+
+      <AppointmentExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        defaultFrom={exportFrom}
+        defaultTo={exportTo}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BOOKING_BLOCK_REASON_LABELS } from '@/types/appointment';
+import { useBlockedBookingAttempts } from '@/hooks/useBlockedBookingAttempts';
+
+interface BlockedAttemptsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BlockedAttemptsDialog({ open, onOpenChange }: BlockedAttemptsDialogProps) {
+  const { attempts, isLoading, error, fetchAttempts, clearAttempts } = useBlockedBookingAttempts();
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    if (open) fetchAttempts();
+  }, [open, fetchAttempts]);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearAttempts();
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Blocked Booking Attempts</DialogTitle>
+          <DialogDescription>
+            Online bookings turned away by the spam checks, newest first. Bots that filled the hidden field were
+            shown a normal confirmation.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="py-8 text-center text-destructive">{error}</p>
+        ) : isLoading && attempts.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : attempts.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No blocked attempts.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(attempt.createdAt), 'MMM d, h:mm a')}
+                    </TableCell>
+                    <TableCell>{BOOKING_BLOCK_REASON_LABELS[attempt.reason] ?? attempt.reason}</TableCell>
+                    <TableCell className="max-w-48 truncate">{attempt.email || '—'}</TableCell>
+                    <TableCell>{attempt.phone || '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">{attempt.ip ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={fetchAttempts} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={handleClear} disabled={isClearing || attempts.length === 0}>
+            {isClearing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+            Clear all
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+import { useEffect, useState } from 'react';
+import { CalendarClock, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Consultant, ConsultantShift } from '@/types/appointment';
+import { DAY_NAMES, WEEK_ORDER } from '@/types/store-hours';
+import { useConsultants, ConsultantInput } from '@/hooks/useConsultants';
+import { toast } from '@/hooks/use-toast';
+
+interface ShiftDraft {
+  isWorking: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+interface ConsultantHoursDialogProps {
+  // Open while set. Render with key={consultant?.id}.
+  consultant: Consultant | null;
+  onOpenChange: (open: boolean) => void;
+  fetchShifts: (consultantId: string) => Promise<ConsultantShift[]>;
+  onSave: (consultantId: string, shifts: ConsultantShift[]) => Promise<unknown>;
+}
+
+function ConsultantHoursDialog({ consultant, onOpenChange, fetchShifts, onSave }: ConsultantHoursDialogProps) {
+  const [drafts, setDrafts] = useState<Record<number, ShiftDraft> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const consultantId = consultant?.id;
+
+  useEffect(() => {
+    if (!consultantId) return;
+    let cancelled = false;
+    fetchShifts(consultantId)
+      .then((shifts) => {
+        if (cancelled) return;
+        setDrafts(
+          Object.fromEntries(
+            WEEK_ORDER.map((dayOfWeek) => {
+              const shift = shifts.find((s) => s.dayOfWeek === dayOfWeek);
+              return [
+                dayOfWeek,
+                {
+                  isWorking: !!shift,
+                  startTime: shift?.startTime ?? '11:00',
+                  endTime: shift?.endTime ?? '17:00',
+                },
+              ];
+            })
+          )
+        );
+      })
+      .catch(() => {
+        if (!cancelled) toast({ title: 'Failed to load consultant hours', variant: 'destructive' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [consultantId, fetchShifts]);
+
+  const setDraft = (dayOfWeek: number, draft: ShiftDraft) =>
+    setDrafts((prev) => prev && { ...prev, [dayOfWeek]: draft });
+
+  const handleSave = async () => {
+    if (!consultant || !drafts) return;
+
+    const shifts = WEEK_ORDER.filter((dayOfWeek) => drafts[dayOfWeek].isWorking).map((dayOfWeek) => ({
+      dayOfWeek,
+      startTime: drafts[dayOfWeek].startTime,
+      endTime: drafts[dayOfWeek].endTime,
+    }));
+    if (shifts.some((shift) => !shift.startTime || !shift.endTime || shift.startTime >= shift.endTime)) {
+      toast({
+        title: 'Invalid hours',
+        description: 'Start time must be before end time.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(consultant.id, shifts);
+      onOpenChange(false);
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!consultant} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{consultant?.name}&rsquo;s Hours</DialogTitle>
+          <DialogDescription>
+            Customers can book this consultant for slots inside these hours, as long as the store is open.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!drafts ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {WEEK_ORDER.map((dayOfWeek) => {
+              const draft = drafts[dayOfWeek];
+              return (
+                <div key={dayOfWeek} className="flex items-center gap-3">
+                  <Switch
+                    checked={draft.isWorking}
+                    onCheckedChange={(isWorking) => setDraft(dayOfWeek, { ...draft, isWorking })}
+                    aria-label={`Works on ${DAY_NAMES[dayOfWeek]}`}
+                  />
+                  <span className="w-24 text-sm font-medium">{DAY_NAMES[dayOfWeek]}</span>
+                  {draft.isWorking ? (
+                    <>
+                      <Input
+                        type="time"
+                        step="1800"
+                        value={draft.startTime}
+                        onChange={(e) => setDraft(dayOfWeek, { ...draft, startTime: e.target.value })}
+                        className="h-8 w-28"
+                      />
+                      <Input
+                        type="time"
+                        step="1800"
+                        value={draft.endTime}
+                        onChange={(e) => setDraft(dayOfWeek, { ...draft, endTime: e.target.value })}
+                        className="h-8 w-28"
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Off</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!drafts || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Hours
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ConsultantRowProps {
+  consultant: Consultant;
+  onSave: (id: string, input: ConsultantInput) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+  onEditHours: (consultant: Consultant) => void;
+}
+
+function ConsultantRow({ consultant, onSave, onDelete, onEditHours }: ConsultantRowProps) {
+  const [draft, setDraft] = useState<ConsultantInput>({
+    name: consultant.name,
+    title: consultant.title,
+    isActive: consultant.isActive,
+  });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isDirty =
+    draft.name !== consultant.name || draft.title !== consultant.title || draft.isActive !== consultant.isActive;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({ title: 'Enter a name', variant: 'destructive' });
+      return;
+    }
+    run(() => onSave(consultant.id, { ...draft, name: draft.name.trim(), title: draft.title.trim() }));
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="h-8" />
+      </TableCell>
+      <TableCell>
+        <Input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} className="h-8" />
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={draft.isActive}
+          onCheckedChange={(isActive) => setDraft({ ...draft, isActive })}
+          aria-label="Bookable"
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <div className="flex justify-end gap-1">
+          <Button size="sm" variant="ghost" onClick={() => onEditHours(consultant)} disabled={isBusy}>
+            <CalendarClock className="mr-1 h-3 w-3" />
+            Hours
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleSave} disabled={!isDirty || isBusy}>
+            {isBusy ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+            Save
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => run(() => onDelete(consultant.id))}
+            disabled={isBusy}
+            aria-label="Remove consultant"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+const emptyDraft: ConsultantInput = { name: '', title: '', isActive: true };
+
+export function ConsultantSettings() {
+  const {
+    consultants,
+    isLoading,
+    error,
+    addConsultant,
+    updateConsultant,
+    deleteConsultant,
+    fetchShifts,
+    saveShifts,
+  } = useConsultants();
+  const [newDraft, setNewDraft] = useState<ConsultantInput>(emptyDraft);
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingHours, setEditingHours] = useState<Consultant | null>(null);
+
+  const handleAdd = async () => {
+    if (!newDraft.name.trim()) {
+      toast({ title: 'Enter a name', variant: 'destructive' });
+      return;
+    }
+    setIsAdding(true);
+    try {
+      await addConsultant({ ...newDraft, name: newDraft.name.trim(), title: newDraft.title.trim() });
+      setNewDraft(emptyDraft);
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Consultants</CardTitle>
+        <CardDescription>
+          Customers can pick a consultant when booking, or get the first one free. Each consultant sees one
+          customer per slot. Without consultants, bookings are only limited by the store&rsquo;s per-slot capacity.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="py-8 text-center text-destructive">{error}</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Bookable</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {consultants.map((consultant) => (
+                  <ConsultantRow
+                    key={`${consultant.id}:${consultant.name}:${consultant.title}:${consultant.isActive}`}
+                    consultant={consultant}
+                    onSave={updateConsultant}
+                    onDelete={deleteConsultant}
+                    onEditHours={setEditingHours}
+                  />
+                ))}
+                <TableRow>
+                  <TableCell>
+                    <Input
+                      placeholder="New consultant"
+                      value={newDraft.name}
+                      onChange={(e) => setNewDraft({ ...newDraft, name: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      placeholder="Design consultant"
+                      value={newDraft.title}
+                      onChange={(e) => setNewDraft({ ...newDraft, title: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">
+                    <Button size="sm" onClick={handleAdd} disabled={isAdding}>
+                      {isAdding ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <Plus className="mr-1 h-3 w-3" />
+                      )}
+                      Add
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <ConsultantHoursDialog
+        key={editingHours?.id}
+        consultant={editingHours}
+        onOpenChange={(open) => {
+          if (!open) setEditingHours(null);
+        }}
+        fetchShifts={fetchShifts}
+        onSave={saveShifts}
+      />
+    </Card>
+  );
+}
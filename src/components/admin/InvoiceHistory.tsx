@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { Copy, Download, FileText, Loader2, Plus, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Invoice } from '@/types/product';
+import { useInvoices, InvoiceFilters, INVOICE_LIST_LIMIT } from '@/hooks/useInvoices';
+import { cn } from '@/lib/utils';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+import { toast } from '@/hooks/use-toast';
+
+interface InvoiceHistoryProps {
+  onOpen: (invoice: Invoice) => void;
+  onDuplicate: (invoice: Invoice) => void;
+  onCreate: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatInvoiceDate = (date: string) => {
+  // invoice_date is a plain YYYY-MM-DD; parse as local so it doesn't shift a day
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export function InvoiceHistory({ onOpen, onDuplicate, onCreate }: InvoiceHistoryProps) {
+  const { invoices, isLoading, error, isTruncated, fetchInvoices } = useInvoices({ autoFetch: false });
+  const [search, setSearch] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [balanceDue, setBalanceDue] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const filters: InvoiceFilters = {
+      search: search || undefined,
+      dateFrom: dateFrom || undefined,
+      dateTo: dateTo || undefined,
+      balanceDue: balanceDue || undefined,
+    };
+    const timeoutId = window.setTimeout(() => fetchInvoices(filters), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [search, dateFrom, dateTo, balanceDue, fetchInvoices]);
+
+  const hasFilters = !!(search || dateFrom || dateTo || balanceDue);
+
+  const handleDownload = async (invoice: Invoice) => {
+    setExportingId(invoice.id);
+    try {
+      await downloadInvoicePdf(invoice);
+    } catch (err) {
+      console.error('Error generating invoice PDF:', err);
+      toast({ title: 'Failed to generate PDF', variant: 'destructive' });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const clearFilters = () => {
+    setSearch('');
+    setDateFrom('');
+    setDateTo('');
+    setBalanceDue(false);
+  };
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <CardTitle>Invoices</CardTitle>
+          <Button onClick={onCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Invoice
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-[2fr_1fr_1fr_auto_auto] lg:items-end">
+            <div>
+              <Label htmlFor="invoice-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="invoice-search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Order #, customer name or phone"
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="invoice-date-from">From</Label>
+              <Input
+                id="invoice-date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="invoice-date-to">To</Label>
+              <Input
+                id="invoice-date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+              />
+            </div>
+            <div className="flex h-10 items-center space-x-2">
+              <Checkbox
+                id="invoice-balance-due"
+                checked={balanceDue}
+                onCheckedChange={(c) => setBalanceDue(!!c)}
+              />
+              <Label htmlFor="invoice-balance-due" className="font-normal">
+                Balance due
+              </Label>
+            </div>
+            <Button variant="ghost" onClick={clearFilters} disabled={!hasFilters}>
+              <X className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+
+          {error ? (
+            <p className="py-8 text-center text-destructive">{error}</p>
+          ) : isLoading && invoices.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className={cn('overflow-x-auto', isLoading && 'opacity-60')}>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order #</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map((invoice) => (
+                    <TableRow
+                      key={invoice.id}
+                      className="cursor-pointer"
+                      onClick={() => onOpen(invoice)}
+                    >
+                      <TableCell className="font-medium">{invoice.orderNumber}</TableCell>
+                      <TableCell>{formatInvoiceDate(invoice.date)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium text-foreground">{invoice.billToName || '-'}</div>
+                        {invoice.lineItems.length > 0 && (
+                          <div className="max-w-[260px] truncate text-xs text-muted-foreground">
+                            {invoice.lineItems
+                              .map((item) => item.description)
+                              .filter(Boolean)
+                              .join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{invoice.billToPhone || '-'}</TableCell>
+                      <TableCell className="text-right">${invoice.total.toFixed(2)}</TableCell>
+                      <TableCell
+                        className={cn(
+                          'text-right font-medium',
+                          invoice.balance > 0 ? 'text-destructive' : 'text-muted-foreground'
+                        )}
+                      >
+                        ${invoice.balance.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Open invoice"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onOpen(invoice);
+                            }}
+                          >
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Download PDF"
+                            disabled={exportingId === invoice.id}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDownload(invoice);
+                            }}
+                          >
+                            {exportingId === invoice.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Download className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Duplicate invoice"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDuplicate(invoice);
+                            }}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {invoices.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                        {hasFilters ? 'No invoices match your filters.' : 'No invoices saved yet.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+              {isTruncated && (
+                <p className="pt-4 text-center text-sm text-muted-foreground">
+                  Showing the latest {INVOICE_LIST_LIMIT} invoices. Search or filter by date to find older ones.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
-import { useState, useRef } from 'react';
-import { Plus, Trash2, Printer, FileText, Save } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { Plus, Trash2, Download, FileText, Save, Loader2, Copy, ArrowLeft, CheckCircle2, Mail } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -14,26 +15,37 @@ import {
 } from '@/components/ui/select';
 import { storeInfo, returnTerms } from '@/data/storeInfo';
 import { 
+  Invoice,
   InvoiceLineItem, 
+  InvoicePayment,
+  InvoiceStatus,
   PaymentMethod, 
+  PAYMENT_METHOD_LABELS,
+  Product,
+  TaxJurisdiction,
   calculateLineAmount, 
-  SALES_TAX_RATE 
+  calculateInvoiceTotals,
+  formatTaxRate,
 } from '@/types/product';
 import { toast } from '@/hooks/use-toast';
+import { useInvoices, InvoiceInput } from '@/hooks/useInvoices';
+import { useTaxJurisdictions } from '@/hooks/useTaxJurisdictions';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { summarizeWeeklyHours } from '@/types/store-hours';
 import { cn } from '@/lib/utils';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+import { ProductPicker } from './ProductPicker';
+import { SendInvoiceDialog } from './SendInvoiceDialog';
 
-// Get stored order number or start at 154 (from their PDF)
-const getNextOrderNumber = (): number => {
-  const stored = localStorage.getItem('vmodern_order_number');
-  if (stored) {
-    return parseInt(stored, 10) + 1;
-  }
-  return 154;
-};
+const today = () => new Date().toISOString().split('T')[0];
 
-const saveOrderNumber = (num: number) => {
-  localStorage.setItem('vmodern_order_number', num.toString());
-};
+const emptyLineItem = (id: string): InvoiceLineItem => ({
+  id, source: '', itemNo: '', description: '', quantity: 1, unitPrice: 0, discountPercent: 0, lineAmount: 0, taxable: true,
+});
+
+const emptyPayment = (id: string, amount: number): InvoicePayment => ({
+  id, date: today(), method: 'credit_card', amount, note: '',
+});
 
 const formatDate = (date: Date): string => {
   return date.toLocaleDateString('en-US', {
@@ -45,45 +57,110 @@ const formatDate = (date: Date): string => {
 
 interface InvoicePageProps {
   isEmbedded?: boolean;
+  // Saved invoice to reopen for editing or reprinting
+  initialInvoice?: Invoice | null;
+  // Start a new unsaved invoice prefilled from initialInvoice
+  duplicate?: boolean;
+  // Catalog used by the line item product picker
+  products?: Product[];
+  onBack?: () => void;
+  // Called after finalizing, once linked floor samples are marked sold/reserved
+  onFinalized?: (invoice: Invoice) => void;
 }
 
-const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
+const InvoicePage = ({
+  isEmbedded = false,
+  initialInvoice = null,
+  duplicate = false,
+  products = [],
+  onBack,
+  onFinalized,
+}: InvoicePageProps) => {
+  const source = initialInvoice;
+  const isReopened = !!source && !duplicate;
   const printRef = useRef<HTMLDivElement>(null);
+  const { createInvoice, updateInvoice, finalizeInvoice } = useInvoices({ autoFetch: false });
+  const {
+    jurisdictions,
+    defaultJurisdiction,
+    isLoading: taxLoading,
+    error: taxError,
+    fetchJurisdictions,
+  } = useTaxJurisdictions();
+  const { hours } = useStoreHours();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [sendTarget, setSendTarget] = useState<Invoice | null>(null);
   
-  // Invoice state
-  const [orderNumber, setOrderNumber] = useState(getNextOrderNumber());
-  const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
+  // Invoice state - id and order number are assigned by the database on first save
+  const [invoiceId, setInvoiceId] = useState<string | null>(isReopened ? source.id : null);
+  const [orderNumber, setOrderNumber] = useState<number | null>(isReopened ? source.orderNumber : null);
+  const [status, setStatus] = useState<InvoiceStatus>(isReopened ? source.status : 'draft');
+  const [invoiceDate, setInvoiceDate] = useState(isReopened ? source.date : today());
   
   // Bill To
-  const [billToName, setBillToName] = useState('');
-  const [billToAddress, setBillToAddress] = useState('');
-  const [billToPhone, setBillToPhone] = useState('');
+  const [billToName, setBillToName] = useState(source?.billToName ?? '');
+  const [billToAddress, setBillToAddress] = useState(source?.billToAddress ?? '');
+  const [billToPhone, setBillToPhone] = useState(source?.billToPhone ?? '');
+  const [billToEmail, setBillToEmail] = useState(source?.billToEmail ?? '');
   
   // Ship To
-  const [sameAsBillTo, setSameAsBillTo] = useState(true);
-  const [shipToName, setShipToName] = useState('');
-  const [shipToAddress, setShipToAddress] = useState('');
-  const [shipToPhone, setShipToPhone] = useState('');
+  const [sameAsBillTo, setSameAsBillTo] = useState(source?.sameAsBillTo ?? true);
+  const [shipToName, setShipToName] = useState(source?.shipToName ?? '');
+  const [shipToAddress, setShipToAddress] = useState(source?.shipToAddress ?? '');
+  const [shipToPhone, setShipToPhone] = useState(source?.shipToPhone ?? '');
   
   // Line Items
-  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([
-    { id: '1', source: '', itemNo: '', description: '', quantity: 1, unitPrice: 0, discountPercent: 0, lineAmount: 0 }
-  ]);
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>(() =>
+    source && source.lineItems.length > 0
+      ? source.lineItems.map((item) => ({ ...item }))
+      : [emptyLineItem('1')]
+  );
   
-  // Delivery & Payment
-  const [deliveryCharges, setDeliveryCharges] = useState(0);
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('credit_card');
-  const [amountPaid, setAmountPaid] = useState(0);
+  // Delivery & Payments - a duplicate starts unpaid
+  const [deliveryCharges, setDeliveryCharges] = useState(source?.deliveryCharges ?? 0);
+  const [payments, setPayments] = useState<InvoicePayment[]>(() =>
+    isReopened ? source.payments.map((payment) => ({ ...payment })) : []
+  );
+
+  // Tax - saved invoices keep the rate they were written with
+  const [taxJurisdictionId, setTaxJurisdictionId] = useState<string | undefined>(source?.taxJurisdictionId);
+  const [taxJurisdictionName, setTaxJurisdictionName] = useState(source?.taxJurisdictionName ?? '');
+  const [taxRate, setTaxRate] = useState(source?.taxRate ?? 0);
+  const [deliveryTaxable, setDeliveryTaxable] = useState(source?.deliveryTaxable ?? true);
+  const [taxExempt, setTaxExempt] = useState(source?.taxExempt ?? false);
+  const [taxExemptCertificate, setTaxExemptCertificate] = useState(source?.taxExemptCertificate ?? '');
+  const hasAppliedCurrentTax = useRef(isReopened);
+
+  const applyJurisdiction = (jurisdiction: TaxJurisdiction | null) => {
+    setTaxJurisdictionId(jurisdiction?.id);
+    setTaxJurisdictionName(jurisdiction?.name ?? '');
+    setTaxRate(jurisdiction?.rate ?? 0);
+    setDeliveryTaxable(jurisdiction?.taxDelivery ?? true);
+  };
+
+  // New invoices (and duplicates) pick up the current rate once settings load
+  useEffect(() => {
+    if (taxLoading || taxError || hasAppliedCurrentTax.current) return;
+    hasAppliedCurrentTax.current = true;
+    const current = jurisdictions.find((j) => j.id === taxJurisdictionId) ?? defaultJurisdiction;
+    applyJurisdiction(current);
+  }, [taxLoading, taxError, jurisdictions, defaultJurisdiction, taxJurisdictionId]);
 
   // Calculate totals
-  const itemsSubtotal = lineItems.reduce((sum, item) => sum + item.lineAmount, 0);
-  const subtotal = itemsSubtotal + deliveryCharges;
-  const salesTax = subtotal * SALES_TAX_RATE;
-  const total = subtotal + salesTax;
-  const balance = total - amountPaid;
+  const { subtotal, salesTax, total } = calculateInvoiceTotals({
+    lineItems,
+    deliveryCharges,
+    taxRate,
+    deliveryTaxable,
+    taxExempt,
+  });
+  const amountPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  // Rounded to cents so a fully paid invoice shows exactly 0
+  const balance = Math.round((total - amountPaid) * 100) / 100;
 
   // Update line item
-  const updateLineItem = (id: string, field: keyof InvoiceLineItem, value: string | number) => {
+  const updateLineItem = (id: string, field: keyof InvoiceLineItem, value: string | number | boolean) => {
     setLineItems(items => items.map(item => {
       if (item.id !== id) return item;
       
@@ -100,20 +177,46 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
     }));
   };
 
+  // Link a line item to a catalog product, filling in its name and price
+  const selectLineItemProduct = (id: string, product: Product | null) => {
+    setLineItems(items => items.map(item => {
+      if (item.id !== id) return item;
+      if (!product) return { ...item, productId: undefined };
+
+      return {
+        ...item,
+        productId: product.id,
+        description: product.name,
+        unitPrice: product.priceFinal,
+        lineAmount: calculateLineAmount(item.quantity, product.priceFinal, item.discountPercent),
+      };
+    }));
+  };
+
+  // Payments
+  const updatePayment = (id: string, field: keyof InvoicePayment, value: string | number) => {
+    setPayments(items => items.map(payment => (
+      payment.id === id ? { ...payment, [field]: value } : payment
+    )));
+  };
+
+  // New payment defaults to whatever is still owed
+  const addPayment = () => {
+    setPayments([
+      ...payments,
+      emptyPayment(Date.now().toString(), Math.max(balance, 0)),
+    ]);
+  };
+
+  const removePayment = (id: string) => {
+    setPayments(payments.filter(payment => payment.id !== id));
+  };
+
   // Add new line item
   const addLineItem = () => {
     setLineItems([
       ...lineItems,
-      { 
-        id: Date.now().toString(), 
-        source: '', 
-        itemNo: '', 
-        description: '', 
-        quantity: 1, 
-        unitPrice: 0, 
-        discountPercent: 0, 
-        lineAmount: 0 
-      }
+      emptyLineItem(Date.now().toString())
     ]);
   };
 
@@ -126,55 +229,204 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
 
   // New Invoice
   const handleNewInvoice = () => {
-    const newOrderNum = orderNumber + 1;
-    setOrderNumber(newOrderNum);
-    setInvoiceDate(new Date().toISOString().split('T')[0]);
+    setInvoiceId(null);
+    setOrderNumber(null);
+    setStatus('draft');
+    setInvoiceDate(today());
     setBillToName('');
     setBillToAddress('');
     setBillToPhone('');
+    setBillToEmail('');
     setSameAsBillTo(true);
     setShipToName('');
     setShipToAddress('');
     setShipToPhone('');
-    setLineItems([
-      { id: '1', source: '', itemNo: '', description: '', quantity: 1, unitPrice: 0, discountPercent: 0, lineAmount: 0 }
-    ]);
+    setLineItems([emptyLineItem('1')]);
     setDeliveryCharges(0);
-    setPaymentMethod('credit_card');
-    setAmountPaid(0);
+    applyJurisdiction(defaultJurisdiction);
+    // Without tax settings the rate above is 0; pick it up once they load
+    hasAppliedCurrentTax.current = !taxError;
+    setTaxExempt(false);
+    setTaxExemptCertificate('');
+    setPayments([]);
     toast({ title: 'New invoice created' });
   };
 
+  // Duplicate - keeps customer and items, clears payment and gets a new order number on save
+  const handleDuplicate = () => {
+    setInvoiceId(null);
+    setOrderNumber(null);
+    setStatus('draft');
+    setInvoiceDate(today());
+    setPayments([]);
+    // Same jurisdiction as the source, but at today's rate
+    if (taxLoading || taxError) {
+      hasAppliedCurrentTax.current = false;
+    } else {
+      applyJurisdiction(jurisdictions.find((j) => j.id === taxJurisdictionId) ?? defaultJurisdiction);
+      hasAppliedCurrentTax.current = true;
+    }
+    toast({ title: 'Invoice duplicated', description: 'Save to assign a new order number.' });
+  };
+
+  const buildInvoiceInput = (): InvoiceInput => ({
+    date: invoiceDate,
+    billToName,
+    billToAddress,
+    billToPhone,
+    billToEmail,
+    shipToName,
+    shipToAddress,
+    shipToPhone,
+    sameAsBillTo,
+    lineItems,
+    deliveryCharges,
+    taxJurisdictionId,
+    taxJurisdictionName,
+    taxRate,
+    deliveryTaxable,
+    taxExempt,
+    taxExemptCertificate,
+    subtotal,
+    salesTax,
+    total,
+    payments,
+  });
+
   // Save Invoice
-  const handleSaveInvoice = () => {
-    saveOrderNumber(orderNumber);
-    toast({ title: `Invoice #${orderNumber} saved successfully` });
+  const handleSaveInvoice = async (): Promise<Invoice | null> => {
+    // Never save a 0% rate just because the tax settings failed to load
+    if (!hasAppliedCurrentTax.current) {
+      toast({
+        title: 'Tax rate not loaded',
+        description: taxError ? 'Reload the tax settings before saving.' : 'Wait for the tax settings to load.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    if (taxExempt && !taxExemptCertificate.trim()) {
+      toast({
+        title: 'Certificate number required',
+        description: 'Enter the customer\'s tax exemption certificate number.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    setIsSaving(true);
+    try {
+      const input = buildInvoiceInput();
+      const saved = invoiceId
+        ? await updateInvoice(invoiceId, input)
+        : await createInvoice(input);
+      setInvoiceId(saved.id);
+      setOrderNumber(saved.orderNumber);
+      setStatus(saved.status);
+      setLineItems(saved.lineItems);
+      setPayments(saved.payments);
+      return saved;
+    } catch {
+      // Error is already handled in hook with toast
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  // Print
-  const handlePrint = () => {
-    saveOrderNumber(orderNumber);
-    window.print();
+  // Finalize - saves first, then takes linked floor samples off the storefront
+  const handleFinalize = async () => {
+    const saved = await handleSaveInvoice();
+    if (!saved) return;
+
+    setIsSaving(true);
+    try {
+      const finalized = await finalizeInvoice(saved.id);
+      setStatus(finalized.status);
+      onFinalized?.(finalized);
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // PDF - saves first so the document carries its order number and payments
+  const handleDownloadPdf = async () => {
+    const saved = await handleSaveInvoice();
+    if (!saved) return;
+
+    setIsExporting(true);
+    try {
+      await downloadInvoicePdf(saved);
+    } catch (err) {
+      console.error('Error generating invoice PDF:', err);
+      toast({ title: 'Failed to generate PDF', variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Email - saves first so the customer gets what is on screen
+  const handleSendToCustomer = async () => {
+    const saved = await handleSaveInvoice();
+    if (saved) setSendTarget(saved);
   };
 
   return (
     <div className={cn(!isEmbedded && "min-h-screen bg-background")}>
       <div className="no-print px-4 py-4">
         <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
-          <h1 className="text-xl font-semibold text-foreground">Invoice</h1>
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            {onBack && (
+              <Button variant="ghost" size="icon" onClick={onBack} aria-label="Back to invoices">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <h1 className="text-xl font-semibold text-foreground">
+              {orderNumber !== null ? `Invoice #${orderNumber}` : 'Invoice'}
+            </h1>
+            {status === 'finalized' && <Badge variant="secondary">Finalized</Badge>}
+          </div>
+          <div className="flex flex-wrap gap-2">
             <Button variant="outline" onClick={handleNewInvoice}>
               <FileText className="mr-2 h-4 w-4" />
               New Invoice
             </Button>
-            <Button variant="outline" onClick={handleSaveInvoice}>
-              <Save className="mr-2 h-4 w-4" />
+            {invoiceId && (
+              <Button variant="outline" onClick={handleDuplicate} disabled={isSaving}>
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleSaveInvoice} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
               Save
             </Button>
-            <Button onClick={handlePrint}>
-              <Printer className="mr-2 h-4 w-4" />
-              Print / PDF
+            {status === 'draft' && (
+              <Button variant="outline" onClick={handleFinalize} disabled={isSaving}>
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                Finalize
+              </Button>
+            )}
+            <Button onClick={handleDownloadPdf} disabled={isSaving || isExporting}>
+              {isExporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Download PDF
             </Button>
+            {invoiceId && (
+              <Button variant="outline" onClick={handleSendToCustomer} disabled={isSaving}>
+                <Mail className="mr-2 h-4 w-4" />
+                Send to customer
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -194,8 +446,10 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
           </div>
           <div className="text-right print:text-xs">
             <p className="text-sm font-medium text-foreground print:text-xs">Business Hours:</p>
-            <p className="text-sm text-muted-foreground print:text-xs">Mon-Sat: 11AM–5PM</p>
-            <p className="text-sm text-muted-foreground print:text-xs">CLOSED SUNDAY</p>
+            {hours &&
+              summarizeWeeklyHours(hours.weekly, true).map((line) => (
+                <p key={line} className="text-sm text-muted-foreground print:text-xs">{line}</p>
+              ))}
           </div>
         </div>
 
@@ -217,7 +471,11 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
           </div>
           <div className="flex items-center gap-2">
             <Label className="font-medium text-sm">Order No.:</Label>
-            <span className="text-base font-semibold text-foreground">{orderNumber}</span>
+            {orderNumber !== null ? (
+              <span className="text-base font-semibold text-foreground">{orderNumber}</span>
+            ) : (
+              <span className="text-sm text-muted-foreground">Assigned on save</span>
+            )}
           </div>
         </div>
 
@@ -245,6 +503,13 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
                 onChange={(e) => setBillToPhone(e.target.value)}
                 className="h-8 text-sm"
               />
+              <Input
+                type="email"
+                placeholder="Email"
+                value={billToEmail}
+                onChange={(e) => setBillToEmail(e.target.value)}
+                className="h-8 text-sm print:hidden"
+              />
             </div>
           </div>
           <div>
@@ -305,6 +570,7 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
                 <th className="px-1 py-2 text-right font-medium print:py-1">Price</th>
                 <th className="px-1 py-2 text-right font-medium print:py-1">Disc%</th>
                 <th className="px-1 py-2 text-right font-medium print:py-1">Amount</th>
+                <th className="px-1 py-2 text-center font-medium print:py-1">Tax</th>
                 <th className="px-1 py-2 text-center font-medium no-print">X</th>
               </tr>
             </thead>
@@ -328,12 +594,21 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
                     />
                   </td>
                   <td className="px-1 py-1">
-                    <Input
-                      placeholder="Description"
-                      value={item.description}
-                      onChange={(e) => updateLineItem(item.id, 'description', e.target.value)}
-                      className="h-7 min-w-[100px] text-xs"
-                    />
+                    <div className="flex items-center gap-1">
+                      <div className="no-print">
+                        <ProductPicker
+                          products={products}
+                          value={item.productId}
+                          onSelect={(product) => selectLineItemProduct(item.id, product)}
+                        />
+                      </div>
+                      <Input
+                        placeholder="Description"
+                        value={item.description}
+                        onChange={(e) => updateLineItem(item.id, 'description', e.target.value)}
+                        className="h-7 min-w-[100px] text-xs"
+                      />
+                    </div>
                   </td>
                   <td className="px-1 py-1">
                     <Input
@@ -367,6 +642,14 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
                   <td className="px-1 py-1 text-right font-medium">
                     ${item.lineAmount.toFixed(2)}
                   </td>
+                  <td className="px-1 py-1 text-center">
+                    <Checkbox
+                      checked={item.taxable}
+                      onCheckedChange={(c) => updateLineItem(item.id, 'taxable', !!c)}
+                      disabled={taxExempt}
+                      aria-label="Taxable"
+                    />
+                  </td>
                   <td className="px-1 py-1 text-center no-print">
                     <Button
                       variant="ghost"
@@ -394,7 +677,7 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
         </div>
 
         {/* Delivery Charges */}
-        <div className="mb-3 flex items-center gap-2 print:mb-2">
+        <div className="mb-3 flex flex-wrap items-center gap-2 print:mb-2">
           <Label className="text-sm">Delivery Charges:</Label>
           <Input
             type="number"
@@ -404,6 +687,65 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
             onChange={(e) => setDeliveryCharges(parseFloat(e.target.value) || 0)}
             className="w-24 h-7 text-sm"
           />
+          <div className="flex items-center space-x-2 no-print">
+            <Checkbox
+              id="deliveryTaxable"
+              checked={deliveryTaxable}
+              onCheckedChange={(c) => setDeliveryTaxable(!!c)}
+              disabled={taxExempt}
+            />
+            <Label htmlFor="deliveryTaxable" className="text-xs font-normal">Taxable</Label>
+          </div>
+        </div>
+
+        {/* Tax */}
+        <div className="mb-3 flex flex-wrap items-center gap-2 no-print">
+          <Label className="text-sm">Sales Tax:</Label>
+          <Select
+            value={jurisdictions.some((j) => j.id === taxJurisdictionId) ? taxJurisdictionId : ''}
+            onValueChange={(id) => applyJurisdiction(jurisdictions.find((j) => j.id === id) ?? null)}
+          >
+            <SelectTrigger className="h-7 w-auto min-w-[10rem] text-xs">
+              <SelectValue
+                placeholder={
+                  taxJurisdictionName
+                    ? `${taxJurisdictionName} (${formatTaxRate(taxRate)})`
+                    : 'Select tax jurisdiction'
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {jurisdictions.map((jurisdiction) => (
+                <SelectItem key={jurisdiction.id} value={jurisdiction.id}>
+                  {jurisdiction.name} ({formatTaxRate(jurisdiction.rate)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="taxExempt"
+              checked={taxExempt}
+              onCheckedChange={(c) => setTaxExempt(!!c)}
+            />
+            <Label htmlFor="taxExempt" className="text-xs font-normal">Tax exempt</Label>
+          </div>
+          {taxExempt && (
+            <Input
+              placeholder="Exemption certificate #"
+              value={taxExemptCertificate}
+              onChange={(e) => setTaxExemptCertificate(e.target.value)}
+              className="h-7 w-48 text-xs"
+            />
+          )}
+          {taxError && (
+            <span className="flex items-center gap-2 text-xs text-destructive">
+              {taxError}. Saving is disabled until tax rates load.
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={fetchJurisdictions}>
+                Retry
+              </Button>
+            </span>
+          )}
         </div>
 
         {/* Summary - Compact */}
@@ -413,39 +755,84 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
               <span className="text-muted-foreground">Subtotal:</span>
               <span className="font-medium">${subtotal.toFixed(2)}</span>
             </div>
-            <div className="flex items-center justify-between gap-2">
-              <div className="flex items-center gap-1 no-print">
-                <Select 
-                  value={paymentMethod} 
-                  onValueChange={(v) => setPaymentMethod(v as PaymentMethod)}
-                >
-                  <SelectTrigger className="h-6 w-24 text-xs">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="cash">Cash</SelectItem>
-                    <SelectItem value="debit_card">Debit</SelectItem>
-                    <SelectItem value="credit_card">Credit</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <span className="text-muted-foreground">Tax (6.25%):</span>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {taxExempt ? 'Tax (Exempt):' : `Tax (${formatTaxRate(taxRate)}):`}
+              </span>
               <span className="font-medium">${salesTax.toFixed(2)}</span>
             </div>
+            {taxExempt && (
+              <p className="text-xs text-muted-foreground">
+                Exemption certificate #{taxExemptCertificate}
+              </p>
+            )}
             <div className="flex justify-between border-t border-border pt-1">
               <span className="font-semibold">Total:</span>
               <span className="font-bold text-foreground">${total.toFixed(2)}</span>
             </div>
+
+            {/* Payments ledger */}
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between gap-1">
+                <div className="flex items-center gap-1 no-print">
+                  <Input
+                    type="date"
+                    value={payment.date}
+                    onChange={(e) => updatePayment(payment.id, 'date', e.target.value)}
+                    className="h-6 w-[7.5rem] px-1 text-xs"
+                  />
+                  <Select
+                    value={payment.method}
+                    onValueChange={(v) => updatePayment(payment.id, 'method', v as PaymentMethod)}
+                  >
+                    <SelectTrigger className="h-6 w-24 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <span className="hidden text-muted-foreground print:inline">
+                  Paid {formatDate(new Date(`${payment.date}T00:00:00`))} ({PAYMENT_METHOD_LABELS[payment.method]}):
+                </span>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={payment.amount}
+                    onChange={(e) => updatePayment(payment.id, 'amount', parseFloat(e.target.value) || 0)}
+                    className="h-6 w-20 text-right text-xs"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 no-print"
+                    onClick={() => removePayment(payment.id)}
+                    aria-label="Remove payment"
+                  >
+                    <Trash2 className="h-3 w-3 text-muted-foreground" />
+                  </Button>
+                </div>
+              </div>
+            ))}
             <div className="flex items-center justify-between gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addPayment}
+                className="no-print h-6 text-xs"
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add Payment
+              </Button>
               <span className="text-muted-foreground">Paid:</span>
-              <Input
-                type="number"
-                min="0"
-                step="0.01"
-                value={amountPaid}
-                onChange={(e) => setAmountPaid(parseFloat(e.target.value) || 0)}
-                className="h-6 w-24 text-right text-xs"
-              />
+              <span className="font-medium">${amountPaid.toFixed(2)}</span>
             </div>
             <div className={cn(
               "flex justify-between border-t border-border pt-1",
@@ -494,6 +881,12 @@ const InvoicePage = ({ isEmbedded = false }: InvoicePageProps) => {
           </ol>
         </div>
       </div>
+
+      <SendInvoiceDialog
+        key={sendTarget?.id}
+        invoice={sendTarget}
+        onOpenChange={(open) => !open && setSendTarget(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Check, Link2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Product, PRODUCT_STATUS_LABELS } from '@/types/product';
+import { cn } from '@/lib/utils';
+
+interface ProductPickerProps {
+  products: Product[];
+  value?: string;
+  onSelect: (product: Product | null) => void;
+}
+
+export function ProductPicker({ products, value, onSelect }: ProductPickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = value ? products.find((p) => p.id === value) : undefined;
+
+  const floorSamples = products.filter((p) => p.category === 'floor_sample');
+  const onlineProducts = products.filter((p) => p.category === 'online_inventory');
+
+  const renderItem = (product: Product) => {
+    // A floor sample that's already gone or taken off the floor can't be sold.
+    // One on hold can, since it's usually the customer it's held for buying it.
+    const unavailable =
+      product.category === 'floor_sample' &&
+      (product.status === 'reserved' || product.status === 'sold' || product.status === 'removed') &&
+      product.id !== value;
+
+    return (
+      <CommandItem
+        key={product.id}
+        value={`${product.name} ${product.productType ?? ''} ${product.subcategory ?? ''} ${product.id}`}
+        disabled={unavailable}
+        onSelect={() => {
+          onSelect(product);
+          setOpen(false);
+        }}
+      >
+        <Check className={cn('mr-2 h-4 w-4', product.id === value ? 'opacity-100' : 'opacity-0')} />
+        <span className="flex-1 truncate">{product.name}</span>
+        {product.status && product.status !== 'available' && (
+          <Badge variant="secondary" className="ml-2 text-[10px]">
+            {product.status === 'on_hold' && product.hold
+              ? `Held for ${product.hold.customer}`
+              : PRODUCT_STATUS_LABELS[product.status]}
+          </Badge>
+        )}
+        <span className="ml-2 text-xs text-muted-foreground">${product.priceFinal.toFixed(2)}</span>
+      </CommandItem>
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-7 w-7 shrink-0', selected && 'text-primary')}
+          aria-label={selected ? `Linked to ${selected.name}` : 'Pick product from catalog'}
+          title={selected ? `Linked to ${selected.name}` : 'Pick product from catalog'}
+        >
+          <Link2 className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search products..." />
+          <CommandList>
+            <CommandEmpty>No products found.</CommandEmpty>
+            {value && (
+              <CommandGroup>
+                <CommandItem
+                  value="__unlink__"
+                  onSelect={() => {
+                    onSelect(null);
+                    setOpen(false);
+                  }}
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Unlink product
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {floorSamples.length > 0 && (
+              <CommandGroup heading="Floor Samples">{floorSamples.map(renderItem)}</CommandGroup>
+            )}
+            {onlineProducts.length > 0 && (
+              <CommandGroup heading="Online Inventory">{onlineProducts.map(renderItem)}</CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
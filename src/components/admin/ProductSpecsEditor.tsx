@@ -0,0 +1,75 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ProductSpecs } from '@/types/product';
+
+type NumericSpec = 'widthIn' | 'depthIn' | 'heightIn' | 'seatHeightIn' | 'weightLb';
+
+const NUMERIC_FIELDS: { key: NumericSpec; label: string; placeholder: string }[] = [
+  { key: 'widthIn', label: 'Width (in)', placeholder: '84' },
+  { key: 'depthIn', label: 'Depth (in)', placeholder: '38' },
+  { key: 'heightIn', label: 'Height (in)', placeholder: '32' },
+  { key: 'seatHeightIn', label: 'Seat Height (in)', placeholder: '18' },
+  { key: 'weightLb', label: 'Weight (lb)', placeholder: '120' },
+];
+
+interface ProductSpecsEditorProps {
+  specs: ProductSpecs;
+  onChange: (specs: ProductSpecs) => void;
+}
+
+export function ProductSpecsEditor({ specs, onChange }: ProductSpecsEditorProps) {
+  const updateNumber = (key: NumericSpec, value: string) => {
+    const number = parseFloat(value);
+    onChange({ ...specs, [key]: number > 0 ? number : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label className="text-base font-medium">Specifications (Optional)</Label>
+      <p className="text-sm text-muted-foreground">
+        Shown as a table on the product page, with centimeters and kilograms for customers who want them.
+        Width, depth and height are also catalog filters.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+        {NUMERIC_FIELDS.map((field) => (
+          <div key={field.key}>
+            <Label htmlFor={`spec-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`spec-${field.key}`}
+              type="number"
+              min="0"
+              step="0.25"
+              value={specs[field.key] ?? ''}
+              onChange={(e) => updateNumber(field.key, e.target.value)}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="spec-material">Material</Label>
+          <Input
+            id="spec-material"
+            value={specs.material ?? ''}
+            onChange={(e) => onChange({ ...specs, material: e.target.value || undefined })}
+            placeholder="Top-grain leather, walnut legs"
+            maxLength={100}
+          />
+        </div>
+        <div>
+          <Label htmlFor="spec-color">Color</Label>
+          <Input
+            id="spec-color"
+            value={specs.color ?? ''}
+            onChange={(e) => onChange({ ...specs, color: e.target.value || undefined })}
+            placeholder="Cognac"
+            maxLength={100}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Product, ProductHold, ProductStatus, PRODUCT_STATUS_LABELS } from '@/types/product';
+import { getStoreToday } from '@/lib/store-hours';
+
+const PRODUCT_STATUSES = Object.keys(PRODUCT_STATUS_LABELS) as ProductStatus[];
+
+// How long a new hold lasts unless changed
+const DEFAULT_HOLD_DAYS = 7;
+
+const STATUS_HINTS: Record<ProductStatus, string> = {
+  available: 'Listed on the website.',
+  on_hold: 'Stays on the website with an "On Hold" badge, and goes back on sale after the last day.',
+  reserved: 'Hidden from the website. Set automatically when an invoice with a balance is finalized.',
+  sold: 'Hidden from the website.',
+  removed: 'Taken off the floor without being sold. Hidden from the website.',
+};
+
+interface ProductStatusDialogProps {
+  // Open while set. Render with key={product?.id}.
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (status: ProductStatus, hold?: ProductHold) => Promise<void>;
+}
+
+export function ProductStatusDialog({ product, onOpenChange, onSave }: ProductStatusDialogProps) {
+  const today = getStoreToday();
+  // The parent keys this dialog by product id, so state starts fresh per product
+  const [status, setStatus] = useState<ProductStatus>(product?.status ?? 'available');
+  const [customer, setCustomer] = useState(product?.hold?.customer ?? '');
+  const [heldUntil, setHeldUntil] = useState(
+    product?.hold?.heldUntil ?? format(addDays(parseISO(today), DEFAULT_HOLD_DAYS), 'yyyy-MM-dd')
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isHold = status === 'on_hold';
+  const trimmedCustomer = customer.trim();
+  const holdError = !isHold
+    ? null
+    : !trimmedCustomer
+      ? 'Enter who the item is held for'
+      : !heldUntil || heldUntil < today
+        ? 'The hold must last until today or later'
+        : null;
+
+  const handleSave = async () => {
+    if (holdError) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(status, isHold ? { customer: trimmedCustomer, heldUntil } : undefined);
+      onOpenChange(false);
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Availability</DialogTitle>
+          <DialogDescription>
+            {product?.name}
+            {product?.isSet && ' - the pieces of the set change with it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="product-status">Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ProductStatus)}>
+              <SelectTrigger id="product-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRODUCT_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {PRODUCT_STATUS_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{STATUS_HINTS[status]}</p>
+          </div>
+
+          {isHold && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="product-hold-customer">Held for</Label>
+                <Input
+                  id="product-hold-customer"
+                  value={customer}
+                  onChange={(e) => setCustomer(e.target.value)}
+                  placeholder="Customer name, phone or invoice #"
+                  maxLength={200}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-hold-until">Held until (last day)</Label>
+                <Input
+                  id="product-hold-until"
+                  type="date"
+                  value={heldUntil}
+                  min={today}
+                  onChange={(e) => setHeldUntil(e.target.value)}
+                />
+              </div>
+              {holdError && <p className="text-sm text-destructive">{holdError}</p>}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !!holdError}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
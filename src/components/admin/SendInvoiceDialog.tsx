@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useInvoices } from '@/hooks/useInvoices';
+import { Invoice, InvoiceEmail } from '@/types/product';
+
+interface SendInvoiceDialogProps {
+  // Open while set; must already be saved. Render with key={invoice?.id}.
+  invoice: Invoice | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const formatSentAt = (sentAt: string) =>
+  new Date(sentAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export function SendInvoiceDialog({ invoice, onOpenChange }: SendInvoiceDialogProps) {
+  const { sendInvoiceEmail, fetchInvoiceEmails } = useInvoices({ autoFetch: false });
+  // The parent keys this dialog by invoice id, so state starts fresh per invoice
+  const [recipient, setRecipient] = useState(invoice?.billToEmail ?? '');
+  const [history, setHistory] = useState<InvoiceEmail[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  // One id per opening, so retrying after a failure can't send twice
+  const [requestId] = useState(() => crypto.randomUUID());
+
+  const invoiceId = invoice?.id;
+
+  useEffect(() => {
+    if (!invoiceId) return;
+    let cancelled = false;
+    setIsLoadingHistory(true);
+    fetchInvoiceEmails(invoiceId).then((emails) => {
+      if (cancelled) return;
+      setHistory(emails);
+      setIsLoadingHistory(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [invoiceId, fetchInvoiceEmails]);
+
+  const trimmedRecipient = recipient.trim();
+  const isValidRecipient = EMAIL_PATTERN.test(trimmedRecipient);
+
+  const handleSend = async () => {
+    if (!invoice || !isValidRecipient) return;
+
+    setIsSending(true);
+    try {
+      await sendInvoiceEmail(invoice.id, trimmedRecipient, requestId);
+      onOpenChange(false);
+    } catch {
+      // Error is already handled in hook with toast; the failed attempt is logged server-side
+      setHistory(await fetchInvoiceEmails(invoice.id));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Send Invoice #{invoice?.orderNumber}</DialogTitle>
+          <DialogDescription>
+            {invoice && invoice.balance <= 0
+              ? 'Emails a paid receipt to the customer.'
+              : 'Emails the invoice with the balance due to the customer.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="send-invoice-recipient">Customer email</Label>
+          <Input
+            id="send-invoice-recipient"
+            type="email"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            placeholder="customer@example.com"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSend();
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">Previous sends</h4>
+          {isLoadingHistory ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Not sent yet.</p>
+          ) : (
+            <ul className="max-h-40 space-y-1 overflow-y-auto text-sm">
+              {history.map((email) => (
+                <li key={email.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate" title={email.error}>
+                    {email.recipient}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                    {formatSentAt(email.sentAt)}
+                    <Badge variant={email.status === 'sent' ? 'secondary' : 'destructive'}>
+                      {email.status === 'sent' ? 'Sent' : 'Failed'}
+                    </Badge>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || !isValidRecipient}>
+            {isSending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
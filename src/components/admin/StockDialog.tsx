@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Product,
+  StockMovementReason,
+  STOCK_MOVEMENT_REASON_LABELS,
+  STOCK_STATUS_LABELS,
+  getStockStatus,
+} from '@/types/product';
+import { useStockMovements } from '@/hooks/useStockMovements';
+import { useStockLocations } from '@/hooks/useStockLocations';
+
+const STOCK_MOVEMENT_REASONS = Object.keys(STOCK_MOVEMENT_REASON_LABELS) as StockMovementReason[];
+
+// Select items can't have an empty value
+const NO_LOCATION = 'none';
+
+// Which way each reason moves stock; adjustments take a signed quantity
+const REASON_DIRECTION: Record<StockMovementReason, 1 | -1 | null> = {
+  received: 1,
+  returned: 1,
+  sold: -1,
+  adjusted: null,
+};
+
+const formatChange = (change: number) => (change > 0 ? `+${change}` : `${change}`);
+
+interface StockDialogProps {
+  // Open while set. Render with key={product?.id}.
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after stock is recorded, so the product list can refresh its totals
+  onStockChange: () => void;
+}
+
+export function StockDialog({ product, onOpenChange, onStockChange }: StockDialogProps) {
+  const { levels, movements, isLoading, error, fetchStock, recordMovement } = useStockMovements(product?.id);
+  const { locations } = useStockLocations();
+  const [reason, setReason] = useState<StockMovementReason>('received');
+  const [quantity, setQuantity] = useState('');
+  const [locationId, setLocationId] = useState(NO_LOCATION);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (product) fetchStock();
+  }, [product, fetchStock]);
+
+  const locationName = (id: string | null) =>
+    id ? (locations.find((location) => location.id === id)?.name ?? 'Unknown location') : 'No location';
+
+  const direction = REASON_DIRECTION[reason];
+  const parsedQuantity = Number(quantity);
+  const quantityChange =
+    Number.isInteger(parsedQuantity) && parsedQuantity !== 0
+      ? direction === null
+        ? parsedQuantity
+        : direction * Math.abs(parsedQuantity)
+      : null;
+
+  const onHand = levels.reduce((sum, level) => sum + level.quantity, 0);
+  // No levels means nothing recorded yet: the product isn't tracked
+  const stockStatus =
+    product && getStockStatus({ ...product, stockQuantity: levels.length > 0 ? onHand : undefined });
+
+  const handleRecord = async () => {
+    if (quantityChange === null) return;
+
+    setIsSaving(true);
+    try {
+      await recordMovement({
+        locationId: locationId === NO_LOCATION ? null : locationId,
+        quantityChange,
+        reason,
+        note: note.trim(),
+      });
+      setQuantity('');
+      setNote('');
+      onStockChange();
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Stock</DialogTitle>
+          <DialogDescription>
+            {product?.name}. Finalized invoices take sold items out of stock automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="py-8 text-center text-destructive">{error}</p>
+        ) : isLoading && levels.length === 0 && movements.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* On hand */}
+            <div className="rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">On hand</p>
+                {stockStatus && (
+                  <Badge variant={stockStatus === 'in_stock' ? 'secondary' : 'destructive'}>
+                    {STOCK_STATUS_LABELS[stockStatus]}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-3xl font-semibold text-foreground">{onHand}</p>
+              {levels.some((level) => level.locationId !== null) && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {levels
+                    .filter((level) => level.quantity !== 0)
+                    .map((level) => (
+                      <li key={level.locationId ?? NO_LOCATION} className="flex justify-between">
+                        <span className="text-muted-foreground">{locationName(level.locationId)}</span>
+                        <span>{level.quantity}</span>
+                      </li>
+                    ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Record a movement */}
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium text-foreground">Record stock</h4>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="stock-reason">Reason</Label>
+                  <Select value={reason} onValueChange={(value) => setReason(value as StockMovementReason)}>
+                    <SelectTrigger id="stock-reason">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STOCK_MOVEMENT_REASONS.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {STOCK_MOVEMENT_REASON_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stock-quantity">Quantity</Label>
+                  <Input
+                    id="stock-quantity"
+                    type="number"
+                    step="1"
+                    min={direction === null ? undefined : 1}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    placeholder={direction === null ? '-2 or 3' : '1'}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stock-location">Location</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger id="stock-location">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {direction === null && (
+                <p className="text-xs text-muted-foreground">Use a negative number to take stock out.</p>
+              )}
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note (optional), e.g. PO number or count correction"
+                  maxLength={500}
+                />
+                <Button onClick={handleRecord} disabled={isSaving || quantityChange === null}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Record{quantityChange !== null && ` ${formatChange(quantityChange)}`}
+                </Button>
+              </div>
+            </div>
+
+            {/* History */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-foreground">History</h4>
+              {movements.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No stock recorded yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Note</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {movements.map((movement) => (
+                        <TableRow key={movement.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(parseISO(movement.createdAt), 'MMM d, yyyy h:mm a')}
+                          </TableCell>
+                          <TableCell>{STOCK_MOVEMENT_REASON_LABELS[movement.reason]}</TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatChange(movement.quantityChange)}
+                          </TableCell>
+                          <TableCell>{locationName(movement.locationId)}</TableCell>
+                          <TableCell className="max-w-48 truncate" title={movement.note}>
+                            {movement.note || '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
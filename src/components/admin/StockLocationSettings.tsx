@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { StockLocation } from '@/types/product';
+import { useStockLocations } from '@/hooks/useStockLocations';
+
+interface LocationRowProps {
+  location: StockLocation;
+  onRename: (id: string, name: string) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+function LocationRow({ location, onRename, onDelete }: LocationRowProps) {
+  const [name, setName] = useState(location.name);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const trimmedName = name.trim();
+  const isDirty = trimmedName !== location.name;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} className="h-8" />
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => run(() => onRename(location.id, trimmedName))}
+        disabled={!isDirty || !trimmedName || isBusy}
+        aria-label="Save"
+      >
+        {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => run(() => onDelete(location.id))}
+        disabled={isBusy}
+        className="text-destructive hover:text-destructive"
+        aria-label="Delete"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function StockLocationSettings() {
+  const { locations, isLoading, error, addLocation, renameLocation, deleteLocation } = useStockLocations();
+  const [newName, setNewName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    setIsAdding(true);
+    try {
+      await addLocation(name);
+      setNewName('');
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock Locations</CardTitle>
+        <CardDescription>
+          Optional warehouses or back rooms for online inventory stock. Locations with stock history can be
+          renamed but not deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="py-8 text-center text-destructive">{error}</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-w-md space-y-2">
+            {locations.map((location) => (
+              <LocationRow
+                key={`${location.id}:${location.name}`}
+                location={location}
+                onRename={renameLocation}
+                onDelete={deleteLocation}
+              />
+            ))}
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="New location"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAdd();
+                }}
+                maxLength={100}
+                className="h-8"
+              />
+              <Button size="sm" onClick={handleAdd} disabled={isAdding || !newName.trim()}>
+                {isAdding ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Plus className="mr-1 h-3 w-3" />}
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
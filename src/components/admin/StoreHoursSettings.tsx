@@ -0,0 +1,447 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  BookingWindow,
+  BusinessHours,
+  DAY_NAMES,
+  StoreHoursException,
+  WEEK_ORDER,
+  formatHoursTime,
+} from '@/types/store-hours';
+import { getStoreToday } from '@/lib/store-hours';
+import { useStoreHours, BusinessHoursInput, StoreHoursExceptionInput } from '@/hooks/useStoreHours';
+import { toast } from '@/hooks/use-toast';
+
+interface HoursDraft {
+  isOpen: boolean;
+  openTime: string;
+  closeTime: string;
+}
+
+// Checked here so admins get a clear message instead of a constraint error
+function isValidRange(draft: HoursDraft) {
+  if (!draft.isOpen) return true;
+  if (draft.openTime && draft.closeTime && draft.openTime < draft.closeTime) return true;
+  toast({
+    title: 'Invalid hours',
+    description: 'Opening time must be before closing time.',
+    variant: 'destructive',
+  });
+  return false;
+}
+
+const run = async (setIsBusy: (busy: boolean) => void, action: () => Promise<unknown>) => {
+  setIsBusy(true);
+  try {
+    await action();
+  } catch {
+    // Error is already handled in hook with toast
+  } finally {
+    setIsBusy(false);
+  }
+};
+
+interface DayRowProps {
+  day: BusinessHours;
+  onSave: (dayOfWeek: number, input: BusinessHoursInput) => Promise<unknown>;
+}
+
+function DayRow({ day, onSave }: DayRowProps) {
+  const [draft, setDraft] = useState<HoursDraft & { slotCapacity: string }>({
+    isOpen: day.isOpen,
+    openTime: day.openTime ?? '11:00',
+    closeTime: day.closeTime ?? '17:00',
+    slotCapacity: day.slotCapacity.toString(),
+  });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isDirty =
+    draft.isOpen !== day.isOpen ||
+    draft.slotCapacity !== day.slotCapacity.toString() ||
+    (draft.isOpen && (draft.openTime !== day.openTime || draft.closeTime !== day.closeTime));
+
+  const handleSave = () => {
+    if (!isValidRange(draft)) return;
+    const slotCapacity = parseInt(draft.slotCapacity, 10);
+    if (isNaN(slotCapacity) || slotCapacity < 1 || slotCapacity > 20) {
+      toast({
+        title: 'Invalid capacity',
+        description: 'Allow between 1 and 20 appointments per slot.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    run(setIsBusy, () => onSave(day.dayOfWeek, { ...draft, slotCapacity }));
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{DAY_NAMES[day.dayOfWeek]}</TableCell>
+      <TableCell>
+        <Switch
+          checked={draft.isOpen}
+          onCheckedChange={(isOpen) => setDraft({ ...draft, isOpen })}
+          aria-label={`Open on ${DAY_NAMES[day.dayOfWeek]}`}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="time"
+          step="1800"
+          value={draft.openTime}
+          disabled={!draft.isOpen}
+          onChange={(e) => setDraft({ ...draft, openTime: e.target.value })}
+          className="h-8 w-32"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="time"
+          step="1800"
+          value={draft.closeTime}
+          disabled={!draft.isOpen}
+          onChange={(e) => setDraft({ ...draft, closeTime: e.target.value })}
+          className="h-8 w-32"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="1"
+          max="20"
+          value={draft.slotCapacity}
+          disabled={!draft.isOpen}
+          onChange={(e) => setDraft({ ...draft, slotCapacity: e.target.value })}
+          className="h-8 w-20 text-right"
+          aria-label={`Appointments per slot on ${DAY_NAMES[day.dayOfWeek]}`}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={!isDirty || isBusy}>
+          {isBusy ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+interface ExceptionRowProps {
+  exception: StoreHoursException;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+function ExceptionRow({ exception, onDelete }: ExceptionRowProps) {
+  const [isBusy, setIsBusy] = useState(false);
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{format(parseISO(exception.date), 'EEE, MMM d, yyyy')}</TableCell>
+      <TableCell>{exception.label || '—'}</TableCell>
+      <TableCell colSpan={2}>
+        {exception.isClosed || !exception.openTime || !exception.closeTime
+          ? 'Closed'
+          : `${formatHoursTime(exception.openTime)} – ${formatHoursTime(exception.closeTime)}`}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => run(setIsBusy, () => onDelete(exception.id))}
+          disabled={isBusy}
+          aria-label="Remove date"
+        >
+          {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+interface BookingWindowFormProps {
+  bookingWindow: BookingWindow;
+  onSave: (input: BookingWindow) => Promise<unknown>;
+}
+
+function BookingWindowForm({ bookingWindow, onSave }: BookingWindowFormProps) {
+  const [draft, setDraft] = useState({
+    minLeadHours: bookingWindow.minLeadHours.toString(),
+    maxHorizonDays: bookingWindow.maxHorizonDays.toString(),
+  });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isDirty =
+    draft.minLeadHours !== bookingWindow.minLeadHours.toString() ||
+    draft.maxHorizonDays !== bookingWindow.maxHorizonDays.toString();
+
+  const handleSave = () => {
+    const minLeadHours = parseInt(draft.minLeadHours, 10);
+    const maxHorizonDays = parseInt(draft.maxHorizonDays, 10);
+    if (isNaN(minLeadHours) || minLeadHours < 0 || minLeadHours > 168) {
+      toast({
+        title: 'Invalid notice',
+        description: 'Minimum notice must be between 0 and 168 hours.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (isNaN(maxHorizonDays) || maxHorizonDays < 1 || maxHorizonDays > 365) {
+      toast({
+        title: 'Invalid booking horizon',
+        description: 'Customers can book between 1 and 365 days ahead.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    run(setIsBusy, () => onSave({ minLeadHours, maxHorizonDays }));
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="min-lead-hours">Minimum notice (hours)</Label>
+        <Input
+          id="min-lead-hours"
+          type="number"
+          min="0"
+          max="168"
+          value={draft.minLeadHours}
+          onChange={(e) => setDraft({ ...draft, minLeadHours: e.target.value })}
+          className="h-8 w-32 text-right"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="max-horizon-days">Book up to (days ahead)</Label>
+        <Input
+          id="max-horizon-days"
+          type="number"
+          min="1"
+          max="365"
+          value={draft.maxHorizonDays}
+          onChange={(e) => setDraft({ ...draft, maxHorizonDays: e.target.value })}
+          className="h-8 w-32 text-right"
+        />
+      </div>
+      <Button size="sm" variant="outline" onClick={handleSave} disabled={!isDirty || isBusy}>
+        {isBusy ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+interface ExceptionDraft extends HoursDraft {
+  date: string;
+  label: string;
+}
+
+const emptyExceptionDraft: ExceptionDraft = {
+  date: '',
+  label: '',
+  isOpen: false,
+  openTime: '11:00',
+  closeTime: '15:00',
+};
+
+export function StoreHoursSettings() {
+  const { hours, isLoading, error, updateBusinessHours, addException, deleteException, updateBookingWindow } =
+    useStoreHours();
+  const [newDraft, setNewDraft] = useState<ExceptionDraft>(emptyExceptionDraft);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = () => {
+    if (!newDraft.date) {
+      toast({ title: 'Pick a date first', variant: 'destructive' });
+      return;
+    }
+    if (!isValidRange(newDraft)) return;
+
+    const input: StoreHoursExceptionInput = {
+      date: newDraft.date,
+      label: newDraft.label.trim(),
+      isClosed: !newDraft.isOpen,
+      openTime: newDraft.openTime,
+      closeTime: newDraft.closeTime,
+    };
+    run(setIsAdding, async () => {
+      await addException(input);
+      setNewDraft(emptyExceptionDraft);
+    });
+  };
+
+  const status = error ? (
+    <p className="py-8 text-center text-destructive">{error}</p>
+  ) : isLoading || !hours ? (
+    <div className="flex items-center justify-center py-12">
+      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+    </div>
+  ) : null;
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Store Hours</CardTitle>
+          <CardDescription>
+            Shown across the site and on invoices. Appointment times are offered in 30-minute slots within these
+            hours. &ldquo;Per slot&rdquo; is how many appointments can share one time; special-hours days use their
+            weekday&rsquo;s limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status ?? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Open</TableHead>
+                    <TableHead>Opens</TableHead>
+                    <TableHead>Closes</TableHead>
+                    <TableHead>Per Slot</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {WEEK_ORDER.map((dayOfWeek) => {
+                    const day = hours?.weekly.find((d) => d.dayOfWeek === dayOfWeek);
+                    if (!day) return null;
+                    return (
+                      <DayRow
+                        key={`${day.dayOfWeek}:${day.isOpen}:${day.openTime}:${day.closeTime}:${day.slotCapacity}`}
+                        day={day}
+                        onSave={updateBusinessHours}
+                      />
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Booking Window</CardTitle>
+          <CardDescription>
+            How much notice customers must give and how far ahead they can book. Both are counted in the
+            store&rsquo;s time zone (Eastern), wherever the customer is.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status ??
+            (hours && (
+              <BookingWindowForm
+                key={`${hours.bookingWindow.minLeadHours}:${hours.bookingWindow.maxHorizonDays}`}
+                bookingWindow={hours.bookingWindow}
+                onSave={updateBookingWindow}
+              />
+            ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays &amp; Special Hours</CardTitle>
+          <CardDescription>
+            Close the store or change its hours for a single date. No appointments can be booked outside them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status ?? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead colSpan={2}>Hours</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {hours?.exceptions.map((exception) => (
+                    <ExceptionRow key={exception.id} exception={exception} onDelete={deleteException} />
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        min={getStoreToday()}
+                        value={newDraft.date}
+                        onChange={(e) => setNewDraft({ ...newDraft, date: e.target.value })}
+                        className="h-8 w-40"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder="Thanksgiving"
+                        value={newDraft.label}
+                        onChange={(e) => setNewDraft({ ...newDraft, label: e.target.value })}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell colSpan={2}>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={newDraft.isOpen}
+                          onCheckedChange={(isOpen) => setNewDraft({ ...newDraft, isOpen })}
+                          aria-label="Open with special hours"
+                        />
+                        {newDraft.isOpen ? (
+                          <>
+                            <Input
+                              type="time"
+                              step="1800"
+                              value={newDraft.openTime}
+                              onChange={(e) => setNewDraft({ ...newDraft, openTime: e.target.value })}
+                              className="h-8 w-28"
+                            />
+                            <Input
+                              type="time"
+                              step="1800"
+                              value={newDraft.closeTime}
+                              onChange={(e) => setNewDraft({ ...newDraft, closeTime: e.target.value })}
+                              className="h-8 w-28"
+                            />
+                          </>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Closed all day</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" onClick={handleAdd} disabled={isAdding}>
+                        {isAdding ? (
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        ) : (
+                          <Plus className="mr-1 h-3 w-3" />
+                        )}
+                        Add
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
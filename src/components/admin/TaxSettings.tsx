@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { Loader2, Plus, Save, Star, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TaxJurisdiction } from '@/types/product';
+import { useTaxJurisdictions, TaxJurisdictionInput } from '@/hooks/useTaxJurisdictions';
+import { toast } from '@/hooks/use-toast';
+
+// Rates are stored as fractions but edited as percentages
+const toPercent = (rate: number) => parseFloat((rate * 100).toFixed(4)).toString();
+
+interface JurisdictionDraft {
+  name: string;
+  ratePercent: string;
+  taxDelivery: boolean;
+}
+
+const emptyDraft: JurisdictionDraft = { name: '', ratePercent: '', taxDelivery: true };
+
+function draftToInput(draft: JurisdictionDraft): TaxJurisdictionInput | null {
+  const rate = parseFloat(draft.ratePercent);
+  if (!draft.name.trim() || isNaN(rate) || rate < 0 || rate >= 100) {
+    toast({
+      title: 'Invalid tax jurisdiction',
+      description: 'Enter a name and a rate between 0 and 100%.',
+      variant: 'destructive',
+    });
+    return null;
+  }
+  return { name: draft.name.trim(), rate: rate / 100, taxDelivery: draft.taxDelivery };
+}
+
+interface JurisdictionRowProps {
+  jurisdiction: TaxJurisdiction;
+  onSave: (id: string, input: TaxJurisdictionInput) => Promise<unknown>;
+  onMakeDefault: (id: string) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+function JurisdictionRow({ jurisdiction, onSave, onMakeDefault, onDelete }: JurisdictionRowProps) {
+  const [draft, setDraft] = useState<JurisdictionDraft>({
+    name: jurisdiction.name,
+    ratePercent: toPercent(jurisdiction.rate),
+    taxDelivery: jurisdiction.taxDelivery,
+  });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isDirty =
+    draft.name !== jurisdiction.name ||
+    draft.ratePercent !== toPercent(jurisdiction.rate) ||
+    draft.taxDelivery !== jurisdiction.taxDelivery;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    const input = draftToInput(draft);
+    if (input) run(() => onSave(jurisdiction.id, input));
+  };
+
+  const handleDelete = () => {
+    if (jurisdiction.isDefault) {
+      toast({ title: 'Choose another default before deleting this one', variant: 'destructive' });
+      return;
+    }
+    run(() => onDelete(jurisdiction.id));
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          max="99.9999"
+          step="0.0001"
+          value={draft.ratePercent}
+          onChange={(e) => setDraft({ ...draft, ratePercent: e.target.value })}
+          className="h-8 w-24 text-right"
+        />
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={draft.taxDelivery}
+          onCheckedChange={(taxDelivery) => setDraft({ ...draft, taxDelivery })}
+          aria-label="Tax delivery charges"
+        />
+      </TableCell>
+      <TableCell>
+        {jurisdiction.isDefault ? (
+          <Badge>Default</Badge>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => run(() => onMakeDefault(jurisdiction.id))}
+            disabled={isBusy}
+          >
+            <Star className="mr-1 h-3 w-3" />
+            Make default
+          </Button>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="icon" onClick={handleSave} disabled={!isDirty || isBusy} aria-label="Save">
+            {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleDelete}
+            disabled={isBusy}
+            className="text-destructive hover:text-destructive"
+            aria-label="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function TaxSettings() {
+  const {
+    jurisdictions,
+    isLoading,
+    error,
+    addJurisdiction,
+    updateJurisdiction,
+    setDefaultJurisdiction,
+    deleteJurisdiction,
+  } = useTaxJurisdictions();
+  const [newDraft, setNewDraft] = useState<JurisdictionDraft>(emptyDraft);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const input = draftToInput(newDraft);
+    if (!input) return;
+    setIsAdding(true);
+    try {
+      await addJurisdiction(input);
+      setNewDraft(emptyDraft);
+    } catch {
+      // Error is already handled in hook with toast
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sales Tax</CardTitle>
+        <CardDescription>
+          New invoices use the default jurisdiction. Saved invoices keep the rate they were written with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="py-8 text-center text-destructive">{error}</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Jurisdiction</TableHead>
+                  <TableHead>Rate (%)</TableHead>
+                  <TableHead>Tax Delivery</TableHead>
+                  <TableHead>Default</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jurisdictions.map((jurisdiction) => (
+                  <JurisdictionRow
+                    key={`${jurisdiction.id}:${jurisdiction.name}:${jurisdiction.rate}:${jurisdiction.taxDelivery}`}
+                    jurisdiction={jurisdiction}
+                    onSave={updateJurisdiction}
+                    onMakeDefault={setDefaultJurisdiction}
+                    onDelete={deleteJurisdiction}
+                  />
+                ))}
+                <TableRow>
+                  <TableCell>
+                    <Input
+                      placeholder="New jurisdiction"
+                      value={newDraft.name}
+                      onChange={(e) => setNewDraft({ ...newDraft, name: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="99.9999"
+                      step="0.0001"
+                      placeholder="6.25"
+                      value={newDraft.ratePercent}
+                      onChange={(e) => setNewDraft({ ...newDraft, ratePercent: e.target.value })}
+                      className="h-8 w-24 text-right"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={newDraft.taxDelivery}
+                      onCheckedChange={(taxDelivery) => setNewDraft({ ...newDraft, taxDelivery })}
+                      aria-label="Tax delivery charges"
+                    />
+                  </TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">
+                    <Button size="sm" onClick={handleAdd} disabled={isAdding}>
+                      {isAdding ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <Plus className="mr-1 h-3 w-3" />
+                      )}
+                      Add
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
-import { CalendarIcon, Loader2 } from 'lucide-react';
+import { Loader2, X } from 'lucide-react';
 import { z } from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -14,29 +15,22 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Calendar } from '@/components/ui/calendar';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { cn } from '@/lib/utils';
+import { AppointmentSlotPicker } from './AppointmentSlotPicker';
+import { BookingChallenge, isBookingChallengeEnabled } from './BookingChallenge';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { useConsultants } from '@/hooks/useConsultants';
+import { summarizeWeeklyHours } from '@/types/store-hours';
+import { AppointmentProduct } from '@/types/appointment';
 
 interface Props {
   open: boolean;
   onOpenChange: (v: boolean) => void;
+  // Pre-linked items, e.g. from a product page. The customer can remove them.
+  products?: AppointmentProduct[];
 }
 
-// Store hours: Mon-Sat 11AM-5PM, Sun closed. 30-min slots.
-const SLOTS = [
-  '11:00', '11:30', '12:00', '12:30', '13:00', '13:30',
-  '14:00', '14:30', '15:00', '15:30', '16:00', '16:30',
-];
-
-const formatTimeLabel = (t: string) => {
-  const [h, m] = t.split(':').map(Number);
-  const period = h >= 12 ? 'PM' : 'AM';
-  const h12 = h % 12 === 0 ? 12 : h % 12;
-  return `${h12}:${m.toString().padStart(2, '0')} ${period}`;
-};
-
 const schema = z.object({
   name: z.string().trim().min(1, 'Name is required').max(100),
   email: z.string().trim().email('Invalid email').max(255),
@@ -65,47 +59,32 @@ const getBookingErrorMessage = (err: unknown) => {
   return 'Failed to book appointment';
 };
 
-export function AppointmentBookingDialog({ open, onOpenChange }: Props) {
+export function AppointmentBookingDialog({ open, onOpenChange, products = [] }: Props) {
+  const navigate = useNavigate();
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [phone, setPhone] = useState('');
   const [notes, setNotes] = useState('');
   const [date, setDate] = useState<Date | undefined>();
   const [time, setTime] = useState<string>('');
-  const [bookedSlots, setBookedSlots] = useState<string[]>([]);
-  const [loadingSlots, setLoadingSlots] = useState(false);
+  // '' = no preference
+  const [consultantId, setConsultantId] = useState('');
+  const [removedProductIds, setRemovedProductIds] = useState<string[]>([]);
+  // Honeypot: hidden from people, filled in by form-filling bots
+  const [company, setCompany] = useState('');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [challengeKey, setChallengeKey] = useState(0);
   const [submitting, setSubmitting] = useState(false);
-
-  // Fetch booked slots for selected date
-  useEffect(() => {
-    if (!date) {
-      setBookedSlots([]);
-      return;
-    }
-    const dateStr = format(date, 'yyyy-MM-dd');
-    setLoadingSlots(true);
-    setTime('');
-    supabase
-      .from('appointments')
-      .select('appointment_time')
-      .eq('appointment_date', dateStr)
-      .neq('status', 'cancelled')
-      .then(({ data }) => {
-        setBookedSlots((data ?? []).map((r) => (r.appointment_time as string).slice(0, 5)));
-        setLoadingSlots(false);
-      });
-  }, [date]);
-
-  const availableSlots = useMemo(
-    () => SLOTS.filter((s) => !bookedSlots.includes(s)),
-    [bookedSlots]
-  );
+  const { hours } = useStoreHours();
+  const { consultants } = useConsultants();
 
   const reset = () => {
     setName(''); setEmail(''); setPhone(''); setNotes('');
-    setDate(undefined); setTime(''); setBookedSlots([]);
+    setDate(undefined); setTime(''); setConsultantId(''); setCompany(''); setRemovedProductIds([]);
   };
 
+  const viewingProducts = products.filter((product) => !removedProductIds.includes(product.id));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const parsed = schema.safeParse({ name, email, phone, notes });
@@ -121,10 +100,14 @@ export function AppointmentBookingDialog({ open, onOpenChange }: Props) {
       toast.error('Please pick a time');
       return;
     }
+    if (isBookingChallengeEnabled && !challengeToken) {
+      toast.error('Please complete the verification');
+      return;
+    }
 
     setSubmitting(true);
     try {
-      const { error } = await supabase.functions.invoke('book-appointment', {
+      const { data, error } = await supabase.functions.invoke('book-appointment', {
         body: {
           name: parsed.data.name,
           email: parsed.data.email,
@@ -132,37 +115,81 @@ export function AppointmentBookingDialog({ open, onOpenChange }: Props) {
           notes: parsed.data.notes || null,
           appointment_date: format(date, 'yyyy-MM-dd'),
           appointment_time: time,
+          consultant_id: consultantId || null,
+          product_ids: viewingProducts.map((product) => product.id),
+          company,
+          challenge_token: challengeToken || undefined,
         },
       });
       if (error) throw error;
-      toast.success('Appointment booked! We will be in touch shortly.');
+      const manageToken: string | undefined = data?.manage_token;
+      toast.success('Appointment booked! We will be in touch shortly.', {
+        description: 'A confirmation with a link to cancel or reschedule is on its way to your inbox.',
+        action: manageToken
+          ? { label: 'Manage', onClick: () => navigate(`/appointment/${manageToken}`) }
+          : undefined,
+      });
       reset();
       onOpenChange(false);
     } catch (err: unknown) {
       toast.error(getBookingErrorMessage(err));
     } finally {
       setSubmitting(false);
+      // Challenge tokens are single-use
+      setChallengeToken('');
+      setChallengeKey((key) => key + 1);
     }
   };
 
-  // Disable Sundays + past dates
-  const disabledDays = (d: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return d < today || d.getDay() === 0;
-  };
-
   return (
     <Dialog open={open} onOpenChange={(v) => { if (!submitting) onOpenChange(v); }}>
       <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle>Book an Appointment</DialogTitle>
+          <DialogTitle>{products.length > 0 ? 'Book a Viewing' : 'Book an Appointment'}</DialogTitle>
           <DialogDescription>
-            Schedule a visit to our Worcester showroom. Mon–Sat, 11 AM – 5 PM.
+            {products.length === 0
+              ? 'Schedule a visit to our Worcester showroom.'
+              : products.length === 1
+                ? 'See it in person at our Worcester showroom. We will have it ready for your visit.'
+                : 'See them in person at our Worcester showroom. We will have them ready for your visit.'}
+            {hours && ` ${summarizeWeeklyHours(hours.weekly, true).join(', ')}.`}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {viewingProducts.length > 0 && (
+            <div className="space-y-2">
+              <Label>You&rsquo;d like to see</Label>
+              <ul className="space-y-2">
+                {viewingProducts.map((product) => (
+                  <li key={product.id} className="flex items-center gap-3 rounded-lg border border-border p-2">
+                    <img
+                      src={product.mainImageUrl}
+                      alt=""
+                      className="h-12 w-12 shrink-0 rounded-md object-cover"
+                      loading="lazy"
+                      decoding="async"
+                    />
+                    <span className="flex-1 text-sm font-medium text-foreground">{product.name}</span>
+                    {viewingProducts.length > 1 && (
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() => setRemovedProductIds((prev) => [...prev, product.id])}
+                        disabled={submitting}
+                        aria-label={`Remove ${product.name}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="name">Name *</Label>
             <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required disabled={submitting} />
@@ -179,64 +206,59 @@ export function AppointmentBookingDialog({ open, onOpenChange }: Props) {
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label>Date *</Label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  type="button"
-                  variant="outline"
-                  disabled={submitting}
-                  className={cn('w-full justify-start text-left font-normal', !date && 'text-muted-foreground')}
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {date ? format(date, 'PPP') : 'Pick a date'}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar mode="single" selected={date} onSelect={setDate} disabled={disabledDays} initialFocus />
-              </PopoverContent>
-            </Popover>
-          </div>
-
-          {date && (
+          {consultants.length > 0 && (
             <div className="space-y-2">
-              <Label>Time *</Label>
-              {loadingSlots ? (
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <Loader2 className="h-4 w-4 animate-spin" /> Loading available times…
-                </div>
-              ) : availableSlots.length === 0 ? (
-                <p className="text-sm text-muted-foreground">No times available on this day. Please pick another date.</p>
-              ) : (
-                <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
-                  {SLOTS.map((slot) => {
-                    const isBooked = bookedSlots.includes(slot);
-                    const selected = time === slot;
-                    return (
-                      <Button
-                        key={slot}
-                        type="button"
-                        size="sm"
-                        variant={selected ? 'default' : 'outline'}
-                        disabled={isBooked || submitting}
-                        onClick={() => setTime(slot)}
-                        className={cn(isBooked && 'line-through opacity-50')}
-                      >
-                        {formatTimeLabel(slot)}
-                      </Button>
-                    );
-                  })}
-                </div>
-              )}
+              <Label>Consultant</Label>
+              <Select
+                value={consultantId || 'any'}
+                onValueChange={(value) => {
+                  setConsultantId(value === 'any' ? '' : value);
+                  setTime('');
+                }}
+                disabled={submitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">No preference</SelectItem>
+                  {consultants.map((consultant) => (
+                    <SelectItem key={consultant.id} value={consultant.id}>
+                      {consultant.title ? `${consultant.name} – ${consultant.title}` : consultant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           )}
 
+          <AppointmentSlotPicker
+            date={date}
+            onDateChange={setDate}
+            time={time}
+            onTimeChange={setTime}
+            consultantId={consultantId || undefined}
+            disabled={submitting}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="notes">Notes (optional)</Label>
             <Textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} disabled={submitting} rows={3} maxLength={500} />
           </div>
 
+          <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+            <Label htmlFor="company">Company</Label>
+            <Input
+              id="company"
+              tabIndex={-1}
+              autoComplete="off"
+              value={company}
+              onChange={(e) => setCompany(e.target.value)}
+            />
+          </div>
+
+          <BookingChallenge key={challengeKey} onToken={setChallengeToken} />
+
           <div className="flex gap-2 pt-2">
             <Button type="button" variant="outline" className="flex-1" disabled={submitting} onClick={() => onOpenChange(false)}>
               Cancel
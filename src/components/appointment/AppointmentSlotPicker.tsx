@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { CalendarIcon, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatAppointmentTime } from '@/types/appointment';
+import { formatExceptionHours } from '@/types/store-hours';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { getBookableDateRange, getStoreToday } from '@/lib/store-hours';
+import { cn } from '@/lib/utils';
+
+// What appointment-availability returns for each date; never who booked a slot
+interface AvailabilityDay {
+  date: string;
+  is_open: boolean;
+  label: string;
+  slots: { time: string; available: boolean }[];
+}
+
+interface AppointmentSlotPickerProps {
+  date: Date | undefined;
+  onDateChange: (date: Date | undefined) => void;
+  time: string;
+  onTimeChange: (time: string) => void;
+  // Only offer times this consultant can take
+  consultantId?: string;
+  disabled?: boolean;
+}
+
+export function AppointmentSlotPicker({
+  date,
+  onDateChange,
+  time,
+  onTimeChange,
+  consultantId,
+  disabled,
+}: AppointmentSlotPickerProps) {
+  const { hours } = useStoreHours();
+  const [month, setMonth] = useState<Date>(() => date ?? new Date());
+  const [availability, setAvailability] = useState<Record<string, AvailabilityDay>>({});
+  const [loadingSlots, setLoadingSlots] = useState(false);
+
+  // Same window the booking function enforces, counted from today at the store.
+  // Minimum notice is applied per slot by appointment-availability.
+  const bookable = hours ? getBookableDateRange(hours.bookingWindow) : null;
+  const firstDate = bookable?.first ?? getStoreToday();
+  const lastDate = bookable?.last;
+
+  // Fetch free and taken slots for the month on screen
+  useEffect(() => {
+    const monthStart = format(startOfMonth(month), 'yyyy-MM-dd');
+    const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
+    const dateFrom = monthStart < firstDate ? firstDate : monthStart;
+    const dateTo = lastDate && monthEnd > lastDate ? lastDate : monthEnd;
+    if (dateFrom > dateTo) {
+      setAvailability({});
+      return;
+    }
+
+    let isActive = true;
+    setLoadingSlots(true);
+    supabase.functions
+      .invoke('appointment-availability', {
+        body: {
+          date_from: dateFrom,
+          date_to: dateTo,
+          consultant_id: consultantId ?? null,
+        },
+      })
+      .then(({ data, error }) => {
+        if (!isActive) return;
+        if (error) {
+          console.error('Error fetching availability:', error);
+          setAvailability({});
+          return;
+        }
+        const days = (data.days ?? []) as AvailabilityDay[];
+        setAvailability(Object.fromEntries(days.map((day) => [day.date, day])));
+      })
+      .finally(() => {
+        if (isActive) setLoadingSlots(false);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [month, consultantId, firstDate, lastDate]);
+
+  const dateStr = date ? format(date, 'yyyy-MM-dd') : '';
+  const exception = dateStr ? hours?.exceptions.find((e) => e.date === dateStr) : undefined;
+  const slots = useMemo(() => (dateStr ? availability[dateStr]?.slots ?? [] : []), [availability, dateStr]);
+  const availableSlots = useMemo(() => slots.filter((s) => s.available), [slots]);
+
+  // Dates outside the booking window, closed days and fully booked days
+  const disabledDays = (d: Date) => {
+    const dayStr = format(d, 'yyyy-MM-dd');
+    if (dayStr < firstDate || (lastDate && dayStr > lastDate)) return true;
+    const day = availability[dayStr];
+    return !day || !day.slots.some((s) => s.available);
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label>Date *</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={disabled}
+              className={cn('w-full justify-start text-left font-normal', !date && 'text-muted-foreground')}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {date ? format(date, 'PPP') : 'Pick a date'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={date}
+              onSelect={(d) => {
+                onDateChange(d);
+                onTimeChange('');
+              }}
+              month={month}
+              onMonthChange={setMonth}
+              fromMonth={parseISO(firstDate)}
+              toMonth={lastDate ? parseISO(lastDate) : undefined}
+              disabled={disabledDays}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {date && (
+        <div className="space-y-2">
+          <Label>Time *</Label>
+          {exception && (
+            <p className="text-sm text-muted-foreground">Special hours: {formatExceptionHours(exception)}</p>
+          )}
+          {loadingSlots ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading available times…
+            </div>
+          ) : availableSlots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No times available on this day. Please pick another date.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+              {slots.map((slot) => {
+                const isBooked = !slot.available;
+                const selected = time === slot.time;
+                return (
+                  <Button
+                    key={slot.time}
+                    type="button"
+                    size="sm"
+                    variant={selected ? 'default' : 'outline'}
+                    disabled={isBooked || disabled}
+                    onClick={() => onTimeChange(slot.time)}
+                    className={cn(isBooked && 'line-through opacity-50')}
+                  >
+                    {formatAppointmentTime(slot.time)}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
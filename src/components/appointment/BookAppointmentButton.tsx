@@ -1,13 +1,16 @@
 import { useState, ReactNode } from 'react';
 import { Calendar } from 'lucide-react';
 import { Button, ButtonProps } from '@/components/ui/button';
+import { AppointmentProduct } from '@/types/appointment';
 import { AppointmentBookingDialog } from './AppointmentBookingDialog';
 
 interface Props extends Omit<ButtonProps, 'onClick'> {
   children?: ReactNode;
+  // Items the visit is for, shown in the form and sent with the booking
+  products?: AppointmentProduct[];
 }
 
-export function BookAppointmentButton({ children, ...props }: Props) {
+export function BookAppointmentButton({ children, products, ...props }: Props) {
   const [open, setOpen] = useState(false);
   return (
     <>
@@ -15,7 +18,7 @@ export function BookAppointmentButton({ children, ...props }: Props) {
         <Calendar className="mr-2 h-4 w-4" />
         {children ?? 'Book an Appointment'}
       </Button>
-      <AppointmentBookingDialog open={open} onOpenChange={setOpen} />
+      <AppointmentBookingDialog open={open} onOpenChange={setOpen} products={products} />
     </>
   );
 }
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+
+// Cloudflare Turnstile widget for the booking form. Renders nothing unless
+// VITE_TURNSTILE_SITE_KEY is set; book-appointment checks the token when its
+// TURNSTILE_SECRET_KEY is set.
+const SITE_KEY = import.meta.env.VITE_TURNSTILE_SITE_KEY as string | undefined;
+const SCRIPT_URL = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+
+interface Turnstile {
+  render: (
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      callback: (token: string) => void;
+      'expired-callback': () => void;
+      'error-callback': () => void;
+    }
+  ) => string;
+  remove: (widgetId: string) => void;
+}
+
+declare global {
+  interface Window {
+    turnstile?: Turnstile;
+  }
+}
+
+export const isBookingChallengeEnabled = !!SITE_KEY;
+
+let scriptRequest: Promise<void> | null = null;
+
+function loadTurnstile(): Promise<void> {
+  if (!scriptRequest) {
+    scriptRequest = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptRequest = null;
+        script.remove();
+        reject(new Error('Failed to load the Turnstile script'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return scriptRequest;
+}
+
+interface BookingChallengeProps {
+  // '' when the token expires or the widget errors. Must be stable (e.g. a state setter).
+  onToken: (token: string) => void;
+}
+
+// Tokens are single-use: remount with a new key after each submit
+export function BookingChallenge({ onToken }: BookingChallengeProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!SITE_KEY) return;
+
+    let widgetId: string | undefined;
+    let cancelled = false;
+    loadTurnstile()
+      .then(() => {
+        if (cancelled || !containerRef.current || !window.turnstile) return;
+        widgetId = window.turnstile.render(containerRef.current, {
+          sitekey: SITE_KEY,
+          callback: onToken,
+          'expired-callback': () => onToken(''),
+          'error-callback': () => onToken(''),
+        });
+      })
+      .catch((err) => console.error('Error loading booking challenge:', err));
+
+    return () => {
+      cancelled = true;
+      if (widgetId) window.turnstile?.remove(widgetId);
+    };
+  }, [onToken]);
+
+  if (!SITE_KEY) return null;
+  return <div ref={containerRef} />;
+}
@@ -1,8 +1,13 @@
 import { Link } from 'react-router-dom';
 import { MapPin, Phone, Clock, Instagram } from 'lucide-react';
 import { storeInfo } from '@/data/storeInfo';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { summarizeWeeklyHours } from '@/types/store-hours';
 
 export function Footer() {
+  const { hours } = useStoreHours();
+  const hoursLines = hours ? summarizeWeeklyHours(hours.weekly) : [];
+
   return (
     <footer className="border-t border-border bg-secondary/30">
       <div className="container py-12">
@@ -51,11 +56,16 @@ export function Footer() {
               Store Hours
             </h4>
             <ul className="mt-4 space-y-2 text-sm text-muted-foreground">
-              <li className="flex items-center gap-2">
-                <Clock className="h-4 w-4 shrink-0" />
-                <span>{storeInfo.hours.weekdays}</span>
-              </li>
-              <li className="ml-6">{storeInfo.hours.sunday}</li>
+              {hoursLines.map((line, index) =>
+                index === 0 ? (
+                  <li key={line} className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 shrink-0" />
+                    <span>{line}</span>
+                  </li>
+                ) : (
+                  <li key={line} className="ml-6">{line}</li>
+                )
+              )}
             </ul>
           </div>
         </div>
@@ -4,19 +4,27 @@ import { Menu, X, Phone, MapPin, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { storeInfo } from '@/data/storeInfo';
 import { cn } from '@/lib/utils';
-import { prefetchFloorSamplesPage } from '@/hooks/useProducts';
+import { prefetchCatalogPage } from '@/hooks/useProducts';
+import { HeaderSearch } from './HeaderSearch';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { summarizeWeeklyHours } from '@/types/store-hours';
+import { ProductCategory } from '@/types/product';
 
 // Public navigation only - no Invoice or Admin
-const navLinks = [
+// Catalog links prefetch their first page on hover/touch
+const navLinks: { href: string; label: string; catalog?: ProductCategory }[] = [
   { href: '/', label: 'Home' },
-  { href: '/floor-samples', label: 'Floor Samples' },
-  { href: '/online-inventory', label: 'Online Inventory' },
+  { href: '/floor-samples', label: 'Floor Samples', catalog: 'floor_sample' },
+  { href: '/online-inventory', label: 'Online Inventory', catalog: 'online_inventory' },
 ];
 
 export function Header() {
   const [isOpen, setIsOpen] = useState(false);
   const location = useLocation();
-  const prefetchFloorSamples = () => prefetchFloorSamplesPage(1, 12);
+  const getPrefetch = (catalog?: ProductCategory) =>
+    catalog ? () => prefetchCatalogPage(catalog, 1, 12) : undefined;
+  const { hours } = useStoreHours();
+  const hoursSummary = hours ? summarizeWeeklyHours(hours.weekly, true).join(' | ') : '';
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/80">
@@ -33,10 +41,12 @@ export function Header() {
               {storeInfo.phone}
             </span>
           </div>
-          <span className="flex items-center gap-2">
-            <Clock className="h-3.5 w-3.5" />
-            {storeInfo.hoursShort.open} | {storeInfo.hoursShort.closed}
-          </span>
+          {hoursSummary && (
+            <span className="flex items-center gap-2">
+              <Clock className="h-3.5 w-3.5" />
+              {hoursSummary}
+            </span>
+          )}
         </div>
       </div>
 
@@ -56,8 +66,8 @@ export function Header() {
             <Link
               key={link.href}
               to={link.href}
-              onMouseEnter={link.href === '/floor-samples' ? prefetchFloorSamples : undefined}
-              onFocus={link.href === '/floor-samples' ? prefetchFloorSamples : undefined}
+              onMouseEnter={getPrefetch(link.catalog)}
+              onFocus={getPrefetch(link.catalog)}
               className={cn(
                 'px-4 py-2 text-sm font-medium transition-colors hover:text-foreground',
                 location.pathname === link.href
@@ -68,6 +78,7 @@ export function Header() {
               {link.label}
             </Link>
           ))}
+          <HeaderSearch className="ml-3 w-48 lg:w-64" />
         </div>
 
         {/* Mobile menu button */}
@@ -85,13 +96,14 @@ export function Header() {
       {isOpen && (
         <div className="border-t border-border bg-card md:hidden">
           <div className="container py-4">
+            <HeaderSearch className="mb-3" onNavigate={() => setIsOpen(false)} />
             <div className="flex flex-col gap-1">
               {navLinks.map((link) => (
                 <Link
                   key={link.href}
                   to={link.href}
                   onClick={() => setIsOpen(false)}
-                  onTouchStart={link.href === '/floor-samples' ? prefetchFloorSamples : undefined}
+                  onTouchStart={getPrefetch(link.catalog)}
                   className={cn(
                     'rounded-md px-4 py-3 text-sm font-medium transition-colors',
                     location.pathname === link.href
@@ -112,10 +124,12 @@ export function Header() {
                 <Phone className="h-3.5 w-3.5" />
                 {storeInfo.phone}
               </p>
-              <p className="mt-2 flex items-center gap-2">
-                <Clock className="h-3.5 w-3.5" />
-                {storeInfo.hoursShort.open}
-              </p>
+              {hoursSummary && (
+                <p className="mt-2 flex items-center gap-2">
+                  <Clock className="h-3.5 w-3.5" />
+                  {hoursSummary}
+                </p>
+              )}
             </div>
           </div>
         </div>
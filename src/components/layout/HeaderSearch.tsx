@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useProductSearch } from '@/hooks/useProducts';
+import { cn } from '@/lib/utils';
+
+const SUGGESTION_LIMIT = 6;
+// Wait for a pause in typing before asking for suggestions
+const SUGGESTION_DELAY_MS = 200;
+
+interface HeaderSearchProps {
+  className?: string;
+  // Called after navigating to a result, e.g. to close the mobile menu
+  onNavigate?: () => void;
+}
+
+// Search box with instant suggestions; Enter opens the full results page
+export function HeaderSearch({ className, onNavigate }: HeaderSearchProps) {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState(() => searchParams.get('q') ?? '');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const { products: suggestions, isLoading } = useProductSearch(debouncedQuery, SUGGESTION_LIMIT);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    setHighlighted(-1);
+  }, [suggestions]);
+
+  const goTo = (path: string) => {
+    setIsOpen(false);
+    navigate(path);
+    onNavigate?.();
+  };
+
+  const handleSubmit = () => {
+    if (highlighted >= 0 && suggestions[highlighted]) {
+      goTo(`/product/${suggestions[highlighted].id}`);
+      return;
+    }
+    const trimmed = query.trim();
+    if (trimmed) goTo(`/search?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((prev) => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    }
+  };
+
+  const showSuggestions = isOpen && !!debouncedQuery && debouncedQuery === query.trim();
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlighted(-1);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search furniture"
+        aria-label="Search products"
+        maxLength={100}
+        className="h-9 pl-9"
+      />
+
+      {showSuggestions && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 overflow-hidden rounded-md border border-border bg-popover text-popover-foreground shadow-md">
+          {isLoading && suggestions.length === 0 ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : suggestions.length === 0 ? (
+            <p className="px-3 py-4 text-center text-sm text-muted-foreground">No matches.</p>
+          ) : (
+            <ul>
+              {suggestions.map((product, index) => (
+                <li key={product.id}>
+                  {/* Keep focus in the input so the list stays open through the click */}
+                  <button
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => goTo(`/product/${product.id}`)}
+                    onMouseEnter={() => setHighlighted(index)}
+                    className={cn(
+                      'flex w-full items-center gap-3 px-3 py-2 text-left text-sm',
+                      index === highlighted && 'bg-accent text-accent-foreground'
+                    )}
+                  >
+                    <img
+                      src={product.mainImageUrl}
+                      alt=""
+                      className="h-10 w-10 flex-shrink-0 rounded object-cover"
+                      loading="lazy"
+                    />
+                    <span className="flex-1 truncate">{product.name}</span>
+                    <span className="text-muted-foreground">${product.priceFinal.toFixed(2)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => goTo(`/search?q=${encodeURIComponent(debouncedQuery)}`)}
+            className="w-full border-t border-border px-3 py-2 text-left text-sm font-medium hover:bg-accent hover:text-accent-foreground"
+          >
+            See all results for "{debouncedQuery}"
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { ProductTag } from '@/types/product';
+import { cn } from '@/lib/utils';
+
+const tags: { id: ProductTag; label: string }[] = [
+  { id: 'new', label: 'New' },
+  { id: 'sale', label: 'On Sale' },
+  { id: 'staff_pick', label: 'Staff Pick' },
+];
+
+interface PriceTagFilterProps {
+  selectedTags: ProductTag[];
+  onTagsChange: (tags: ProductTag[]) => void;
+  minPrice?: number;
+  maxPrice?: number;
+  onPriceChange: (minPrice: number | undefined, maxPrice: number | undefined) => void;
+}
+
+const parsePrice = (value: string) => {
+  const price = Number(value);
+  return value.trim() && Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+export function PriceTagFilter({
+  selectedTags,
+  onTagsChange,
+  minPrice,
+  maxPrice,
+  onPriceChange,
+}: PriceTagFilterProps) {
+  const [minInput, setMinInput] = useState(minPrice?.toString() ?? '');
+  const [maxInput, setMaxInput] = useState(maxPrice?.toString() ?? '');
+
+  // Follow prices set from outside, e.g. a link that clears the filters
+  useEffect(() => {
+    setMinInput(minPrice?.toString() ?? '');
+  }, [minPrice]);
+
+  useEffect(() => {
+    setMaxInput(maxPrice?.toString() ?? '');
+  }, [maxPrice]);
+
+  // Prices apply on blur or Enter, so typing doesn't query for every keystroke
+  const applyPrices = () => {
+    const min = parsePrice(minInput);
+    const max = parsePrice(maxInput);
+    if (min !== minPrice || max !== maxPrice) onPriceChange(min, max);
+  };
+
+  const toggleTag = (tag: ProductTag) => {
+    onTagsChange(
+      selectedTags.includes(tag) ? selectedTags.filter((selected) => selected !== tag) : [...selectedTags, tag]
+    );
+  };
+
+  return (
+    <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+      <div>
+        <div className="mb-2 text-sm font-medium text-muted-foreground">Show only</div>
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => {
+            const isSelected = selectedTags.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                onClick={() => toggleTag(tag.id)}
+                className={cn(
+                  'rounded-full border px-4 py-2 text-sm font-medium transition-all',
+                  isSelected
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'border-border bg-card text-muted-foreground hover:border-primary/50 hover:text-foreground'
+                )}
+              >
+                {tag.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <div>
+        <div className="mb-2 text-sm font-medium text-muted-foreground">Price</div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            inputMode="numeric"
+            placeholder="Min $"
+            aria-label="Minimum price"
+            value={minInput}
+            onChange={(e) => setMinInput(e.target.value)}
+            onBlur={applyPrices}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyPrices();
+            }}
+            className="w-28"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            inputMode="numeric"
+            placeholder="Max $"
+            aria-label="Maximum price"
+            value={maxInput}
+            onChange={(e) => setMaxInput(e.target.value)}
+            onBlur={applyPrices}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyPrices();
+            }}
+            className="w-28"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
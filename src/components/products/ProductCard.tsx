@@ -1,15 +1,23 @@
 import { memo } from 'react';
 import { Link } from 'react-router-dom';
-import { Product } from '@/types/product';
+import { Product, StockStatus, getStockStatus } from '@/types/product';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 
+const STOCK_NOTES: Record<StockStatus, string> = {
+  in_stock: 'In stock – ready to deliver',
+  low_stock: 'Low stock – only a few left',
+  backorder: 'Backorder – order now, we deliver when it arrives',
+};
+
 interface ProductCardProps {
   product: Product;
 }
 
 export const ProductCard = memo(function ProductCard({ product }: ProductCardProps) {
   const hasDiscount = product.discountPercent > 0;
+  const isOnHold = product.status === 'on_hold';
+  const stockStatus = getStockStatus(product);
 
   return (
     <Link
@@ -38,6 +46,11 @@ export const ProductCard = memo(function ProductCard({ product }: ProductCardPro
                 {product.discountPercent}% OFF
               </Badge>
             )}
+            {isOnHold && (
+              <Badge variant="secondary" className="bg-foreground/80 text-background">
+                On Hold
+              </Badge>
+            )}
             {product.tags.includes('staff_pick') && (
               <Badge variant="outline" className="border-primary/30 bg-card/90 text-foreground">
                 Staff Pick
@@ -69,9 +82,13 @@ export const ProductCard = memo(function ProductCard({ product }: ProductCardPro
 
           {/* Availability note */}
           <p className="mt-2 text-xs text-muted-foreground">
-            {product.category === 'floor_sample'
-              ? 'Available now in store'
-              : 'Order first – we purchase and deliver'}
+            {isOnHold
+              ? 'On hold for a customer – ask us to be next in line'
+              : product.category === 'floor_sample'
+                ? 'Available now in store'
+                : stockStatus
+                  ? STOCK_NOTES[stockStatus]
+                  : 'Order first – we purchase and deliver'}
           </p>
 
           {/* Price */}
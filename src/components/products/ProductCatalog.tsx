@@ -0,0 +1,273 @@
+import { useState, useEffect, useRef } from 'react';
+import { useLocation, useNavigationType, useSearchParams } from 'react-router-dom';
+import { ProductGrid } from '@/components/products/ProductGrid';
+import { CategoryFilter } from '@/components/products/CategoryFilter';
+import { fetchCatalogSubcategories, usePaginatedCatalog } from '@/hooks/useProducts';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CatalogFilters,
+  CatalogSort,
+  CATALOG_SORT_LABELS,
+  ProductCategory,
+  ProductTag,
+  isProductTypeId,
+} from '@/types/product';
+import { SubcategoryFilter } from '@/components/products/SubcategoryFilter';
+import { PriceTagFilter } from '@/components/products/PriceTagFilter';
+import { SizeFilter } from '@/components/products/SizeFilter';
+import { cn } from '@/lib/utils';
+
+const PAGE_SIZE = 12;
+const PRODUCT_TAGS: ProductTag[] = ['new', 'sale', 'staff_pick'];
+const CATALOG_SORTS = Object.keys(CATALOG_SORT_LABELS) as CatalogSort[];
+// Where the list was scrolled when a product was opened, per catalog URL
+const SCROLL_STORAGE_PREFIX = 'vmodern_catalog_scroll:';
+
+// Filters, sort and page live in the query string so a filtered view can be linked,
+// survives a refresh, and comes back when returning from a product page
+function parseNumberParam(value: string | null) {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function parseCatalogParams(params: URLSearchParams) {
+  const tags = (params.get('tags') ?? '')
+    .split(',')
+    .filter((tag): tag is ProductTag => PRODUCT_TAGS.includes(tag as ProductTag));
+  // Unknown categories are dropped, along with the subcategory inside them
+  const productType = params.get('type') ?? '';
+  const hasProductType = isProductTypeId(productType);
+  const filters: CatalogFilters = {
+    productType: hasProductType ? productType : undefined,
+    subcategory: (hasProductType && params.get('sub')) || undefined,
+    minPrice: parseNumberParam(params.get('min')),
+    maxPrice: parseNumberParam(params.get('max')),
+    tags: tags.length > 0 ? tags : undefined,
+    maxWidthIn: parseNumberParam(params.get('maxw')),
+    maxDepthIn: parseNumberParam(params.get('maxd')),
+    maxHeightIn: parseNumberParam(params.get('maxh')),
+  };
+  const sortParam = params.get('sort') as CatalogSort | null;
+  const sort = sortParam && CATALOG_SORTS.includes(sortParam) ? sortParam : 'featured';
+  const page = Math.max(1, Math.floor(parseNumberParam(params.get('page')) ?? 1));
+  return { filters, sort, page };
+}
+
+function toCatalogParams(filters: CatalogFilters, sort: CatalogSort, page: number) {
+  const params = new URLSearchParams();
+  if (filters.productType) params.set('type', filters.productType);
+  if (filters.subcategory) params.set('sub', filters.subcategory);
+  if (filters.minPrice !== undefined) params.set('min', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('max', String(filters.maxPrice));
+  if (filters.tags && filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+  if (filters.maxWidthIn !== undefined) params.set('maxw', String(filters.maxWidthIn));
+  if (filters.maxDepthIn !== undefined) params.set('maxd', String(filters.maxDepthIn));
+  if (filters.maxHeightIn !== undefined) params.set('maxh', String(filters.maxHeightIn));
+  if (sort !== 'featured') params.set('sort', sort);
+  if (page > 1) params.set('page', String(page));
+  return params;
+}
+
+interface ProductCatalogProps {
+  category: ProductCategory;
+  title: string;
+  description: string;
+  // Follows the item count, e.g. "items available now in store"
+  countLabel: string;
+  // Color of the dot in front of the count
+  dotClassName: string;
+}
+
+// Paged, filterable listing of one inventory type
+export function ProductCatalog({ category, title, description, countLabel, dotClassName }: ProductCatalogProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filters, sort, page } = parseCatalogParams(searchParams);
+  const { products, isLoading, error, retry, totalCount, lastLoadedPage, hasMore } = usePaginatedCatalog(
+    category,
+    filters,
+    sort,
+    page,
+    PAGE_SIZE
+  );
+  const [availableSubcategories, setAvailableSubcategories] = useState<string[]>([]);
+  const [isSubcategoryLoading, setIsSubcategoryLoading] = useState(false);
+  const selectedCategory = filters.productType ?? null;
+
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const scrollKey = `${SCROLL_STORAGE_PREFIX}${location.pathname}${location.search}`;
+  const hasRestoredScroll = useRef(false);
+
+  // Replace rather than push, so back leaves the page instead of undoing filters
+  const updateParams = (nextFilters: CatalogFilters, nextSort: CatalogSort, nextPage: number) => {
+    setSearchParams(toCatalogParams(nextFilters, nextSort, nextPage), { replace: true });
+  };
+
+  // Every filter or sort change starts over from the first page of the new result set
+  const updateFilters = (changes: Partial<CatalogFilters>) => {
+    updateParams({ ...filters, ...changes }, sort, 1);
+  };
+
+  // A page past the end (the list shrank, or a stale link), or further than one
+  // load fetches, becomes the last page shown; "Load More" continues from there
+  useEffect(() => {
+    if (lastLoadedPage === null) return;
+    const current = parseCatalogParams(searchParams);
+    setSearchParams(toCatalogParams(current.filters, current.sort, lastLoadedPage), { replace: true });
+  }, [lastLoadedPage, searchParams, setSearchParams]);
+
+  // Coming back (browser back or a refresh), scroll to where the product was
+  // opened once its page of the list has loaded
+  useEffect(() => {
+    if (hasRestoredScroll.current || isLoading) return;
+    hasRestoredScroll.current = true;
+    if (navigationType !== 'POP') return;
+    const saved = Number(sessionStorage.getItem(scrollKey));
+    if (saved > 0) window.scrollTo(0, saved);
+  }, [isLoading, navigationType, scrollKey]);
+
+  const saveScroll = () => {
+    try {
+      sessionStorage.setItem(scrollKey, String(window.scrollY));
+    } catch {
+      // Ignore storage write errors
+    }
+  };
+
+  useEffect(() => {
+    let isActive = true;
+
+    if (!selectedCategory) {
+      setAvailableSubcategories([]);
+      setIsSubcategoryLoading(false);
+      return () => {
+        isActive = false;
+      };
+    }
+
+    setIsSubcategoryLoading(true);
+
+    fetchCatalogSubcategories(category, selectedCategory)
+      .then((subcategories) => {
+        if (!isActive) return;
+        setAvailableSubcategories(subcategories);
+      })
+      .catch((err) => {
+        if (!isActive) return;
+        console.error('Error fetching subcategories:', err);
+        setAvailableSubcategories([]);
+      })
+      .finally(() => {
+        if (!isActive) return;
+        setIsSubcategoryLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [category, selectedCategory]);
+
+  const isInitialLoading = isLoading && products.length === 0;
+
+  return (
+    <div className="container py-12 md:py-16">
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground md:text-4xl">{title}</h1>
+        <p className="mt-3 max-w-2xl text-muted-foreground">{description}</p>
+        <div className="mt-4 inline-flex items-center rounded-lg border border-border bg-secondary/50 px-4 py-2 text-sm text-muted-foreground">
+          <span className={cn('mr-2 inline-block h-2 w-2 rounded-full', dotClassName)}></span>
+          {isInitialLoading ? '...' : totalCount} {countLabel}
+        </div>
+      </div>
+
+      <CategoryFilter
+        selectedCategory={selectedCategory}
+        onCategoryChange={(productType) =>
+          updateFilters({ productType: productType ?? undefined, subcategory: undefined })
+        }
+      />
+
+      {selectedCategory && (
+        <SubcategoryFilter
+          subcategories={availableSubcategories}
+          selectedSubcategory={filters.subcategory ?? null}
+          onSubcategoryChange={(subcategory) => updateFilters({ subcategory: subcategory ?? undefined })}
+          isLoading={isSubcategoryLoading}
+        />
+      )}
+
+      <PriceTagFilter
+        selectedTags={filters.tags ?? []}
+        onTagsChange={(tags) => updateFilters({ tags })}
+        minPrice={filters.minPrice}
+        maxPrice={filters.maxPrice}
+        onPriceChange={(minPrice, maxPrice) => updateFilters({ minPrice, maxPrice })}
+      />
+
+      <SizeFilter
+        sizes={{ maxWidthIn: filters.maxWidthIn, maxDepthIn: filters.maxDepthIn, maxHeightIn: filters.maxHeightIn }}
+        onSizesChange={updateFilters}
+      />
+
+      <div className="mb-6 flex items-center justify-end gap-2">
+        <Label htmlFor="catalog-sort" className="text-sm text-muted-foreground">
+          Sort by
+        </Label>
+        <Select value={sort} onValueChange={(value) => updateParams(filters, value as CatalogSort, 1)}>
+          <SelectTrigger id="catalog-sort" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATALOG_SORTS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {CATALOG_SORT_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Product links are the only clicks in the grid */}
+      {error && products.length === 0 ? (
+        <div className="py-8 text-center">
+          <p className="text-destructive">{error}</p>
+          <Button variant="outline" className="mt-4" onClick={retry}>
+            Try Again
+          </Button>
+        </div>
+      ) : (
+        <div onClickCapture={saveScroll}>
+          <ProductGrid products={products} isLoading={isInitialLoading} />
+        </div>
+      )}
+
+      {error && products.length > 0 ? (
+        <div className="mt-10 flex flex-col items-center gap-3">
+          <p className="text-sm text-destructive">{error}</p>
+          <Button variant="outline" onClick={retry}>
+            Try Again
+          </Button>
+        </div>
+      ) : hasMore && (
+        <div className="mt-10 flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => updateParams(filters, sort, page + 1)}
+            disabled={isLoading && products.length > 0}
+          >
+            {isLoading && products.length > 0 ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
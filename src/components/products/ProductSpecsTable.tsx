@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ProductSpecs } from '@/types/product';
+
+type Units = 'imperial' | 'metric';
+
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.453592;
+
+// Whole numbers print without decimals: 84" and 213 cm, but 18.5"
+const formatNumber = (value: number, decimals: number) => String(Number(value.toFixed(decimals)));
+
+const formatLength = (inches: number, units: Units) =>
+  units === 'imperial' ? `${formatNumber(inches, 2)}"` : `${formatNumber(inches * CM_PER_INCH, 0)} cm`;
+
+const formatWeight = (pounds: number, units: Units) =>
+  units === 'imperial' ? `${formatNumber(pounds, 1)} lb` : `${formatNumber(pounds * KG_PER_POUND, 1)} kg`;
+
+interface ProductSpecsTableProps {
+  specs: ProductSpecs;
+}
+
+// Specification table with an inch/cm switch; renders nothing without specs
+export function ProductSpecsTable({ specs }: ProductSpecsTableProps) {
+  const [units, setUnits] = useState<Units>('imperial');
+
+  const rows = [
+    { label: 'Width', value: specs.widthIn !== undefined && formatLength(specs.widthIn, units) },
+    { label: 'Depth', value: specs.depthIn !== undefined && formatLength(specs.depthIn, units) },
+    { label: 'Height', value: specs.heightIn !== undefined && formatLength(specs.heightIn, units) },
+    { label: 'Seat Height', value: specs.seatHeightIn !== undefined && formatLength(specs.seatHeightIn, units) },
+    { label: 'Material', value: specs.material },
+    { label: 'Color', value: specs.color },
+    { label: 'Weight', value: specs.weightLb !== undefined && formatWeight(specs.weightLb, units) },
+  ].filter((row): row is { label: string; value: string } => !!row.value);
+
+  if (rows.length === 0) return null;
+
+  const hasMeasurements =
+    [specs.widthIn, specs.depthIn, specs.heightIn, specs.seatHeightIn, specs.weightLb].some(
+      (value) => value !== undefined
+    );
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium text-foreground">Specifications</h2>
+        {hasMeasurements && (
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={units}
+            onValueChange={(value) => value && setUnits(value as Units)}
+            aria-label="Units"
+          >
+            <ToggleGroupItem value="imperial" className="h-7 px-2 text-xs">
+              in / lb
+            </ToggleGroupItem>
+            <ToggleGroupItem value="metric" className="h-7 px-2 text-xs">
+              cm / kg
+            </ToggleGroupItem>
+          </ToggleGroup>
+        )}
+      </div>
+      <dl className="mt-2 divide-y divide-border rounded-lg border border-border text-sm">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-4 px-4 py-2">
+            <dt className="text-muted-foreground">{row.label}</dt>
+            <dd className="text-right font-medium text-foreground">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { CatalogFilters } from '@/types/product';
+
+type SizeKey = 'maxWidthIn' | 'maxDepthIn' | 'maxHeightIn';
+
+const fields: { key: SizeKey; label: string }[] = [
+  { key: 'maxWidthIn', label: 'Width' },
+  { key: 'maxDepthIn', label: 'Depth' },
+  { key: 'maxHeightIn', label: 'Height' },
+];
+
+type SizeFilters = Pick<CatalogFilters, SizeKey>;
+
+interface SizeFilterProps {
+  sizes: SizeFilters;
+  onSizesChange: (sizes: SizeFilters) => void;
+}
+
+const toInputs = (sizes: SizeFilters) => ({
+  maxWidthIn: sizes.maxWidthIn?.toString() ?? '',
+  maxDepthIn: sizes.maxDepthIn?.toString() ?? '',
+  maxHeightIn: sizes.maxHeightIn?.toString() ?? '',
+});
+
+const parseSize = (value: string) => {
+  const size = Number(value);
+  return value.trim() && Number.isFinite(size) && size > 0 ? size : undefined;
+};
+
+// Maximum dimensions in inches, e.g. a sofa that fits an 84" wall
+export function SizeFilter({ sizes, onSizesChange }: SizeFilterProps) {
+  const [inputs, setInputs] = useState(() => toInputs(sizes));
+  const { maxWidthIn, maxDepthIn, maxHeightIn } = sizes;
+
+  // Follow sizes set from outside, e.g. a link that clears the filters
+  useEffect(() => {
+    setInputs(toInputs({ maxWidthIn, maxDepthIn, maxHeightIn }));
+  }, [maxWidthIn, maxDepthIn, maxHeightIn]);
+
+  // Sizes apply on blur or Enter, like prices
+  const applySizes = () => {
+    const next = {
+      maxWidthIn: parseSize(inputs.maxWidthIn),
+      maxDepthIn: parseSize(inputs.maxDepthIn),
+      maxHeightIn: parseSize(inputs.maxHeightIn),
+    };
+    if (fields.some((field) => next[field.key] !== sizes[field.key])) onSizesChange(next);
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="mb-2 text-sm font-medium text-muted-foreground">Fits within (inches)</div>
+      <div className="flex flex-wrap items-center gap-2">
+        {fields.map((field) => (
+          <Input
+            key={field.key}
+            type="number"
+            min={0}
+            inputMode="decimal"
+            placeholder={`Max ${field.label.toLowerCase()}`}
+            aria-label={`Maximum ${field.label.toLowerCase()} in inches`}
+            value={inputs[field.key]}
+            onChange={(e) => setInputs((prev) => ({ ...prev, [field.key]: e.target.value }))}
+            onBlur={applySizes}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applySizes();
+            }}
+            className="w-32"
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,14 +8,9 @@ export const storeInfo = {
   phone: '(508) 749-3311',
   website: 'www.vmodernfurniture.com',
   instagram: '@vmodernfurniture',
-  hours: {
-    weekdays: 'Monday – Saturday: 11:00 AM – 5:00 PM',
-    sunday: 'Sunday: Closed',
-  },
-  hoursShort: {
-    open: 'Mon-Sat: 11AM – 5PM',
-    closed: 'Sun: Closed',
-  },
+  // Appointment dates and times are store-local. Keep in sync with STORE_TIMEZONE in supabase/functions/_shared/store.ts.
+  timezone: 'America/New_York',
+  // Store hours live in the business_hours table; see useStoreHours
 };
 
 export const returnTerms = [
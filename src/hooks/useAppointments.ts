@@ -0,0 +1,190 @@
+import { useState, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Appointment, AppointmentProduct, AppointmentStatus, APPOINTMENT_STATUS_LABELS } from '@/types/appointment';
+import { APPOINTMENT_COLUMNS, DbAppointment, dbToAppointment, loadAppointmentProducts } from '@/lib/appointments';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+// The list layout can span months; filters narrow it to the rest
+export const APPOINTMENT_LIST_LIMIT = 500;
+
+export interface AppointmentFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  status?: AppointmentStatus;
+  consultantId?: string;
+}
+
+export function useAppointments() {
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  // Products the loaded appointments ask to see, by id. Deleted products are missing.
+  const [products, setProducts] = useState<Record<string, AppointmentProduct>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isTruncated, setIsTruncated] = useState(false);
+  const latestRequestId = useRef(0);
+
+  const fetchAppointments = useCallback(async (filters: AppointmentFilters = {}) => {
+    // Switching days or weeks quickly fires overlapping requests; keep the latest
+    const requestId = ++latestRequestId.current;
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      let query = supabase.from('appointments').select(APPOINTMENT_COLUMNS);
+
+      if (filters.dateFrom) {
+        query = query.gte('appointment_date', filters.dateFrom);
+      }
+      if (filters.dateTo) {
+        query = query.lte('appointment_date', filters.dateTo);
+      }
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.consultantId) {
+        query = query.eq('consultant_id', filters.consultantId);
+      }
+
+      // One extra row tells whether anything was left out
+      const { data, error: fetchError } = await query
+        .order('appointment_date', { ascending: true })
+        .order('appointment_time', { ascending: true })
+        .limit(APPOINTMENT_LIST_LIMIT + 1);
+
+      if (fetchError) throw fetchError;
+
+      const rows = (data || []) as DbAppointment[];
+      const loaded = rows.slice(0, APPOINTMENT_LIST_LIMIT).map(dbToAppointment);
+      const loadedProducts = await loadAppointmentProducts(loaded);
+      if (requestId !== latestRequestId.current) return;
+
+      setIsTruncated(rows.length > APPOINTMENT_LIST_LIMIT);
+      setAppointments(loaded);
+      setProducts(loadedProducts);
+    } catch (err) {
+      console.error('Error fetching appointments:', err);
+      if (requestId === latestRequestId.current) {
+        setError('Failed to load appointments');
+      }
+    } finally {
+      if (requestId === latestRequestId.current) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const applyUpdate = async (
+    id: string,
+    update: { status?: AppointmentStatus; consultant_id?: string | null }
+  ): Promise<Appointment> => {
+    const { data, error: updateError } = await supabase
+      .from('appointments')
+      .update(update)
+      .eq('id', id)
+      .select(APPOINTMENT_COLUMNS)
+      .single();
+
+    if (updateError) throw updateError;
+
+    const updated = dbToAppointment(data as DbAppointment);
+    setAppointments((prev) => prev.map((existing) => (existing.id === id ? updated : existing)));
+    return updated;
+  };
+
+  const updateAppointmentStatus = async (id: string, status: AppointmentStatus): Promise<Appointment> => {
+    try {
+      const updated = await applyUpdate(id, { status });
+      toast({ title: `Appointment marked ${APPOINTMENT_STATUS_LABELS[status].toLowerCase()}` });
+      return updated;
+    } catch (err) {
+      console.error('Error updating appointment status:', err);
+      toast({
+        title: 'Failed to update appointment',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const updateInternalNotes = async (id: string, internalNotes: string): Promise<Appointment> => {
+    try {
+      const { error: notesError } = await supabase
+        .from('appointment_internal_notes')
+        .upsert({ appointment_id: id, notes: internalNotes.trim() });
+
+      if (notesError) throw notesError;
+
+      const { data, error: fetchError } = await supabase
+        .from('appointments')
+        .select(APPOINTMENT_COLUMNS)
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const updated = dbToAppointment(data as DbAppointment);
+      setAppointments((prev) => prev.map((existing) => (existing.id === id ? updated : existing)));
+      toast({ title: 'Notes saved' });
+      return updated;
+    } catch (err) {
+      console.error('Error saving appointment notes:', err);
+      toast({
+        title: 'Failed to save notes',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const assignConsultant = async (id: string, consultantId: string | null): Promise<Appointment> => {
+    try {
+      const updated = await applyUpdate(id, { consultant_id: consultantId });
+      toast({ title: consultantId ? 'Consultant assigned' : 'Consultant removed' });
+      return updated;
+    } catch (err) {
+      console.error('Error assigning consultant:', err);
+      const isTaken = (err as { code?: string })?.code === '23505';
+      toast({
+        title: 'Failed to assign consultant',
+        description: isTaken ? 'That consultant already has an appointment at this time.' : getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const deleteAppointment = async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase.from('appointments').delete().eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setAppointments((prev) => prev.filter((appointment) => appointment.id !== id));
+      toast({ title: 'Appointment deleted' });
+    } catch (err) {
+      console.error('Error deleting appointment:', err);
+      toast({
+        title: 'Failed to delete appointment',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  return {
+    appointments,
+    products,
+    isLoading,
+    error,
+    isTruncated,
+    fetchAppointments,
+    updateAppointmentStatus,
+    updateInternalNotes,
+    assignConsultant,
+    deleteAppointment,
+  };
+}
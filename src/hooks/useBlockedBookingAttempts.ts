@@ -0,0 +1,88 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BlockedBookingAttempt, BookingBlockReason } from '@/types/appointment';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+// Type for database booking attempt
+interface DbBookingAttempt {
+  id: string;
+  ip: string | null;
+  email: string;
+  phone: string;
+  reason: string;
+  created_at: string;
+}
+
+const BOOKING_ATTEMPT_COLUMNS = 'id,ip,email,phone,reason,created_at';
+
+// Most recent first; older rows are rarely worth reviewing
+const BLOCKED_ATTEMPTS_LIMIT = 100;
+
+function dbToBlockedAttempt(db: DbBookingAttempt): BlockedBookingAttempt {
+  return {
+    id: db.id,
+    ip: db.ip,
+    email: db.email,
+    phone: db.phone,
+    reason: db.reason as BookingBlockReason,
+    createdAt: db.created_at,
+  };
+}
+
+// Booking requests turned away by book-appointment, for admin review
+export function useBlockedBookingAttempts() {
+  const [attempts, setAttempts] = useState<BlockedBookingAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttempts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('booking_attempts')
+        .select(BOOKING_ATTEMPT_COLUMNS)
+        .eq('blocked', true)
+        .order('created_at', { ascending: false })
+        .limit(BLOCKED_ATTEMPTS_LIMIT);
+
+      if (fetchError) throw fetchError;
+      setAttempts(((data || []) as DbBookingAttempt[]).map(dbToBlockedAttempt));
+    } catch (err) {
+      console.error('Error fetching blocked booking attempts:', err);
+      setError('Failed to load blocked attempts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Removes every blocked row, not just the ones loaded
+  const clearAttempts = async () => {
+    try {
+      const { error: deleteError } = await supabase.from('booking_attempts').delete().eq('blocked', true);
+
+      if (deleteError) throw deleteError;
+
+      setAttempts([]);
+      toast({ title: 'Blocked attempts cleared' });
+    } catch (err) {
+      console.error('Error clearing blocked booking attempts:', err);
+      toast({
+        title: 'Failed to clear blocked attempts',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  return {
+    attempts,
+    isLoading,
+    error,
+    fetchAttempts,
+    clearAttempts,
+  };
+}
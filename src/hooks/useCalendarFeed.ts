@@ -0,0 +1,69 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/appointments-feed`;
+
+// 32 random bytes as hex
+function createFeedToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The staff calendar subscription URL. Anyone with it can read upcoming
+// appointments, so resetting it is how access is revoked.
+export function useCalendarFeed() {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFeed = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase.from('calendar_feed').select('token').maybeSingle();
+
+      if (fetchError) throw fetchError;
+      setToken(data?.token ?? null);
+    } catch (err) {
+      console.error('Error fetching calendar feed:', err);
+      setError('Failed to load the calendar feed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const resetFeed = async () => {
+    try {
+      const { data, error: updateError } = await supabase
+        .from('calendar_feed')
+        .update({ token: createFeedToken() })
+        .eq('id', true)
+        .select('token')
+        .single();
+
+      if (updateError) throw updateError;
+
+      setToken(data.token);
+      toast({ title: 'Calendar link reset', description: 'Existing subscriptions will stop updating.' });
+    } catch (err) {
+      console.error('Error resetting calendar feed:', err);
+      toast({
+        title: 'Failed to reset calendar link',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  return {
+    feedUrl: token ? `${FEED_FUNCTION_URL}?token=${token}` : null,
+    isLoading,
+    error,
+    fetchFeed,
+    resetFeed,
+  };
+}
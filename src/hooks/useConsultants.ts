@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Consultant, ConsultantShift } from '@/types/appointment';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+// Type for database consultant
+interface DbConsultant {
+  id: string;
+  name: string;
+  title: string;
+  is_active: boolean;
+}
+
+// Type for database consultant hours
+interface DbConsultantShift {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+export type ConsultantInput = Omit<Consultant, 'id'>;
+
+const CONSULTANT_COLUMNS = 'id,name,title,is_active';
+
+function dbToConsultant(db: DbConsultant): Consultant {
+  return {
+    id: db.id,
+    name: db.name,
+    title: db.title,
+    isActive: db.is_active,
+  };
+}
+
+// Visitors only ever get active consultants back (RLS); admins get everyone
+export function useConsultants() {
+  const [consultants, setConsultants] = useState<Consultant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConsultants = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('consultants')
+        .select(CONSULTANT_COLUMNS)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setConsultants(((data || []) as DbConsultant[]).map(dbToConsultant));
+    } catch (err) {
+      console.error('Error fetching consultants:', err);
+      setError('Failed to load consultants');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConsultants();
+  }, [fetchConsultants]);
+
+  const addConsultant = async (input: ConsultantInput): Promise<Consultant> => {
+    try {
+      const { data, error: insertError } = await supabase
+        .from('consultants')
+        .insert({ name: input.name, title: input.title, is_active: input.isActive })
+        .select(CONSULTANT_COLUMNS)
+        .single();
+
+      if (insertError) throw insertError;
+
+      const added = dbToConsultant(data as DbConsultant);
+      setConsultants((prev) => [...prev, added]);
+      toast({ title: 'Consultant added', description: 'Set their weekly hours so customers can book them.' });
+      return added;
+    } catch (err) {
+      console.error('Error adding consultant:', err);
+      toast({
+        title: 'Failed to add consultant',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const updateConsultant = async (id: string, input: ConsultantInput): Promise<Consultant> => {
+    try {
+      const { data, error: updateError } = await supabase
+        .from('consultants')
+        .update({ name: input.name, title: input.title, is_active: input.isActive })
+        .eq('id', id)
+        .select(CONSULTANT_COLUMNS)
+        .single();
+
+      if (updateError) throw updateError;
+
+      const updated = dbToConsultant(data as DbConsultant);
+      setConsultants((prev) => prev.map((existing) => (existing.id === id ? updated : existing)));
+      toast({ title: 'Consultant updated' });
+      return updated;
+    } catch (err) {
+      console.error('Error updating consultant:', err);
+      toast({
+        title: 'Failed to update consultant',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const deleteConsultant = async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase.from('consultants').delete().eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setConsultants((prev) => prev.filter((consultant) => consultant.id !== id));
+      toast({ title: 'Consultant removed' });
+    } catch (err) {
+      console.error('Error deleting consultant:', err);
+      toast({
+        title: 'Failed to remove consultant',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const fetchShifts = useCallback(async (consultantId: string): Promise<ConsultantShift[]> => {
+    const { data, error: fetchError } = await supabase
+      .from('consultant_hours')
+      .select('day_of_week,start_time,end_time')
+      .eq('consultant_id', consultantId);
+
+    if (fetchError) {
+      console.error('Error fetching consultant hours:', fetchError);
+      throw fetchError;
+    }
+
+    return ((data || []) as DbConsultantShift[]).map((db) => ({
+      dayOfWeek: db.day_of_week,
+      // Postgres TIME comes back as HH:mm:ss
+      startTime: db.start_time.slice(0, 5),
+      endTime: db.end_time.slice(0, 5),
+    }));
+  }, []);
+
+  // Replaces the consultant's week: listed days are upserted, the rest become days off
+  const saveShifts = async (consultantId: string, shifts: ConsultantShift[]) => {
+    try {
+      const workingDays = shifts.map((shift) => shift.dayOfWeek);
+      let clearQuery = supabase.from('consultant_hours').delete().eq('consultant_id', consultantId);
+      if (workingDays.length > 0) {
+        clearQuery = clearQuery.not('day_of_week', 'in', `(${workingDays.join(',')})`);
+      }
+      const { error: clearError } = await clearQuery;
+      if (clearError) throw clearError;
+
+      if (shifts.length > 0) {
+        const { error: upsertError } = await supabase.from('consultant_hours').upsert(
+          shifts.map((shift) => ({
+            consultant_id: consultantId,
+            day_of_week: shift.dayOfWeek,
+            start_time: shift.startTime,
+            end_time: shift.endTime,
+          }))
+        );
+        if (upsertError) throw upsertError;
+      }
+
+      toast({ title: 'Consultant hours saved' });
+    } catch (err) {
+      console.error('Error saving consultant hours:', err);
+      toast({
+        title: 'Failed to save consultant hours',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  return {
+    consultants,
+    isLoading,
+    error,
+    fetchConsultants,
+    addConsultant,
+    updateConsultant,
+    deleteConsultant,
+    fetchShifts,
+    saveShifts,
+  };
+}
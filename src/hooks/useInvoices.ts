@@ -0,0 +1,511 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Invoice,
+  InvoiceEmail,
+  InvoiceLineItem,
+  InvoicePayment,
+  InvoiceStatus,
+  PaymentMethod,
+} from '@/types/product';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { getFunctionErrorMessage } from '@/lib/function-errors';
+
+// Type for database invoice
+interface DbInvoice {
+  id: string;
+  order_number: number;
+  status: InvoiceStatus;
+  invoice_date: string;
+  bill_to_name: string;
+  bill_to_address: string;
+  bill_to_phone: string;
+  bill_to_email: string;
+  ship_to_name: string;
+  ship_to_address: string;
+  ship_to_phone: string;
+  same_as_bill_to: boolean;
+  delivery_charges: number;
+  tax_jurisdiction_id: string | null;
+  tax_jurisdiction_name: string;
+  tax_rate: number;
+  delivery_taxable: boolean;
+  tax_exempt: boolean;
+  tax_exempt_certificate: string;
+  subtotal: number;
+  sales_tax: number;
+  total: number;
+  amount_paid: number;
+  balance: number;
+  finalized_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbInvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  product_id: string | null;
+  source: string;
+  item_no: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  line_amount: number;
+  taxable: boolean;
+  display_order: number;
+}
+
+interface DbInvoicePayment {
+  id: string;
+  invoice_id: string;
+  payment_date: string;
+  method: PaymentMethod;
+  amount: number;
+  note: string;
+}
+
+interface DbInvoiceEmail {
+  id: string;
+  recipient: string;
+  status: 'sent' | 'failed';
+  provider: string | null;
+  provider_message_id: string | null;
+  error: string | null;
+  sent_at: string;
+}
+
+// Everything the invoice form edits. Id, order number, status, timestamps and the
+// paid/balance totals (summed from the payment ledger) come from the database.
+export type InvoiceInput = Omit<
+  Invoice,
+  'id' | 'orderNumber' | 'status' | 'finalizedAt' | 'amountPaid' | 'balance' | 'createdAt' | 'updatedAt'
+>;
+
+export interface InvoiceFilters {
+  // Matches order number, customer name or phone
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  // Only invoices with money still owing
+  balanceDue?: boolean;
+}
+
+const INVOICE_COLUMNS =
+  'id,order_number,status,invoice_date,bill_to_name,bill_to_address,bill_to_phone,bill_to_email,ship_to_name,ship_to_address,ship_to_phone,same_as_bill_to,delivery_charges,tax_jurisdiction_id,tax_jurisdiction_name,tax_rate,delivery_taxable,tax_exempt,tax_exempt_certificate,subtotal,sales_tax,total,amount_paid,balance,finalized_at,created_at,updated_at';
+const LINE_ITEM_COLUMNS =
+  'id,invoice_id,product_id,source,item_no,description,quantity,unit_price,discount_percent,line_amount,taxable,display_order';
+const PAYMENT_COLUMNS = 'id,invoice_id,payment_date,method,amount,note';
+const EMAIL_COLUMNS = 'id,recipient,status,provider,provider_message_id,error,sent_at';
+
+// The history list shows the newest invoices; filters reach older ones
+export const INVOICE_LIST_LIMIT = 200;
+
+// Convert database invoice to frontend Invoice type
+function dbToInvoice(
+  dbInvoice: DbInvoice,
+  lineItems: DbInvoiceLineItem[],
+  payments: DbInvoicePayment[]
+): Invoice {
+  return {
+    id: dbInvoice.id,
+    orderNumber: dbInvoice.order_number,
+    status: dbInvoice.status,
+    date: dbInvoice.invoice_date,
+    billToName: dbInvoice.bill_to_name,
+    billToAddress: dbInvoice.bill_to_address,
+    billToPhone: dbInvoice.bill_to_phone,
+    billToEmail: dbInvoice.bill_to_email,
+    shipToName: dbInvoice.ship_to_name,
+    shipToAddress: dbInvoice.ship_to_address,
+    shipToPhone: dbInvoice.ship_to_phone,
+    sameAsBillTo: dbInvoice.same_as_bill_to,
+    lineItems: [...lineItems]
+      .sort((a, b) => a.display_order - b.display_order)
+      .map((item) => ({
+        id: item.id,
+        productId: item.product_id || undefined,
+        source: item.source,
+        itemNo: item.item_no,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unit_price,
+        discountPercent: item.discount_percent,
+        lineAmount: item.line_amount,
+        taxable: item.taxable,
+      })),
+    deliveryCharges: dbInvoice.delivery_charges,
+    taxJurisdictionId: dbInvoice.tax_jurisdiction_id || undefined,
+    taxJurisdictionName: dbInvoice.tax_jurisdiction_name,
+    taxRate: dbInvoice.tax_rate,
+    deliveryTaxable: dbInvoice.delivery_taxable,
+    taxExempt: dbInvoice.tax_exempt,
+    taxExemptCertificate: dbInvoice.tax_exempt_certificate,
+    subtotal: dbInvoice.subtotal,
+    salesTax: dbInvoice.sales_tax,
+    total: dbInvoice.total,
+    payments: [...payments]
+      .sort((a, b) => a.payment_date.localeCompare(b.payment_date))
+      .map((payment) => ({
+        id: payment.id,
+        date: payment.payment_date,
+        method: payment.method,
+        amount: payment.amount,
+        note: payment.note,
+      })),
+    amountPaid: dbInvoice.amount_paid,
+    balance: dbInvoice.balance,
+    finalizedAt: dbInvoice.finalized_at || undefined,
+    createdAt: dbInvoice.created_at,
+    updatedAt: dbInvoice.updated_at,
+  };
+}
+
+function dbToInvoiceEmail(dbEmail: DbInvoiceEmail): InvoiceEmail {
+  return {
+    id: dbEmail.id,
+    recipient: dbEmail.recipient,
+    status: dbEmail.status,
+    provider: dbEmail.provider || undefined,
+    providerMessageId: dbEmail.provider_message_id || undefined,
+    error: dbEmail.error || undefined,
+    sentAt: dbEmail.sent_at,
+  };
+}
+
+function invoiceToDb(invoice: InvoiceInput) {
+  return {
+    invoice_date: invoice.date,
+    bill_to_name: invoice.billToName,
+    bill_to_address: invoice.billToAddress,
+    bill_to_phone: invoice.billToPhone,
+    bill_to_email: invoice.billToEmail.trim(),
+    ship_to_name: invoice.sameAsBillTo ? invoice.billToName : invoice.shipToName,
+    ship_to_address: invoice.sameAsBillTo ? invoice.billToAddress : invoice.shipToAddress,
+    ship_to_phone: invoice.sameAsBillTo ? invoice.billToPhone : invoice.shipToPhone,
+    same_as_bill_to: invoice.sameAsBillTo,
+    delivery_charges: invoice.deliveryCharges,
+    tax_jurisdiction_id: invoice.taxJurisdictionId || null,
+    tax_jurisdiction_name: invoice.taxJurisdictionName,
+    tax_rate: invoice.taxRate,
+    delivery_taxable: invoice.deliveryTaxable,
+    tax_exempt: invoice.taxExempt,
+    tax_exempt_certificate: invoice.taxExempt ? invoice.taxExemptCertificate.trim() : '',
+    subtotal: invoice.subtotal,
+    sales_tax: invoice.salesTax,
+    total: invoice.total,
+  };
+}
+
+function lineItemsToDb(lineItems: InvoiceLineItem[]) {
+  return lineItems.map((item, index) => ({
+    product_id: item.productId || null,
+    source: item.source,
+    item_no: item.itemNo,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unitPrice,
+    discount_percent: item.discountPercent,
+    line_amount: item.lineAmount,
+    taxable: item.taxable,
+    display_order: index,
+  }));
+}
+
+// Empty payment rows are dropped. The id lets the database match rows it already has.
+function paymentsToDb(payments: InvoicePayment[]) {
+  return payments
+    .filter((payment) => payment.amount > 0)
+    .map((payment) => ({
+      id: payment.id,
+      payment_date: payment.date,
+      method: payment.method,
+      amount: payment.amount,
+      note: payment.note,
+    }));
+}
+
+function groupByInvoiceId<T extends { invoice_id: string }>(rows: T[]) {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const existing = grouped.get(row.invoice_id) || [];
+    existing.push(row);
+    grouped.set(row.invoice_id, existing);
+  }
+  return grouped;
+}
+
+async function fetchInvoiceById(id: string): Promise<Invoice | null> {
+  const [invoiceResult, lineItemsResult, paymentsResult] = await Promise.all([
+    supabase.from('invoices').select(INVOICE_COLUMNS).eq('id', id).maybeSingle(),
+    supabase.from('invoice_line_items').select(LINE_ITEM_COLUMNS).eq('invoice_id', id),
+    supabase.from('invoice_payments').select(PAYMENT_COLUMNS).eq('invoice_id', id),
+  ]);
+
+  if (invoiceResult.error) throw invoiceResult.error;
+  if (lineItemsResult.error) throw lineItemsResult.error;
+  if (paymentsResult.error) throw paymentsResult.error;
+  if (!invoiceResult.data) return null;
+
+  return dbToInvoice(
+    invoiceResult.data as DbInvoice,
+    (lineItemsResult.data || []) as DbInvoiceLineItem[],
+    (paymentsResult.data || []) as DbInvoicePayment[]
+  );
+}
+
+// Header, line items and payments are written by one database function, so a
+// failed save leaves the invoice as it was. Returns the invoice id (new when id is omitted).
+async function saveInvoiceRecord(invoice: InvoiceInput, id?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('save_invoice', {
+    _invoice: invoiceToDb(invoice),
+    _line_items: lineItemsToDb(invoice.lineItems),
+    _payments: paymentsToDb(invoice.payments),
+    _invoice_id: id,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+interface UseInvoicesOptions {
+  // Load the invoice list on mount. The invoice editor only needs the mutations.
+  autoFetch?: boolean;
+}
+
+export function useInvoices({ autoFetch = true }: UseInvoicesOptions = {}) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = useState(autoFetch);
+  const [error, setError] = useState<string | null>(null);
+  const [isTruncated, setIsTruncated] = useState(false);
+  const latestRequestId = useRef(0);
+
+  const fetchInvoices = useCallback(async (filters: InvoiceFilters = {}) => {
+    // Searches fire while typing; only the latest request may update state
+    const requestId = ++latestRequestId.current;
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      let query = supabase.from('invoices').select(INVOICE_COLUMNS);
+
+      // Strip characters that have meaning inside a PostgREST or() filter
+      const search = filters.search?.replace(/[%,()*\\]/g, ' ').trim();
+      if (search) {
+        const conditions = [
+          `bill_to_name.ilike.%${search}%`,
+          `ship_to_name.ilike.%${search}%`,
+        ];
+        const digits = search.replace(/\D/g, '');
+        // order_number is an int4; a longer number (a phone) would fail the whole query
+        if (/^\d{1,9}$/.test(search)) {
+          conditions.push(`order_number.eq.${search}`);
+        }
+        if (digits.length >= 3) {
+          conditions.push(`bill_to_phone_digits.like.%${digits}%`);
+        }
+        query = query.or(conditions.join(','));
+      }
+      if (filters.dateFrom) {
+        query = query.gte('invoice_date', filters.dateFrom);
+      }
+      if (filters.dateTo) {
+        query = query.lte('invoice_date', filters.dateTo);
+      }
+      if (filters.balanceDue) {
+        query = query.gt('balance', 0);
+      }
+
+      // One extra row tells whether anything was left out
+      const { data: rows, error: invoicesError } = await query
+        .order('order_number', { ascending: false })
+        .limit(INVOICE_LIST_LIMIT + 1);
+
+      if (invoicesError) throw invoicesError;
+      if (requestId !== latestRequestId.current) return;
+
+      setIsTruncated((rows?.length ?? 0) > INVOICE_LIST_LIMIT);
+      const invoicesData = rows?.slice(0, INVOICE_LIST_LIMIT);
+      if (!invoicesData || invoicesData.length === 0) {
+        setInvoices([]);
+        return;
+      }
+
+      const invoiceIds = invoicesData.map((invoice) => invoice.id);
+      const [lineItemsResult, paymentsResult] = await Promise.all([
+        supabase.from('invoice_line_items').select(LINE_ITEM_COLUMNS).in('invoice_id', invoiceIds),
+        supabase.from('invoice_payments').select(PAYMENT_COLUMNS).in('invoice_id', invoiceIds),
+      ]);
+
+      if (lineItemsResult.error) throw lineItemsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (requestId !== latestRequestId.current) return;
+
+      const lineItemsByInvoiceId = groupByInvoiceId((lineItemsResult.data || []) as DbInvoiceLineItem[]);
+      const paymentsByInvoiceId = groupByInvoiceId((paymentsResult.data || []) as DbInvoicePayment[]);
+
+      setInvoices(
+        invoicesData.map((dbInvoice) =>
+          dbToInvoice(
+            dbInvoice as DbInvoice,
+            lineItemsByInvoiceId.get(dbInvoice.id) || [],
+            paymentsByInvoiceId.get(dbInvoice.id) || []
+          )
+        )
+      );
+    } catch (err) {
+      console.error('Error fetching invoices:', err);
+      if (requestId === latestRequestId.current) {
+        setError('Failed to load invoices');
+      }
+    } finally {
+      if (requestId === latestRequestId.current) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchInvoices();
+    }
+  }, [autoFetch, fetchInvoices]);
+
+  const createInvoice = async (invoice: InvoiceInput): Promise<Invoice> => {
+    try {
+      // The database sequence assigns the order number
+      const newInvoiceId = await saveInvoiceRecord(invoice);
+
+      // Re-read so amount paid and balance reflect the ledger
+      const saved = await fetchInvoiceById(newInvoiceId);
+      if (!saved) throw new Error('Invoice not found');
+      setInvoices((prev) => [saved, ...prev]);
+
+      toast({ title: `Invoice #${saved.orderNumber} saved successfully` });
+      return saved;
+    } catch (err) {
+      console.error('Error creating invoice:', err);
+      toast({
+        title: 'Failed to save invoice',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const updateInvoice = async (id: string, invoice: InvoiceInput): Promise<Invoice> => {
+    try {
+      // On a finalized invoice, save_invoice also keeps the linked floor
+      // samples' status in step
+      await saveInvoiceRecord(invoice, id);
+
+      // Re-read so amount paid and balance reflect the ledger
+      const saved = await fetchInvoiceById(id);
+      if (!saved) throw new Error('Invoice not found');
+      setInvoices((prev) => prev.map((existing) => (existing.id === id ? saved : existing)));
+
+      toast({ title: `Invoice #${saved.orderNumber} updated` });
+      return saved;
+    } catch (err) {
+      console.error('Error updating invoice:', err);
+      toast({
+        title: 'Failed to update invoice',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  // The database takes linked floor samples off sale in the same update:
+  // reserved while anything is owed, sold once paid in full
+  const finalizeInvoice = async (id: string): Promise<Invoice> => {
+    try {
+      const { error: invoiceError } = await supabase
+        .from('invoices')
+        .update({ status: 'finalized', finalized_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (invoiceError) throw invoiceError;
+
+      const finalized = await fetchInvoiceById(id);
+      if (!finalized) throw new Error('Invoice not found');
+      setInvoices((prev) => prev.map((existing) => (existing.id === id ? finalized : existing)));
+
+      toast({ title: `Invoice #${finalized.orderNumber} finalized` });
+      return finalized;
+    } catch (err) {
+      console.error('Error finalizing invoice:', err);
+      toast({
+        title: 'Failed to finalize invoice',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const getInvoiceById = async (id: string): Promise<Invoice | null> => {
+    try {
+      return await fetchInvoiceById(id);
+    } catch (err) {
+      console.error('Error fetching invoice:', err);
+      return null;
+    }
+  };
+
+  // Sends through the send-invoice edge function, which logs every attempt.
+  // requestId should stay the same across retries of one send so it isn't duplicated.
+  const sendInvoiceEmail = async (id: string, to: string, requestId: string) => {
+    try {
+      const { error: sendError } = await supabase.functions.invoke('send-invoice', {
+        body: { invoice_id: id, to, request_id: requestId },
+      });
+
+      if (sendError) throw sendError;
+
+      toast({ title: `Invoice emailed to ${to}` });
+    } catch (err) {
+      console.error('Error sending invoice email:', err);
+      toast({
+        title: 'Failed to email invoice',
+        description: await getFunctionErrorMessage(err, 'Unknown error occurred'),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const fetchInvoiceEmails = useCallback(async (id: string): Promise<InvoiceEmail[]> => {
+    try {
+      const { data, error: emailsError } = await supabase
+        .from('invoice_emails')
+        .select(EMAIL_COLUMNS)
+        .eq('invoice_id', id)
+        .order('sent_at', { ascending: false });
+
+      if (emailsError) throw emailsError;
+      return ((data || []) as DbInvoiceEmail[]).map(dbToInvoiceEmail);
+    } catch (err) {
+      console.error('Error fetching invoice emails:', err);
+      return [];
+    }
+  }, []);
+
+  return {
+    invoices,
+    isLoading,
+    error,
+    isTruncated,
+    fetchInvoices,
+    createInvoice,
+    updateInvoice,
+    finalizeInvoice,
+    getInvoiceById,
+    sendInvoiceEmail,
+    fetchInvoiceEmails,
+  };
+}
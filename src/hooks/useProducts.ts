@@ -1,7 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Product, SetItem, calculateFinalPrice } from '@/types/product';
+import {
+  CatalogFilters,
+  CatalogSort,
+  Product,
+  ProductCategory,
+  ProductHold,
+  ProductSpecs,
+  ProductStatus,
+  PRODUCT_STATUS_LABELS,
+  PRODUCT_TYPE_LABELS,
+  SetItem,
+  STOREFRONT_PRODUCT_STATUSES,
+  calculateFinalPrice,
+  isProductTypeId,
+} from '@/types/product';
 import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
 
 // Type for database product
 interface DbProduct {
@@ -20,10 +35,24 @@ interface DbProduct {
   is_new: boolean;
   tags: ('new' | 'sale' | 'staff_pick')[];
   main_image_url: string;
+  status: ProductStatus;
+  stock_quantity: number | null;
+  low_stock_threshold: number;
+  width_in: number | null;
+  depth_in: number | null;
+  height_in: number | null;
+  seat_height_in: number | null;
+  material: string | null;
+  color: string | null;
+  weight_lb: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// Select only the product fields the app uses
+const PRODUCT_COLUMNS =
+  'id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,status,stock_quantity,low_stock_threshold,width_in,depth_in,height_in,seat_height_in,material,color,weight_lb,created_at,updated_at';
+
 interface DbProductImage {
   id: string;
   product_id: string;
@@ -48,6 +77,14 @@ interface DbSetItemImage {
   display_order: number;
 }
 
+interface DbProductHold {
+  product_id: string;
+  customer: string;
+  held_until: string;
+}
+
+const PRODUCT_HOLD_COLUMNS = 'product_id,customer,held_until';
+
 // Helper function to retry failed requests with exponential backoff
 async function withRetry<T>(
   fn: () => Promise<T>,
@@ -68,12 +105,38 @@ async function withRetry<T>(
   throw lastError;
 }
 
+function dbToProductSpecs(dbProduct: DbProduct): ProductSpecs {
+  return {
+    widthIn: dbProduct.width_in ?? undefined,
+    depthIn: dbProduct.depth_in ?? undefined,
+    heightIn: dbProduct.height_in ?? undefined,
+    seatHeightIn: dbProduct.seat_height_in ?? undefined,
+    material: dbProduct.material || undefined,
+    color: dbProduct.color || undefined,
+    weightLb: dbProduct.weight_lb ?? undefined,
+  };
+}
+
+// Every spec column is written, so clearing a field in the form clears it here
+function productSpecsToDb(specs: ProductSpecs = {}) {
+  return {
+    width_in: specs.widthIn ?? null,
+    depth_in: specs.depthIn ?? null,
+    height_in: specs.heightIn ?? null,
+    seat_height_in: specs.seatHeightIn ?? null,
+    material: specs.material?.trim() || null,
+    color: specs.color?.trim() || null,
+    weight_lb: specs.weightLb ?? null,
+  };
+}
+
 // Convert database product to frontend Product type
 function dbToProduct(
   dbProduct: DbProduct,
   images: DbProductImage[],
   setItems: DbSetItem[],
-  setItemImages: DbSetItemImage[] = []
+  setItemImages: DbSetItemImage[] = [],
+  hold?: DbProductHold
 ): Product {
   const imageUrls = images
     .sort((a, b) => a.display_order - b.display_order)
@@ -115,6 +178,11 @@ function dbToProduct(
     mainImageUrl: dbProduct.main_image_url,
     imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
     setItems: productSetItems.length > 0 ? productSetItems : undefined,
+    status: dbProduct.status,
+    hold: hold ? { customer: hold.customer, heldUntil: hold.held_until } : undefined,
+    stockQuantity: dbProduct.stock_quantity ?? undefined,
+    lowStockThreshold: dbProduct.low_stock_threshold,
+    specs: dbToProductSpecs(dbProduct),
     createdAt: dbProduct.created_at,
     updatedAt: dbProduct.updated_at,
   };
@@ -134,7 +202,7 @@ export function useProducts() {
        const productsResult = await withRetry(async () => {
          const result = await supabase
            .from('products')
-           .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
+           .select(PRODUCT_COLUMNS)
            .order('created_at', { ascending: false });
          if (result.error) throw result.error;
          return result;
@@ -149,7 +217,7 @@ export function useProducts() {
       const productIds = productsResult.data.map((p) => p.id);
 
       // Fetch all related data in parallel with retry - select only needed fields
-      const [imagesResult, setItemsResult] = await Promise.all([
+      const [imagesResult, setItemsResult, holdsResult] = await Promise.all([
         withRetry(async () => {
           const result = await supabase
             .from('product_images')
@@ -166,6 +234,11 @@ export function useProducts() {
           if (result.error) throw result.error;
           return result;
         }),
+        withRetry(async () => {
+          const result = await supabase.from('product_holds').select(PRODUCT_HOLD_COLUMNS);
+          if (result.error) throw result.error;
+          return result;
+        }),
       ]);
 
       // Fetch set item images if we have set items
@@ -187,6 +260,10 @@ export function useProducts() {
         }
       }
 
+      const holdsByProductId = new Map(
+        ((holdsResult.data || []) as DbProductHold[]).map((hold) => [hold.product_id, hold])
+      );
+
        // Build maps for O(1) lookups instead of O(n) filters
        const imagesData = imagesResult.data || [];
        const setItemsData = setItemsResult.data || [];
@@ -238,7 +315,8 @@ export function useProducts() {
            dbProduct as DbProduct,
            productImages,
            productSetItems,
-           productSetItemImages
+           productSetItemImages,
+           holdsByProductId.get(dbProduct.id)
          );
        });
 
@@ -276,6 +354,8 @@ export function useProducts() {
           is_new: product.isNew,
           tags: product.tags,
           main_image_url: product.mainImageUrl,
+          low_stock_threshold: product.lowStockThreshold,
+          ...productSpecsToDb(product.specs),
         })
         .select()
         .single();
@@ -421,6 +501,10 @@ export function useProducts() {
         mainImageUrl: product.mainImageUrl,
         imageUrls: product.imageUrls,
         setItems: product.setItems,
+        status: newProduct.status,
+        stockQuantity: newProduct.stock_quantity ?? undefined,
+        lowStockThreshold: newProduct.low_stock_threshold,
+        specs: product.specs,
         createdAt: now,
         updatedAt: now,
       };
@@ -467,6 +551,7 @@ export function useProducts() {
         tags: product.tags,
         main_image_url: product.mainImageUrl,
         is_set: hasSetItems,
+        ...productSpecsToDb(product.specs),
       };
 
       if (product.partOfSet !== undefined) {
@@ -475,6 +560,9 @@ export function useProducts() {
       if (product.canBeSoldSeparately !== undefined) {
         productUpdate.can_be_sold_separately = product.canBeSoldSeparately;
       }
+      if (product.lowStockThreshold !== undefined) {
+        productUpdate.low_stock_threshold = product.lowStockThreshold;
+      }
 
       const { error: productError } = await supabase
         .from('products')
@@ -696,6 +784,8 @@ export function useProducts() {
         mainImageUrl: product.mainImageUrl,
         imageUrls: product.imageUrls,
         setItems: product.setItems,
+        lowStockThreshold: product.lowStockThreshold,
+        specs: product.specs,
         createdAt: '',
         updatedAt: now,
       };
@@ -706,7 +796,14 @@ export function useProducts() {
         setProducts((prev) =>
           prev.map((p) => {
             if (p.id === id) {
-              return { ...updatedProduct, createdAt: p.createdAt };
+              return {
+                ...updatedProduct,
+                status: p.status,
+                hold: p.hold,
+                stockQuantity: p.stockQuantity,
+                lowStockThreshold: product.lowStockThreshold ?? p.lowStockThreshold,
+                createdAt: p.createdAt,
+              };
             }
             return p;
           })
@@ -778,6 +875,41 @@ export function useProducts() {
     }
   };
 
+  // Moves a product (and the pieces of a set with it) through the floor sample
+  // lifecycle. A hold is required for on_hold; leaving on_hold drops the hold.
+  const updateProductStatus = async (id: string, status: ProductStatus, hold?: ProductHold) => {
+    try {
+      if (status === 'on_hold' && !hold) throw new Error('Enter who the product is held for and until when');
+
+      // The status and the hold are written in one transaction
+      const { data, error: statusError } = await supabase.rpc('set_product_status', {
+        _product_id: id,
+        _status: status,
+        _customer: hold?.customer,
+        _held_until: hold?.heldUntil,
+      });
+
+      if (statusError) throw statusError;
+
+      const updated = new Set(data || []);
+      setProducts((prev) =>
+        prev.map((p) =>
+          updated.has(p.id) ? { ...p, status, hold: status === 'on_hold' ? hold : undefined } : p
+        )
+      );
+      toast({ title: `Marked ${PRODUCT_STATUS_LABELS[status].toLowerCase()}` });
+    } catch (err) {
+      console.error('Error updating product status:', err);
+      await fetchProducts();
+      toast({
+        title: 'Failed to update product status',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
   const getProductById = async (id: string): Promise<Product | null> => {
     try {
       // First check if product is already in cache
@@ -791,7 +923,7 @@ export function useProducts() {
          withRetry(async () => {
            const result = await supabase
              .from('products')
-             .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
+             .select(PRODUCT_COLUMNS)
              .eq('id', id)
              .maybeSingle();
            if (result.error) throw result.error;
@@ -856,6 +988,7 @@ export function useProducts() {
     addProduct,
     updateProduct,
     deleteProduct,
+    updateProductStatus,
     getProductById,
   };
 }
@@ -882,7 +1015,7 @@ async function fetchProductById(id: string): Promise<Product | null> {
     withRetry(async () => {
       const result = await supabase
         .from('products')
-        .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
+        .select(PRODUCT_COLUMNS)
         .eq('id', id)
         .maybeSingle();
       if (result.error) throw result.error;
@@ -938,7 +1071,7 @@ async function fetchChildProductsForSet(setId: string): Promise<Product[]> {
   const result = await withRetry(async () => {
     const res = await supabase
       .from('products')
-      .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
+      .select(PRODUCT_COLUMNS)
       .eq('part_of_set', setId)
       .order('created_at', { ascending: true });
     if (res.error) throw res.error;
@@ -1076,7 +1209,8 @@ export function useFeaturedProducts() {
         // Select only essential fields to reduce payload
         const { data: productsData, error: productsError } = await supabase
           .from('products')
-          .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
+          .select(PRODUCT_COLUMNS)
+          .in('status', STOREFRONT_PRODUCT_STATUSES)
           .or('tags.cs.{new},tags.cs.{sale},tags.cs.{staff_pick}')
           .order('created_at', { ascending: false })
           .limit(6);
@@ -1127,6 +1261,9 @@ export function useFeaturedProducts() {
             tags: dbProduct.tags || [],
             mainImageUrl: mainImage,
             imageUrls: mainImage ? [mainImage] : undefined,
+            status: dbProduct.status,
+            stockQuantity: dbProduct.stock_quantity ?? undefined,
+            lowStockThreshold: dbProduct.low_stock_threshold,
             createdAt: dbProduct.created_at,
             updatedAt: dbProduct.updated_at,
           } as Product;
@@ -1189,7 +1326,8 @@ export function usePublicProducts() {
          const productsResult = await withRetry(async () => {
            const result = await supabase
              .from('products')
-             .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
+             .select(PRODUCT_COLUMNS)
+             .in('status', STOREFRONT_PRODUCT_STATUSES)
              .order('created_at', { ascending: false });
            if (result.error) throw result.error;
            return result;
@@ -1337,25 +1475,62 @@ export function usePublicProducts() {
   };
 }
 
-const FLOOR_SAMPLES_CACHE_DURATION = 5 * 60 * 1000; // 5 minute cache
-const floorSamplesPageCache = new Map<
+// Paged catalog listings (Floor Samples, Online Inventory). Every inventory type,
+// filter combination and sort order gets its own cached pages, each carrying the
+// exact count of the filtered result.
+const CATALOG_CACHE_DURATION = 5 * 60 * 1000; // 5 minute cache
+const catalogPageCache = new Map<
   string,
   { products: Product[]; totalCount: number; timestamp: number }
 >();
-const FLOOR_SAMPLES_COUNT_CACHE_DURATION = 5 * 60 * 1000;
-let floorSamplesCountCache: { count: number; timestamp: number } | null = null;
-const FLOOR_SAMPLES_PAGE_STORAGE_PREFIX = 'vmodern_floor_samples_page_v1:';
-const FLOOR_SAMPLES_COUNT_STORAGE_KEY = 'vmodern_floor_samples_count_v1';
+// Only the default listing is kept in localStorage, so filter combinations can't pile up there
+const CATALOG_PAGE_STORAGE_PREFIX = 'vmodern_catalog_page_v4:';
+
+// Columns each sort orders by. The id tiebreaker keeps rows from moving between
+// pages when the other values are equal.
+const CATALOG_SORT_ORDERS: Record<CatalogSort, { column: string; ascending: boolean }[]> = {
+  featured: [
+    { column: 'is_set', ascending: false },
+    { column: 'created_at', ascending: false },
+  ],
+  price_asc: [{ column: 'price_final', ascending: true }],
+  price_desc: [{ column: 'price_final', ascending: false }],
+  discount: [
+    { column: 'discount_percent', ascending: false },
+    { column: 'created_at', ascending: false },
+  ],
+  newest: [{ column: 'created_at', ascending: false }],
+};
+
+// Stable key for a filter combination and sort; empty for the default listing
+function getCatalogListKey(filters: CatalogFilters, sort: CatalogSort) {
+  const parts = [
+    filters.productType && `type=${filters.productType}`,
+    filters.subcategory && `sub=${filters.subcategory}`,
+    filters.minPrice !== undefined && `min=${filters.minPrice}`,
+    filters.maxPrice !== undefined && `max=${filters.maxPrice}`,
+    filters.tags && filters.tags.length > 0 && `tags=${[...filters.tags].sort().join(',')}`,
+    filters.maxWidthIn !== undefined && `maxw=${filters.maxWidthIn}`,
+    filters.maxDepthIn !== undefined && `maxd=${filters.maxDepthIn}`,
+    filters.maxHeightIn !== undefined && `maxh=${filters.maxHeightIn}`,
+    sort !== 'featured' && `sort=${sort}`,
+  ];
+  return parts.filter(Boolean).join('&');
+}
+
+function getCatalogPageKey(category: ProductCategory, listKey: string, page: number, pageSize: number) {
+  return `${category}:${listKey}:${page}:${pageSize}`;
+}
 
-function getStoredFloorSamplesPage(page: number, pageSize: number) {
+function getStoredCatalogPage(key: string) {
   if (typeof window === 'undefined') return null;
   try {
-    const raw = localStorage.getItem(`${FLOOR_SAMPLES_PAGE_STORAGE_PREFIX}${page}:${pageSize}`);
+    const raw = localStorage.getItem(`${CATALOG_PAGE_STORAGE_PREFIX}${key}`);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as { products: Product[]; totalCount: number; timestamp: number };
     if (!parsed || !Array.isArray(parsed.products)) return null;
-    if (Date.now() - parsed.timestamp > FLOOR_SAMPLES_CACHE_DURATION) {
-      localStorage.removeItem(`${FLOOR_SAMPLES_PAGE_STORAGE_PREFIX}${page}:${pageSize}`);
+    if (Date.now() - parsed.timestamp > CATALOG_CACHE_DURATION) {
+      localStorage.removeItem(`${CATALOG_PAGE_STORAGE_PREFIX}${key}`);
       return null;
     }
     return parsed;
@@ -1364,12 +1539,7 @@ function getStoredFloorSamplesPage(page: number, pageSize: number) {
   }
 }
 
-function setStoredFloorSamplesPage(
-  page: number,
-  pageSize: number,
-  products: Product[],
-  totalCount: number
-) {
+function setStoredCatalogPage(key: string, products: Product[], totalCount: number) {
   if (typeof window === 'undefined') return;
   try {
     const payload = JSON.stringify({
@@ -1377,143 +1547,111 @@ function setStoredFloorSamplesPage(
       totalCount,
       timestamp: Date.now(),
     });
-    localStorage.setItem(`${FLOOR_SAMPLES_PAGE_STORAGE_PREFIX}${page}:${pageSize}`, payload);
+    localStorage.setItem(`${CATALOG_PAGE_STORAGE_PREFIX}${key}`, payload);
   } catch {
     // Ignore storage write errors
   }
 }
 
-function getStoredFloorSamplesCount() {
-  if (typeof window === 'undefined') return null;
-  try {
-    const raw = localStorage.getItem(FLOOR_SAMPLES_COUNT_STORAGE_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw) as { count: number; timestamp: number };
-    if (typeof parsed?.count !== 'number') return null;
-    if (Date.now() - parsed.timestamp > FLOOR_SAMPLES_COUNT_CACHE_DURATION) {
-      localStorage.removeItem(FLOOR_SAMPLES_COUNT_STORAGE_KEY);
-      return null;
-    }
-    return parsed.count;
-  } catch {
-    return null;
-  }
-}
-
-function setStoredFloorSamplesCount(count: number) {
-  if (typeof window === 'undefined') return;
-  try {
-    localStorage.setItem(
-      FLOOR_SAMPLES_COUNT_STORAGE_KEY,
-      JSON.stringify({ count, timestamp: Date.now() })
-    );
-  } catch {
-    // Ignore storage write errors
-  }
-}
-
-function getCachedFloorSamplesCount() {
-  if (!floorSamplesCountCache) {
-    const stored = getStoredFloorSamplesCount();
-    if (stored === null) return null;
-    floorSamplesCountCache = { count: stored, timestamp: Date.now() };
-    return stored;
-  }
-  if (Date.now() - floorSamplesCountCache.timestamp > FLOOR_SAMPLES_COUNT_CACHE_DURATION) {
-    floorSamplesCountCache = null;
-    return null;
-  }
-  return floorSamplesCountCache.count;
-}
-
-function setCachedFloorSamplesCount(count: number) {
-  floorSamplesCountCache = { count, timestamp: Date.now() };
-  setStoredFloorSamplesCount(count);
-  for (const [key, cached] of floorSamplesPageCache.entries()) {
-    floorSamplesPageCache.set(key, { ...cached, totalCount: count });
-  }
-}
-
-async function fetchFloorSamplesCount() {
-  const cached = getCachedFloorSamplesCount();
-  if (cached !== null) return cached;
-
-  const result = await withRetry(async () => {
-    const res = await supabase
-      .from('products')
-      .select('*', { count: 'exact', head: true })
-      .eq('category', 'floor_sample');
-    if (res.error) throw res.error;
-    return res;
-  });
-
-  const totalCount = result.count || 0;
-  setCachedFloorSamplesCount(totalCount);
-  return totalCount;
-}
-
-function getFloorSamplesCacheKey(page: number, pageSize: number) {
-  return `${page}:${pageSize}`;
-}
-
-function getCachedFloorSamplesPage(page: number, pageSize: number) {
-  const key = getFloorSamplesCacheKey(page, pageSize);
-  const cached = floorSamplesPageCache.get(key);
+function getCachedCatalogPage(
+  category: ProductCategory,
+  listKey: string,
+  page: number,
+  pageSize: number
+) {
+  const key = getCatalogPageKey(category, listKey, page, pageSize);
+  const cached = catalogPageCache.get(key);
   if (!cached) {
-    const stored = getStoredFloorSamplesPage(page, pageSize);
+    const stored = listKey ? null : getStoredCatalogPage(key);
     if (!stored) return null;
-    floorSamplesPageCache.set(key, {
+    catalogPageCache.set(key, {
       products: stored.products,
       totalCount: stored.totalCount,
       timestamp: stored.timestamp,
     });
     return stored;
   }
-  if (Date.now() - cached.timestamp > FLOOR_SAMPLES_CACHE_DURATION) {
-    floorSamplesPageCache.delete(key);
+  if (Date.now() - cached.timestamp > CATALOG_CACHE_DURATION) {
+    catalogPageCache.delete(key);
     return null;
   }
   return cached;
 }
 
-function setCachedFloorSamplesPage(
+function setCachedCatalogPage(
+  category: ProductCategory,
+  listKey: string,
   page: number,
   pageSize: number,
   products: Product[],
   totalCount: number
 ) {
-  const key = getFloorSamplesCacheKey(page, pageSize);
-  floorSamplesPageCache.set(key, {
+  const key = getCatalogPageKey(category, listKey, page, pageSize);
+  catalogPageCache.set(key, {
     products,
     totalCount,
     timestamp: Date.now(),
   });
-  setStoredFloorSamplesPage(page, pageSize, products, totalCount);
+  if (!listKey) setStoredCatalogPage(key, products, totalCount);
 }
 
-async function fetchFloorSamplesPage(page: number, pageSize: number) {
-  // Fetch paginated products only; count is fetched separately to avoid blocking
+// PostgREST or() filter matching a category: its product_type as stored (label
+// or id, any case), or a name that mentions it for products without one. Null
+// for ids that aren't categories, which never reach the query.
+function getProductTypeFilter(productType: string) {
+  if (!isProductTypeId(productType)) return null;
+  const label = PRODUCT_TYPE_LABELS[productType];
+  return [
+    `product_type.ilike."${label}"`,
+    `product_type.ilike."${productType}"`,
+    `and(product_type.is.null,name.ilike."*${label}*")`,
+  ].join(',');
+}
+
+// LIKE treats % and _ as wildcards and \ as the escape character
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+async function fetchCatalogPage(
+  category: ProductCategory,
+  filters: CatalogFilters,
+  sort: CatalogSort,
+  page: number,
+  pageSize: number
+) {
   const from = (page - 1) * pageSize;
   const to = from + pageSize - 1;
 
-  const { data: productsData, error: productsError } = await supabase
+  let query = supabase
     .from('products')
-    .select('id,name,category,product_type,subcategory,is_set,part_of_set,can_be_sold_separately,description,price_original,discount_percent,price_final,is_new,tags,main_image_url,created_at,updated_at')
-    .eq('category', 'floor_sample')
-    .order('is_set', { ascending: false })
-    .order('created_at', { ascending: false })
+    .select(PRODUCT_COLUMNS, { count: 'exact' })
+    .eq('category', category)
+    .in('status', STOREFRONT_PRODUCT_STATUSES);
+
+  const productTypeFilter = filters.productType ? getProductTypeFilter(filters.productType) : null;
+  if (productTypeFilter) query = query.or(productTypeFilter);
+  // Case-insensitive exact match; % and _ in the name are literal characters
+  if (filters.subcategory) query = query.ilike('subcategory', escapeLikePattern(filters.subcategory));
+  if (filters.minPrice !== undefined) query = query.gte('price_final', filters.minPrice);
+  if (filters.maxPrice !== undefined) query = query.lte('price_final', filters.maxPrice);
+  if (filters.tags && filters.tags.length > 0) query = query.contains('tags', filters.tags);
+  if (filters.maxWidthIn !== undefined) query = query.lte('width_in', filters.maxWidthIn);
+  if (filters.maxDepthIn !== undefined) query = query.lte('depth_in', filters.maxDepthIn);
+  if (filters.maxHeightIn !== undefined) query = query.lte('height_in', filters.maxHeightIn);
+
+  for (const order of CATALOG_SORT_ORDERS[sort]) {
+    query = query.order(order.column, { ascending: order.ascending });
+  }
+
+  const { data: productsData, count, error: productsError } = await query
+    .order('id', { ascending: true })
     .range(from, to);
 
   if (productsError) throw productsError;
 
-  const totalCount = getCachedFloorSamplesCount() || 0;
-
-  if (!productsData || productsData.length === 0) {
-    return { products: [] as Product[], totalCount };
-  }
+  const totalCount = count || 0;
 
   // Convert to frontend products (simplified for list view)
-  const frontendProducts = productsData.map((dbProduct) => {
+  const frontendProducts = (productsData || []).map((dbProduct) => {
     return {
       id: dbProduct.id,
       name: dbProduct.name,
@@ -1531,35 +1669,39 @@ async function fetchFloorSamplesPage(page: number, pageSize: number) {
       tags: dbProduct.tags || [],
       mainImageUrl: dbProduct.main_image_url,
       imageUrls: dbProduct.main_image_url ? [dbProduct.main_image_url] : undefined,
+      status: dbProduct.status,
+      stockQuantity: dbProduct.stock_quantity ?? undefined,
+      lowStockThreshold: dbProduct.low_stock_threshold,
       createdAt: dbProduct.created_at,
       updatedAt: dbProduct.updated_at,
     } as Product;
   });
 
-  setCachedFloorSamplesPage(page, pageSize, frontendProducts, totalCount);
+  setCachedCatalogPage(category, getCatalogListKey(filters, sort), page, pageSize, frontendProducts, totalCount);
 
   return { products: frontendProducts, totalCount };
 }
 
-export async function prefetchFloorSamplesPage(page: number = 1, pageSize: number = 12) {
-  if (getCachedFloorSamplesPage(page, pageSize)) return;
+export async function prefetchCatalogPage(category: ProductCategory, page: number = 1, pageSize: number = 12) {
+  if (getCachedCatalogPage(category, '', page, pageSize)) return;
   try {
-    await fetchFloorSamplesPage(page, pageSize);
+    await fetchCatalogPage(category, {}, 'featured', page, pageSize);
   } catch {
     // Prefetch is best-effort
   }
 }
 
-export async function fetchFloorSampleSubcategories(productType: string): Promise<string[]> {
-  const normalized = productType.trim();
-  if (!normalized) return [];
+export async function fetchCatalogSubcategories(category: ProductCategory, productType: string): Promise<string[]> {
+  const productTypeFilter = getProductTypeFilter(productType.trim());
+  if (!productTypeFilter) return [];
 
   const result = await withRetry(async () => {
     const res = await supabase
       .from('products')
       .select('subcategory')
-      .eq('category', 'floor_sample')
-      .eq('product_type', normalized)
+      .eq('category', category)
+      .in('status', STOREFRONT_PRODUCT_STATUSES)
+      .or(productTypeFilter)
       .not('subcategory', 'is', null);
     if (res.error) throw res.error;
     return res;
@@ -1572,38 +1714,102 @@ export async function fetchFloorSampleSubcategories(productType: string): Promis
   return unique.sort((a, b) => a.localeCompare(b));
 }
 
-// Hook for paginated floor samples (server-side filtering)
-export function usePaginatedFloorSamples(page: number = 1, pageSize: number = 12) {
-  const cached = getCachedFloorSamplesPage(page, pageSize);
-  const [products, setProducts] = useState<Product[]>(() => cached?.products || []);
-  const [isLoading, setIsLoading] = useState(() => !cached);
-  const [totalCount, setTotalCount] = useState(() => cached?.totalCount || 0);
+// Products added between page loads can shift one onto two pages
+function mergeCatalogPages(pages: { products: Product[] }[]) {
+  const merged = new Map<string, Product>();
+  pages.forEach((page) => page.products.forEach((product) => merged.set(product.id, product)));
+  return Array.from(merged.values());
+}
+
+// Cached pages 1 through `page`, stopping at the first page that isn't cached
+function getCachedCatalogPages(
+  category: ProductCategory,
+  listKey: string,
+  page: number,
+  pageSize: number
+) {
+  const pages: { products: Product[]; totalCount: number }[] = [];
+  for (let current = 1; current <= page; current++) {
+    const cached = getCachedCatalogPage(category, listKey, current, pageSize);
+    if (!cached) break;
+    pages.push(cached);
+  }
+  return {
+    products: mergeCatalogPages(pages),
+    totalCount: pages.length > 0 ? pages[pages.length - 1].totalCount : 0,
+    isComplete: pages.length === page,
+  };
+}
+
+// Pages fetched back to back in one load, e.g. when a link to page 80 is opened
+// cold. Paging on with "Load More" only ever fetches the next page.
+const MAX_CATALOG_PAGES_PER_LOAD = 20;
+
+// Hook for a paginated, filtered and sorted catalog listing of one inventory
+// type. Returns every product on pages 1 through `page`, so "Load More" and a
+// restored page number both show the whole list so far.
+export function usePaginatedCatalog(
+  category: ProductCategory,
+  filters: CatalogFilters,
+  sort: CatalogSort = 'featured',
+  page: number = 1,
+  pageSize: number = 12
+) {
+  const listKey = getCatalogListKey(filters, sort);
+  const cached = getCachedCatalogPages(category, listKey, page, pageSize);
+  const [products, setProducts] = useState<Product[]>(() => cached.products);
+  const [isLoading, setIsLoading] = useState(() => !cached.isComplete);
+  const [totalCount, setTotalCount] = useState(() => cached.totalCount);
+  // Set when a load stops short of `page`: at the last page, or at the per-load cap
+  const [shortLoad, setShortLoad] = useState<{ requestKey: string; lastPage: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // The key captures everything in filters, so the object itself needn't be stable
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
 
   useEffect(() => {
     let isActive = true;
+    const requestKey = `${category}|${listKey}|${page}|${pageSize}`;
 
     const loadProducts = async () => {
       try {
-        const cachedPage = getCachedFloorSamplesPage(page, pageSize);
-        if (cachedPage) {
-          setProducts(cachedPage.products);
-          setTotalCount(cachedPage.totalCount);
+        setError(null);
+        const cachedPages = getCachedCatalogPages(category, listKey, page, pageSize);
+        // Show what's cached (never the previous filter's list) while the rest loads
+        setProducts(cachedPages.products);
+        if (cachedPages.isComplete) {
+          setTotalCount(cachedPages.totalCount);
           setIsLoading(false);
           return;
         }
 
         setIsLoading(true);
-        const result = await fetchFloorSamplesPage(page, pageSize);
-        if (!isActive) return;
-        setProducts(result.products);
-        setTotalCount(result.totalCount);
+        // One page at a time, showing each as it arrives, so a restored page
+        // number doesn't fire a burst of requests. The count stops it at the
+        // last page.
+        const pages: { products: Product[]; totalCount: number }[] = [];
+        let fetchedPages = 0;
+        for (let current = 1; current <= page; current++) {
+          const cachedPage = getCachedCatalogPage(category, listKey, current, pageSize);
+          if (!cachedPage && fetchedPages === MAX_CATALOG_PAGES_PER_LOAD) break;
+          const loaded =
+            cachedPage ?? (await fetchCatalogPage(category, filtersRef.current, sort, current, pageSize));
+          if (!cachedPage) fetchedPages++;
+          if (!isActive) return;
+          pages.push(loaded);
+          setProducts(mergeCatalogPages(pages));
+          setTotalCount(loaded.totalCount);
+          if (current * pageSize >= loaded.totalCount) break;
+        }
+        if (pages.length < page) setShortLoad({ requestKey, lastPage: pages.length });
       } catch (err) {
         if (!isActive) return;
-        console.error('Error fetching paginated floor samples:', err);
-        setProducts([]);
+        console.error('Error fetching catalog page:', err);
+        setError('Failed to load products');
       } finally {
-        if (!isActive) return;
-        setIsLoading(false);
+        if (isActive) setIsLoading(false);
       }
     };
 
@@ -1612,40 +1818,79 @@ export function usePaginatedFloorSamples(page: number = 1, pageSize: number = 12
     return () => {
       isActive = false;
     };
-  }, [page, pageSize]);
+  }, [category, listKey, sort, page, pageSize, reloadCount]);
+
+  const totalPages = totalCount > 0 ? Math.ceil(totalCount / pageSize) : 0;
+  const requestKey = `${category}|${listKey}|${page}|${pageSize}`;
+
+  return {
+    products,
+    isLoading,
+    error,
+    retry: () => setReloadCount((count) => count + 1),
+    totalCount,
+    totalPages,
+    // The page the list actually ends at, when that's before `page`
+    lastLoadedPage: shortLoad?.requestKey === requestKey ? shortLoad.lastPage : null,
+    hasMore: totalCount > 0 ? page < totalPages : products.length === page * pageSize,
+  };
+}
+
+// Storefront search (search_products RPC): prefix and typo-tolerant matching,
+// best matches first
+export async function searchProducts(query: string, limit: number = 24): Promise<Product[]> {
+  const normalized = query.trim();
+  if (!normalized) return [];
+
+  const { data, error } = await supabase
+    .rpc('search_products', { search_query: normalized, result_limit: limit })
+    .select(PRODUCT_COLUMNS);
+  if (error) throw error;
+
+  return ((data || []) as DbProduct[]).map((dbProduct) => dbToProduct(dbProduct, [], []));
+}
+
+// Hook for search results; an empty query returns no results without a request
+export function useProductSearch(query: string, limit: number = 24) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     let isActive = true;
-    const cachedCount = getCachedFloorSamplesCount();
-    if (cachedCount !== null) {
-      setTotalCount(cachedCount);
+
+    if (!query.trim()) {
+      setProducts([]);
+      setIsLoading(false);
+      setError(null);
       return () => {
         isActive = false;
       };
     }
 
-    fetchFloorSamplesCount()
-      .then((count) => {
+    setIsLoading(true);
+    setError(null);
+
+    searchProducts(query, limit)
+      .then((results) => {
         if (!isActive) return;
-        setTotalCount(count);
+        setProducts(results);
       })
       .catch((err) => {
         if (!isActive) return;
-        console.error('Error fetching floor sample count:', err);
+        console.error('Error searching products:', err);
+        setError('Search is unavailable right now. Please try again.');
+        setProducts([]);
+      })
+      .finally(() => {
+        if (!isActive) return;
+        setIsLoading(false);
       });
 
     return () => {
       isActive = false;
     };
-  }, []);
-
-  const totalPages = totalCount > 0 ? Math.ceil(totalCount / pageSize) : 0;
+  }, [query, limit]);
 
-  return {
-    products,
-    isLoading,
-    totalCount,
-    totalPages,
-    hasMore: totalCount > 0 ? page < totalPages : products.length === pageSize,
-  };
+  return { products, isLoading, error };
 }
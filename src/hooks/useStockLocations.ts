@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { StockLocation } from '@/types/product';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+const STOCK_LOCATION_COLUMNS = 'id,name';
+
+// Postgres foreign_key_violation: stock has been recorded at the location
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const sortByName = (locations: StockLocation[]) => [...locations].sort((a, b) => a.name.localeCompare(b.name));
+
+export function useStockLocations() {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLocations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('stock_locations')
+        .select(STOCK_LOCATION_COLUMNS)
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setLocations((data || []) as StockLocation[]);
+    } catch (err) {
+      console.error('Error fetching stock locations:', err);
+      setError('Failed to load stock locations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const addLocation = async (name: string): Promise<StockLocation> => {
+    try {
+      const { data, error: insertError } = await supabase
+        .from('stock_locations')
+        .insert({ name })
+        .select(STOCK_LOCATION_COLUMNS)
+        .single();
+
+      if (insertError) throw insertError;
+
+      const added = data as StockLocation;
+      setLocations((prev) => sortByName([...prev, added]));
+      toast({ title: `${added.name} added` });
+      return added;
+    } catch (err) {
+      console.error('Error adding stock location:', err);
+      toast({
+        title: 'Failed to add location',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const renameLocation = async (id: string, name: string): Promise<StockLocation> => {
+    try {
+      const { data, error: updateError } = await supabase
+        .from('stock_locations')
+        .update({ name })
+        .eq('id', id)
+        .select(STOCK_LOCATION_COLUMNS)
+        .single();
+
+      if (updateError) throw updateError;
+
+      const renamed = data as StockLocation;
+      setLocations((prev) => sortByName(prev.map((location) => (location.id === id ? renamed : location))));
+      toast({ title: `${renamed.name} updated` });
+      return renamed;
+    } catch (err) {
+      console.error('Error renaming stock location:', err);
+      toast({
+        title: 'Failed to update location',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const deleteLocation = async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase.from('stock_locations').delete().eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setLocations((prev) => prev.filter((location) => location.id !== id));
+      toast({ title: 'Location deleted' });
+    } catch (err) {
+      console.error('Error deleting stock location:', err);
+      toast({
+        title: 'Failed to delete location',
+        description:
+          (err as { code?: string })?.code === FOREIGN_KEY_VIOLATION
+            ? 'Stock has been recorded there. Rename it instead.'
+            : getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  return {
+    locations,
+    isLoading,
+    error,
+    fetchLocations,
+    addLocation,
+    renameLocation,
+    deleteLocation,
+  };
+}
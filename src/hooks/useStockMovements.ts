@@ -0,0 +1,123 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { StockLevel, StockMovement, StockMovementReason } from '@/types/product';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+// Type for database stock movement
+interface DbStockMovement {
+  id: string;
+  location_id: string | null;
+  quantity_change: number;
+  reason: StockMovementReason;
+  invoice_id: string | null;
+  note: string;
+  created_at: string;
+}
+
+interface DbStockLevel {
+  location_id: string | null;
+  quantity: number;
+}
+
+export interface StockMovementInput {
+  locationId: string | null;
+  quantityChange: number; // Negative takes stock out
+  reason: StockMovementReason;
+  note: string;
+}
+
+const STOCK_MOVEMENT_COLUMNS = 'id,location_id,quantity_change,reason,invoice_id,note,created_at';
+
+// Most recent first; the totals come from stock_levels, not this list
+const STOCK_MOVEMENTS_LIMIT = 50;
+
+function dbToStockMovement(db: DbStockMovement): StockMovement {
+  return {
+    id: db.id,
+    locationId: db.location_id,
+    quantityChange: db.quantity_change,
+    reason: db.reason,
+    invoiceId: db.invoice_id,
+    note: db.note,
+    createdAt: db.created_at,
+  };
+}
+
+// Stock on hand per location and the movement ledger for one product
+export function useStockMovements(productId: string | undefined) {
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStock = useCallback(async () => {
+    if (!productId) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [levelsResult, movementsResult] = await Promise.all([
+        supabase.from('stock_levels').select('location_id,quantity').eq('product_id', productId),
+        supabase
+          .from('stock_movements')
+          .select(STOCK_MOVEMENT_COLUMNS)
+          .eq('product_id', productId)
+          .order('created_at', { ascending: false })
+          .limit(STOCK_MOVEMENTS_LIMIT),
+      ]);
+
+      if (levelsResult.error) throw levelsResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+
+      setLevels(
+        ((levelsResult.data || []) as DbStockLevel[]).map((level) => ({
+          locationId: level.location_id,
+          quantity: level.quantity,
+        }))
+      );
+      setMovements(((movementsResult.data || []) as DbStockMovement[]).map(dbToStockMovement));
+    } catch (err) {
+      console.error('Error fetching stock:', err);
+      setError('Failed to load stock');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  const recordMovement = async (input: StockMovementInput) => {
+    if (!productId) return;
+    try {
+      const { error: insertError } = await supabase.from('stock_movements').insert({
+        product_id: productId,
+        location_id: input.locationId,
+        quantity_change: input.quantityChange,
+        reason: input.reason,
+        note: input.note,
+      });
+
+      if (insertError) throw insertError;
+
+      // Levels are updated by a trigger, so re-read them
+      await fetchStock();
+      toast({ title: 'Stock updated' });
+    } catch (err) {
+      console.error('Error recording stock movement:', err);
+      toast({
+        title: 'Failed to update stock',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  return {
+    levels,
+    movements,
+    isLoading,
+    error,
+    fetchStock,
+    recordMovement,
+  };
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BookingWindow, BusinessHours, StoreHours, StoreHoursException } from '@/types/store-hours';
+import {
+  BOOKING_WINDOW_COLUMNS,
+  BUSINESS_HOURS_COLUMNS,
+  STORE_HOURS_EXCEPTION_COLUMNS,
+  DbBookingWindow,
+  DbBusinessHours,
+  DbStoreHoursException,
+  clearStoreHoursCache,
+  dbToBookingWindow,
+  dbToBusinessHours,
+  dbToStoreHoursException,
+  loadStoreHours,
+} from '@/lib/store-hours';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+export type BusinessHoursInput = Omit<BusinessHours, 'dayOfWeek'>;
+export type StoreHoursExceptionInput = Omit<StoreHoursException, 'id'>;
+
+export function useStoreHours() {
+  const [hours, setHours] = useState<StoreHours | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    loadStoreHours()
+      .then((loaded) => {
+        if (isActive) setHours(loaded);
+      })
+      .catch((err) => {
+        console.error('Error fetching store hours:', err);
+        if (isActive) setError('Failed to load store hours');
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  const updateBusinessHours = useCallback(
+    async (dayOfWeek: number, input: BusinessHoursInput): Promise<BusinessHours> => {
+      try {
+        const { data, error: updateError } = await supabase
+          .from('business_hours')
+          .update({
+            is_open: input.isOpen,
+            open_time: input.isOpen ? input.openTime : null,
+            close_time: input.isOpen ? input.closeTime : null,
+            slot_capacity: input.slotCapacity,
+          })
+          .eq('day_of_week', dayOfWeek)
+          .select(BUSINESS_HOURS_COLUMNS)
+          .single();
+
+        if (updateError) throw updateError;
+
+        const updated = dbToBusinessHours(data as DbBusinessHours);
+        clearStoreHoursCache();
+        setHours((prev) =>
+          prev && {
+            ...prev,
+            weekly: prev.weekly.map((d) => (d.dayOfWeek === dayOfWeek ? updated : d)),
+          }
+        );
+
+        toast({ title: 'Store hours updated' });
+        return updated;
+      } catch (err) {
+        console.error('Error updating business hours:', err);
+        toast({
+          title: 'Failed to update store hours',
+          description: getErrorMessage(err),
+          variant: 'destructive',
+        });
+        throw err;
+      }
+    },
+    []
+  );
+
+  const addException = useCallback(async (input: StoreHoursExceptionInput): Promise<StoreHoursException> => {
+    try {
+      const { data, error: insertError } = await supabase
+        .from('store_hours_exceptions')
+        .insert({
+          date: input.date,
+          is_closed: input.isClosed,
+          open_time: input.isClosed ? null : input.openTime,
+          close_time: input.isClosed ? null : input.closeTime,
+          label: input.label,
+        })
+        .select(STORE_HOURS_EXCEPTION_COLUMNS)
+        .single();
+
+      if (insertError) throw insertError;
+
+      const added = dbToStoreHoursException(data as DbStoreHoursException);
+      clearStoreHoursCache();
+      setHours((prev) =>
+        prev && {
+          ...prev,
+          exceptions: [...prev.exceptions, added].sort((a, b) => a.date.localeCompare(b.date)),
+        }
+      );
+
+      toast({ title: input.isClosed ? 'Closure added' : 'Special hours added' });
+      return added;
+    } catch (err) {
+      console.error('Error adding store hours exception:', err);
+      const isDuplicate = (err as { code?: string })?.code === '23505';
+      toast({
+        title: 'Failed to save date',
+        description: isDuplicate ? 'That date already has special hours. Remove them first.' : getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  }, []);
+
+  const deleteException = useCallback(async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase.from('store_hours_exceptions').delete().eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      clearStoreHoursCache();
+      setHours((prev) => prev && { ...prev, exceptions: prev.exceptions.filter((e) => e.id !== id) });
+
+      toast({ title: 'Date removed' });
+    } catch (err) {
+      console.error('Error deleting store hours exception:', err);
+      toast({
+        title: 'Failed to remove date',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  }, []);
+
+  const updateBookingWindow = useCallback(async (input: BookingWindow): Promise<BookingWindow> => {
+    try {
+      const { data, error: updateError } = await supabase
+        .from('booking_window')
+        .update({ min_lead_hours: input.minLeadHours, max_horizon_days: input.maxHorizonDays })
+        .eq('id', true)
+        .select(BOOKING_WINDOW_COLUMNS)
+        .single();
+
+      if (updateError) throw updateError;
+
+      const updated = dbToBookingWindow(data as DbBookingWindow);
+      clearStoreHoursCache();
+      setHours((prev) => prev && { ...prev, bookingWindow: updated });
+
+      toast({ title: 'Booking window updated' });
+      return updated;
+    } catch (err) {
+      console.error('Error updating booking window:', err);
+      toast({
+        title: 'Failed to update booking window',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  }, []);
+
+  return {
+    hours,
+    isLoading,
+    error,
+    updateBusinessHours,
+    addException,
+    deleteException,
+    updateBookingWindow,
+  };
+}
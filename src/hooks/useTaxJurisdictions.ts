@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TaxJurisdiction } from '@/types/product';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+
+// Type for database tax jurisdiction
+interface DbTaxJurisdiction {
+  id: string;
+  name: string;
+  rate: number;
+  tax_delivery: boolean;
+  is_default: boolean;
+}
+
+export type TaxJurisdictionInput = Omit<TaxJurisdiction, 'id' | 'isDefault'>;
+
+const TAX_JURISDICTION_COLUMNS = 'id,name,rate,tax_delivery,is_default';
+
+function dbToTaxJurisdiction(db: DbTaxJurisdiction): TaxJurisdiction {
+  return {
+    id: db.id,
+    name: db.name,
+    rate: db.rate,
+    taxDelivery: db.tax_delivery,
+    isDefault: db.is_default,
+  };
+}
+
+export function useTaxJurisdictions() {
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJurisdictions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('tax_jurisdictions')
+        .select(TAX_JURISDICTION_COLUMNS)
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setJurisdictions(((data || []) as DbTaxJurisdiction[]).map(dbToTaxJurisdiction));
+    } catch (err) {
+      console.error('Error fetching tax jurisdictions:', err);
+      setError('Failed to load tax settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJurisdictions();
+  }, [fetchJurisdictions]);
+
+  const addJurisdiction = async (input: TaxJurisdictionInput): Promise<TaxJurisdiction> => {
+    try {
+      const { data, error: insertError } = await supabase
+        .from('tax_jurisdictions')
+        .insert({
+          name: input.name,
+          rate: input.rate,
+          tax_delivery: input.taxDelivery,
+          // The first jurisdiction becomes the default
+          is_default: jurisdictions.length === 0,
+        })
+        .select(TAX_JURISDICTION_COLUMNS)
+        .single();
+
+      if (insertError) throw insertError;
+
+      const added = dbToTaxJurisdiction(data as DbTaxJurisdiction);
+      setJurisdictions((prev) => [...prev, added].sort((a, b) => a.name.localeCompare(b.name)));
+      toast({ title: `${added.name} added` });
+      return added;
+    } catch (err) {
+      console.error('Error adding tax jurisdiction:', err);
+      toast({
+        title: 'Failed to add tax jurisdiction',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const updateJurisdiction = async (id: string, input: TaxJurisdictionInput): Promise<TaxJurisdiction> => {
+    try {
+      const { data, error: updateError } = await supabase
+        .from('tax_jurisdictions')
+        .update({
+          name: input.name,
+          rate: input.rate,
+          tax_delivery: input.taxDelivery,
+        })
+        .eq('id', id)
+        .select(TAX_JURISDICTION_COLUMNS)
+        .single();
+
+      if (updateError) throw updateError;
+
+      const updated = dbToTaxJurisdiction(data as DbTaxJurisdiction);
+      setJurisdictions((prev) => prev.map((j) => (j.id === id ? updated : j)));
+      toast({ title: `${updated.name} updated`, description: 'Existing invoices keep their original rate.' });
+      return updated;
+    } catch (err) {
+      console.error('Error updating tax jurisdiction:', err);
+      toast({
+        title: 'Failed to update tax jurisdiction',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const setDefaultJurisdiction = async (id: string) => {
+    try {
+      // Clear the old default first; only one row may have is_default set
+      const { error: clearError } = await supabase
+        .from('tax_jurisdictions')
+        .update({ is_default: false })
+        .eq('is_default', true)
+        .neq('id', id);
+
+      if (clearError) throw clearError;
+
+      const { error: defaultError } = await supabase
+        .from('tax_jurisdictions')
+        .update({ is_default: true })
+        .eq('id', id);
+
+      if (defaultError) throw defaultError;
+
+      setJurisdictions((prev) => prev.map((j) => ({ ...j, isDefault: j.id === id })));
+    } catch (err) {
+      console.error('Error setting default tax jurisdiction:', err);
+      toast({
+        title: 'Failed to change default',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const deleteJurisdiction = async (id: string) => {
+    try {
+      // Invoices keep their snapshot; the foreign key is cleared on delete
+      const { error: deleteError } = await supabase.from('tax_jurisdictions').delete().eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setJurisdictions((prev) => prev.filter((j) => j.id !== id));
+      toast({ title: 'Tax jurisdiction deleted' });
+    } catch (err) {
+      console.error('Error deleting tax jurisdiction:', err);
+      toast({
+        title: 'Failed to delete tax jurisdiction',
+        description: getErrorMessage(err),
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const defaultJurisdiction = jurisdictions.find((j) => j.isDefault) ?? null;
+
+  return {
+    jurisdictions,
+    defaultJurisdiction,
+    isLoading,
+    error,
+    fetchJurisdictions,
+    addJurisdiction,
+    updateJurisdiction,
+    setDefaultJurisdiction,
+    deleteJurisdiction,
+  };
+}
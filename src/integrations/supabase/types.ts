@@ -14,41 +14,183 @@ export type Database = {
   }
   public: {
     Tables: {
+      appointment_internal_notes: {
+        Row: {
+          appointment_id: string
+          notes: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id: string
+          notes?: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string
+          notes?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_internal_notes_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           appointment_date: string
           appointment_time: string
+          consultant_id: string | null
           created_at: string
           email: string
           id: string
           name: string
           notes: string | null
           phone: string
-          status: string
+          product_ids: string[]
+          reminder_sent_at: string | null
+          reschedule_count: number
+          status: Database["public"]["Enums"]["appointment_status"]
           updated_at: string
         }
         Insert: {
           appointment_date: string
           appointment_time: string
+          consultant_id?: string | null
           created_at?: string
           email: string
           id?: string
           name: string
           notes?: string | null
           phone: string
-          status?: string
+          product_ids?: string[]
+          reminder_sent_at?: string | null
+          reschedule_count?: number
+          status?: Database["public"]["Enums"]["appointment_status"]
           updated_at?: string
         }
         Update: {
           appointment_date?: string
           appointment_time?: string
+          consultant_id?: string | null
           created_at?: string
           email?: string
           id?: string
           name?: string
           notes?: string | null
           phone?: string
-          status?: string
+          product_ids?: string[]
+          reminder_sent_at?: string | null
+          reschedule_count?: number
+          status?: Database["public"]["Enums"]["appointment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_consultant_id_fkey"
+            columns: ["consultant_id"]
+            isOneToOne: false
+            referencedRelation: "consultants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_attempts: {
+        Row: {
+          blocked: boolean
+          created_at: string
+          email: string
+          id: string
+          ip: string | null
+          phone: string
+          reason: string
+        }
+        Insert: {
+          blocked?: boolean
+          created_at?: string
+          email?: string
+          id?: string
+          ip?: string | null
+          phone?: string
+          reason?: string
+        }
+        Update: {
+          blocked?: boolean
+          created_at?: string
+          email?: string
+          id?: string
+          ip?: string | null
+          phone?: string
+          reason?: string
+        }
+        Relationships: []
+      }
+      booking_window: {
+        Row: {
+          id: boolean
+          max_horizon_days: number
+          min_lead_hours: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          max_horizon_days?: number
+          min_lead_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          max_horizon_days?: number
+          min_lead_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      business_hours: {
+        Row: {
+          close_time: string | null
+          day_of_week: number
+          is_open: boolean
+          open_time: string | null
+          slot_capacity: number
+          updated_at: string
+        }
+        Insert: {
+          close_time?: string | null
+          day_of_week: number
+          is_open?: boolean
+          open_time?: string | null
+          slot_capacity?: number
+          updated_at?: string
+        }
+        Update: {
+          close_time?: string | null
+          day_of_week?: number
+          is_open?: boolean
+          open_time?: string | null
+          slot_capacity?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      calendar_feed: {
+        Row: {
+          id: boolean
+          token: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          token: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          token?: string
           updated_at?: string
         }
         Relationships: []
@@ -74,6 +216,346 @@ export type Database = {
         }
         Relationships: []
       }
+      consultant_hours: {
+        Row: {
+          consultant_id: string
+          day_of_week: number
+          end_time: string
+          start_time: string
+        }
+        Insert: {
+          consultant_id: string
+          day_of_week: number
+          end_time: string
+          start_time: string
+        }
+        Update: {
+          consultant_id?: string
+          day_of_week?: number
+          end_time?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consultant_hours_consultant_id_fkey"
+            columns: ["consultant_id"]
+            isOneToOne: false
+            referencedRelation: "consultants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      consultants: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          title?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_emails: {
+        Row: {
+          error: string | null
+          id: string
+          invoice_id: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          sent_at: string
+          sent_by: string | null
+          status: Database["public"]["Enums"]["email_delivery_status"]
+        }
+        Insert: {
+          error?: string | null
+          id?: string
+          invoice_id: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          sent_at?: string
+          sent_by?: string | null
+          status: Database["public"]["Enums"]["email_delivery_status"]
+        }
+        Update: {
+          error?: string | null
+          id?: string
+          invoice_id?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          sent_at?: string
+          sent_by?: string | null
+          status?: Database["public"]["Enums"]["email_delivery_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_emails_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_line_items: {
+        Row: {
+          created_at: string
+          description: string
+          discount_percent: number
+          display_order: number
+          id: string
+          invoice_id: string
+          item_no: string
+          line_amount: number
+          product_id: string | null
+          quantity: number
+          source: string
+          taxable: boolean
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          discount_percent?: number
+          display_order?: number
+          id?: string
+          invoice_id: string
+          item_no?: string
+          line_amount?: number
+          product_id?: string | null
+          quantity?: number
+          source?: string
+          taxable?: boolean
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          discount_percent?: number
+          display_order?: number
+          id?: string
+          invoice_id?: string
+          item_no?: string
+          line_amount?: number
+          product_id?: string | null
+          quantity?: number
+          source?: string
+          taxable?: boolean
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_line_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_line_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          note: string
+          payment_date: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          note?: string
+          payment_date?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          note?: string
+          payment_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_paid: number
+          balance: number
+          bill_to_address: string
+          bill_to_email: string
+          bill_to_name: string
+          bill_to_phone: string
+          bill_to_phone_digits: string | null
+          created_at: string
+          created_by: string | null
+          delivery_charges: number
+          delivery_taxable: boolean
+          finalized_at: string | null
+          id: string
+          invoice_date: string
+          order_number: number
+          sales_tax: number
+          same_as_bill_to: boolean
+          ship_to_address: string
+          ship_to_name: string
+          ship_to_phone: string
+          status: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          tax_exempt: boolean
+          tax_exempt_certificate: string
+          tax_jurisdiction_id: string | null
+          tax_jurisdiction_name: string
+          tax_rate: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          amount_paid?: number
+          balance?: number
+          bill_to_address?: string
+          bill_to_email?: string
+          bill_to_name?: string
+          bill_to_phone?: string
+          bill_to_phone_digits?: never
+          created_at?: string
+          created_by?: string | null
+          delivery_charges?: number
+          delivery_taxable?: boolean
+          finalized_at?: string | null
+          id?: string
+          invoice_date?: string
+          order_number?: number
+          sales_tax?: number
+          same_as_bill_to?: boolean
+          ship_to_address?: string
+          ship_to_name?: string
+          ship_to_phone?: string
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax_exempt?: boolean
+          tax_exempt_certificate?: string
+          tax_jurisdiction_id?: string | null
+          tax_jurisdiction_name?: string
+          tax_rate?: number
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          amount_paid?: number
+          balance?: number
+          bill_to_address?: string
+          bill_to_email?: string
+          bill_to_name?: string
+          bill_to_phone?: string
+          bill_to_phone_digits?: never
+          created_at?: string
+          created_by?: string | null
+          delivery_charges?: number
+          delivery_taxable?: boolean
+          finalized_at?: string | null
+          id?: string
+          invoice_date?: string
+          order_number?: number
+          sales_tax?: number
+          same_as_bill_to?: boolean
+          ship_to_address?: string
+          ship_to_name?: string
+          ship_to_phone?: string
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax_exempt?: boolean
+          tax_exempt_certificate?: string
+          tax_jurisdiction_id?: string | null
+          tax_jurisdiction_name?: string
+          tax_rate?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_tax_jurisdiction_id_fkey"
+            columns: ["tax_jurisdiction_id"]
+            isOneToOne: false
+            referencedRelation: "tax_jurisdictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_holds: {
+        Row: {
+          created_at: string
+          customer: string
+          held_until: string
+          product_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer: string
+          held_until: string
+          product_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer?: string
+          held_until?: string
+          product_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_holds_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: true
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       product_images: {
         Row: {
           created_at: string
@@ -110,59 +592,92 @@ export type Database = {
         Row: {
           can_be_sold_separately: boolean
           category: Database["public"]["Enums"]["product_category"]
+          color: string | null
           created_at: string
+          depth_in: number | null
           description: string
           discount_percent: number
+          height_in: number | null
           id: string
           is_new: boolean
           is_set: boolean
+          low_stock_threshold: number
           main_image_url: string
+          material: string | null
           name: string
           part_of_set: string | null
           price_final: number
           price_original: number
           product_type: string | null
+          search_vector: unknown
+          seat_height_in: number | null
+          status: Database["public"]["Enums"]["product_status"]
+          stock_quantity: number | null
           subcategory: string | null
           tags: Database["public"]["Enums"]["product_tag"][]
           updated_at: string
+          weight_lb: number | null
+          width_in: number | null
         }
         Insert: {
           can_be_sold_separately?: boolean
           category?: Database["public"]["Enums"]["product_category"]
+          color?: string | null
           created_at?: string
+          depth_in?: number | null
           description?: string
           discount_percent?: number
+          height_in?: number | null
           id?: string
           is_new?: boolean
           is_set?: boolean
+          low_stock_threshold?: number
           main_image_url?: string
+          material?: string | null
           name: string
           part_of_set?: string | null
           price_final?: number
           price_original?: number
           product_type?: string | null
+          search_vector?: never
+          seat_height_in?: number | null
+          status?: Database["public"]["Enums"]["product_status"]
+          stock_quantity?: number | null
           subcategory?: string | null
           tags?: Database["public"]["Enums"]["product_tag"][]
           updated_at?: string
+          weight_lb?: number | null
+          width_in?: number | null
         }
         Update: {
           can_be_sold_separately?: boolean
           category?: Database["public"]["Enums"]["product_category"]
+          color?: string | null
           created_at?: string
+          depth_in?: number | null
           description?: string
           discount_percent?: number
+          height_in?: number | null
           id?: string
           is_new?: boolean
           is_set?: boolean
+          low_stock_threshold?: number
           main_image_url?: string
+          material?: string | null
           name?: string
           part_of_set?: string | null
           price_final?: number
           price_original?: number
           product_type?: string | null
+          search_vector?: never
+          seat_height_in?: number | null
+          status?: Database["public"]["Enums"]["product_status"]
+          stock_quantity?: number | null
           subcategory?: string | null
           tags?: Database["public"]["Enums"]["product_tag"][]
           updated_at?: string
+          weight_lb?: number | null
+          width_in?: number | null
         }
         Relationships: [
           {
@@ -254,6 +769,154 @@ export type Database = {
           },
         ]
       }
+      stock_levels: {
+        Row: {
+          location_id: string | null
+          product_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          location_id?: string | null
+          product_id: string
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          location_id?: string | null
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_levels_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "stock_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_levels_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_locations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_id: string | null
+          location_id: string | null
+          note: string
+          product_id: string
+          quantity_change: number
+          reason: Database["public"]["Enums"]["stock_movement_reason"]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string | null
+          location_id?: string | null
+          note?: string
+          product_id: string
+          quantity_change: number
+          reason: Database["public"]["Enums"]["stock_movement_reason"]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string | null
+          location_id?: string | null
+          note?: string
+          product_id?: string
+          quantity_change?: number
+          reason?: Database["public"]["Enums"]["stock_movement_reason"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "stock_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_hours_exceptions: {
+        Row: {
+          close_time: string | null
+          created_at: string
+          date: string
+          id: string
+          is_closed: boolean
+          label: string
+          open_time: string | null
+          updated_at: string
+        }
+        Insert: {
+          close_time?: string | null
+          created_at?: string
+          date: string
+          id?: string
+          is_closed?: boolean
+          label?: string
+          open_time?: string | null
+          updated_at?: string
+        }
+        Update: {
+          close_time?: string | null
+          created_at?: string
+          date?: string
+          id?: string
+          is_closed?: boolean
+          label?: string
+          open_time?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       subcategories: {
         Row: {
           category_id: string
@@ -286,6 +949,36 @@ export type Database = {
           },
         ]
       }
+      tax_jurisdictions: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          rate: number
+          tax_delivery: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          rate: number
+          tax_delivery?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          rate?: number
+          tax_delivery?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -312,6 +1005,17 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      active_booking_cap_reached: {
+        Args: {
+          _email: string
+          _phone: string
+        }
+        Returns: boolean
+      }
+      expire_product_holds: {
+        Args: never
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -319,11 +1023,108 @@ export type Database = {
         }
         Returns: boolean
       }
+      record_booking_attempt: {
+        Args: {
+          _email: string
+          _ip: string
+          _phone: string
+          _reason?: string
+        }
+        Returns: string
+      }
+      save_invoice: {
+        Args: {
+          _invoice: Json
+          _invoice_id?: string
+          _line_items: Json
+          _payments: Json
+        }
+        Returns: string
+      }
+      search_products: {
+        Args: {
+          result_limit?: number
+          search_query: string
+        }
+        Returns: {
+          can_be_sold_separately: boolean
+          category: Database["public"]["Enums"]["product_category"]
+          color: string | null
+          created_at: string
+          depth_in: number | null
+          description: string
+          discount_percent: number
+          height_in: number | null
+          id: string
+          is_new: boolean
+          is_set: boolean
+          low_stock_threshold: number
+          main_image_url: string
+          material: string | null
+          name: string
+          part_of_set: string | null
+          price_final: number
+          price_original: number
+          product_type: string | null
+          search_vector: unknown
+          seat_height_in: number | null
+          status: Database["public"]["Enums"]["product_status"]
+          stock_quantity: number
+          subcategory: string | null
+          tags: Database["public"]["Enums"]["product_tag"][]
+          updated_at: string
+          weight_lb: number | null
+          width_in: number | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      set_product_status: {
+        Args: {
+          _customer?: string
+          _held_until?: string
+          _product_id: string
+          _status: Database["public"]["Enums"]["product_status"]
+        }
+        Returns: string[]
+      }
+      sync_invoice_floor_samples: {
+        Args: {
+          _invoice_id: string
+          _removed_ids?: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
+      appointment_status:
+        | "pending"
+        | "confirmed"
+        | "completed"
+        | "no_show"
+        | "cancelled"
+      email_delivery_status: "sent" | "failed"
+      invoice_status: "draft" | "finalized"
+      payment_method:
+        | "cash"
+        | "debit_card"
+        | "credit_card"
+        | "check"
+        | "store_credit"
       product_category: "floor_sample" | "online_inventory"
+      product_status:
+        | "available"
+        | "on_hold"
+        | "reserved"
+        | "sold"
+        | "removed"
       product_tag: "new" | "sale" | "staff_pick"
+      stock_movement_reason: "received" | "sold" | "adjusted" | "returned"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -452,8 +1253,26 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      appointment_status: [
+        "pending",
+        "confirmed",
+        "completed",
+        "no_show",
+        "cancelled",
+      ],
+      email_delivery_status: ["sent", "failed"],
+      invoice_status: ["draft", "finalized"],
+      payment_method: [
+        "cash",
+        "debit_card",
+        "credit_card",
+        "check",
+        "store_credit",
+      ],
       product_category: ["floor_sample", "online_inventory"],
+      product_status: ["available", "on_hold", "reserved", "sold", "removed"],
       product_tag: ["new", "sale", "staff_pick"],
+      stock_movement_reason: ["received", "sold", "adjusted", "returned"],
     },
   },
 } as const
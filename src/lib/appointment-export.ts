@@ -0,0 +1,92 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Appointment, AppointmentProduct, APPOINTMENT_STATUS_LABELS } from '@/types/appointment';
+import { APPOINTMENT_COLUMNS, DbAppointment, dbToAppointment, loadAppointmentProducts } from '@/lib/appointments';
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const CSV_HEADER = [
+  'Date',
+  'Time',
+  'Status',
+  'Name',
+  'Email',
+  'Phone',
+  'Consultant',
+  'Wants to See',
+  'Customer Notes',
+  'Internal Notes',
+  'Booked At',
+];
+
+// Quotes when needed, and defuses values a spreadsheet would run as a formula
+// (names and notes come from the public booking form)
+function toCsvCell(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+async function fetchAppointmentsInRange(dateFrom: string, dateTo: string): Promise<Appointment[]> {
+  const appointments: Appointment[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_COLUMNS)
+      .gte('appointment_date', dateFrom)
+      .lte('appointment_date', dateTo)
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    appointments.push(...((data || []) as DbAppointment[]).map(dbToAppointment));
+    if (!data || data.length < PAGE_SIZE) return appointments;
+  }
+}
+
+function buildAppointmentsCsv(
+  appointments: Appointment[],
+  consultantNames: Map<string, string>,
+  products: Record<string, AppointmentProduct>
+): string {
+  const rows = appointments.map((appointment) => [
+    appointment.date,
+    appointment.time,
+    APPOINTMENT_STATUS_LABELS[appointment.status],
+    appointment.name,
+    appointment.email,
+    appointment.phone,
+    (appointment.consultantId && consultantNames.get(appointment.consultantId)) || '',
+    appointment.productIds.flatMap((id) => products[id]?.name ?? []).join('; '),
+    appointment.notes,
+    appointment.internalNotes,
+    format(parseISO(appointment.createdAt), 'yyyy-MM-dd HH:mm'),
+  ]);
+  return [CSV_HEADER, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Downloads every appointment between two dates (inclusive), cancelled ones
+// included. Returns how many rows were exported.
+export async function downloadAppointmentsCsv(dateFrom: string, dateTo: string): Promise<number> {
+  const [appointments, consultantsResult] = await Promise.all([
+    fetchAppointmentsInRange(dateFrom, dateTo),
+    supabase.from('consultants').select('id,name'),
+  ]);
+  if (consultantsResult.error) throw consultantsResult.error;
+
+  const consultantNames = new Map((consultantsResult.data || []).map((row) => [row.id, row.name]));
+  const products = await loadAppointmentProducts(appointments);
+
+  // The BOM makes Excel read the file as UTF-8
+  const csv = '\uFEFF' + buildAppointmentsCsv(appointments, consultantNames, products);
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `appointments-${dateFrom}-to-${dateTo}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return appointments.length;
+}
@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Appointment, AppointmentProduct, AppointmentStatus } from '@/types/appointment';
+
+// Type for database appointment
+export interface DbAppointment {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  appointment_date: string;
+  appointment_time: string;
+  notes: string | null;
+  // Staff-only notes sit in their own admin-only table
+  appointment_internal_notes: { notes: string } | null;
+  status: AppointmentStatus;
+  consultant_id: string | null;
+  product_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Type for the product fields shown with an appointment
+interface DbAppointmentProduct {
+  id: string;
+  name: string;
+  main_image_url: string;
+}
+
+export const APPOINTMENT_COLUMNS =
+  'id,name,email,phone,appointment_date,appointment_time,notes,status,consultant_id,product_ids,created_at,updated_at,appointment_internal_notes(notes)';
+
+export function dbToAppointment(db: DbAppointment): Appointment {
+  return {
+    id: db.id,
+    name: db.name,
+    email: db.email,
+    phone: db.phone,
+    date: db.appointment_date,
+    // Postgres TIME comes back as HH:mm:ss
+    time: db.appointment_time.slice(0, 5),
+    notes: db.notes || '',
+    internalNotes: db.appointment_internal_notes?.notes ?? '',
+    status: db.status,
+    consultantId: db.consultant_id,
+    productIds: db.product_ids,
+    createdAt: db.created_at,
+    updatedAt: db.updated_at,
+  };
+}
+
+// Products the appointments ask to see, by id. Deleted products are missing.
+export async function loadAppointmentProducts(
+  appointments: Appointment[]
+): Promise<Record<string, AppointmentProduct>> {
+  const productIds = [...new Set(appointments.flatMap((appointment) => appointment.productIds))];
+  if (productIds.length === 0) return {};
+
+  const { data, error } = await supabase.from('products').select('id,name,main_image_url').in('id', productIds);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    ((data || []) as DbAppointmentProduct[]).map((row) => [
+      row.id,
+      { id: row.id, name: row.name, mainImageUrl: row.main_image_url },
+    ])
+  );
+}
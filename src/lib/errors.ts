@@ -0,0 +1,6 @@
+// Short enough for a toast description; long database errors stay in the console
+export function getErrorMessage(err: unknown) {
+  const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+  if (!message) return 'Unknown error occurred';
+  return message.length > 100 ? 'Please check the console for details.' : message;
+}
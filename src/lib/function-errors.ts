@@ -0,0 +1,17 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Edge functions reply with { error: string } on failure. supabase-js wraps
+// non-2xx replies in FunctionsHttpError with the raw Response as context.
+export async function getFunctionErrorMessage(err: unknown, fallback: string): Promise<string> {
+  if (err instanceof FunctionsHttpError) {
+    try {
+      const body = await (err.context as Response).json();
+      if (typeof body?.error === 'string' && body.error) return body.error;
+    } catch {
+      // Body was not JSON; fall through to the fallback
+    }
+    return fallback;
+  }
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+}
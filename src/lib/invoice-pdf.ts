@@ -0,0 +1,282 @@
+import type { jsPDF } from 'jspdf';
+import { storeInfo, returnTerms } from '@/data/storeInfo';
+import { Invoice, PAYMENT_METHOD_LABELS, formatTaxRate } from '@/types/product';
+import { summarizeWeeklyHours } from '@/types/store-hours';
+import { loadStoreHours } from '@/lib/store-hours';
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 36;
+
+const TEXT_COLOR: [number, number, number] = [33, 33, 33];
+const MUTED_COLOR: [number, number, number] = [110, 110, 110];
+const RULE_COLOR: [number, number, number] = [200, 200, 200];
+const HEADER_FILL: [number, number, number] = [242, 242, 242];
+
+// Line item columns: x offset from the left margin, width, alignment
+const COLUMNS = [
+  { label: 'Source', x: 0, width: 50, align: 'left' },
+  { label: 'Item#', x: 50, width: 50, align: 'left' },
+  { label: 'Description', x: 100, width: 196, align: 'left' },
+  { label: 'Qty', x: 296, width: 34, align: 'right' },
+  { label: 'Price', x: 330, width: 66, align: 'right' },
+  { label: 'Disc%', x: 396, width: 44, align: 'right' },
+  { label: 'Tax', x: 440, width: 30, align: 'center' },
+  { label: 'Amount', x: 470, width: 46, align: 'right' },
+] as const;
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Invoice dates are plain YYYY-MM-DD; parse as local so they don't shift a day
+const formatInvoiceDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', {
+    month: 'numeric',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export function getInvoicePdfFileName(invoice: Invoice) {
+  return `Invoice-${invoice.orderNumber}.pdf`;
+}
+
+async function buildInvoicePdf(invoice: Invoice): Promise<jsPDF> {
+  // jsPDF is large; only load it when an invoice is actually exported
+  const { jsPDF } = await import('jspdf');
+  const hoursLines = await loadStoreHours()
+    .then((hours) => summarizeWeeklyHours(hours.weekly, true))
+    // Hours are a nicety on the invoice; never block the export on them
+    .catch((err) => {
+      console.error('Error loading store hours for invoice PDF:', err);
+      return [];
+    });
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  let y = MARGIN;
+
+  const setText = (size: number, style: 'normal' | 'bold' | 'italic' = 'normal', color = TEXT_COLOR) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const rule = (atY: number) => {
+    doc.setDrawColor(...RULE_COLOR);
+    doc.setLineWidth(0.75);
+    doc.line(MARGIN, atY, PAGE_WIDTH - MARGIN, atY);
+  };
+
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_SPACE) {
+      doc.addPage();
+      y = MARGIN;
+      return true;
+    }
+    return false;
+  };
+
+  // ---- Store header ----
+  setText(16, 'bold');
+  doc.text(storeInfo.name.toUpperCase(), MARGIN, y + 12);
+  setText(9, 'normal', MUTED_COLOR);
+  doc.text(storeInfo.address, MARGIN, y + 28);
+  doc.text(`${storeInfo.city}, ${storeInfo.state} ${storeInfo.zip}`, MARGIN, y + 40);
+  doc.text(`Phone: ${storeInfo.phone}`, MARGIN, y + 52);
+  doc.text(storeInfo.website, MARGIN, y + 64);
+
+  const right = PAGE_WIDTH - MARGIN;
+  setText(9, 'bold');
+  doc.text('Business Hours:', right, y + 12, { align: 'right' });
+  setText(9, 'normal', MUTED_COLOR);
+  hoursLines.forEach((line, index) => {
+    doc.text(line, right, y + 28 + index * 12, { align: 'right' });
+  });
+
+  // A week with many different days needs more room than the address block
+  y += Math.max(78, 28 + hoursLines.length * 12 + 4);
+  rule(y);
+  y += 28;
+
+  // ---- Title, date and order number ----
+  setText(20, 'bold');
+  doc.text('INVOICE', PAGE_WIDTH / 2, y, { align: 'center', charSpace: 2 });
+  y += 24;
+
+  setText(10, 'bold');
+  doc.text('Date:', MARGIN, y);
+  doc.text('Order No.:', right - 90, y);
+  setText(10);
+  doc.text(formatInvoiceDate(invoice.date), MARGIN + 32, y);
+  doc.text(String(invoice.orderNumber), right, y, { align: 'right' });
+  y += 24;
+
+  // ---- Bill to / Ship to ----
+  const halfWidth = CONTENT_WIDTH / 2 - 12;
+  const shipToX = MARGIN + CONTENT_WIDTH / 2 + 12;
+  const addressBlock = (name: string, address: string, phone: string) =>
+    [name, ...doc.splitTextToSize(address, halfWidth), phone].filter(Boolean) as string[];
+
+  const billTo = addressBlock(invoice.billToName, invoice.billToAddress, invoice.billToPhone);
+  const shipTo = invoice.sameAsBillTo
+    ? billTo
+    : addressBlock(invoice.shipToName, invoice.shipToAddress, invoice.shipToPhone);
+
+  setText(10, 'bold');
+  doc.text('BILL TO', MARGIN, y);
+  doc.text('SHIP TO', shipToX, y);
+  y += 14;
+  setText(10);
+  doc.text(billTo, MARGIN, y);
+  doc.text(shipTo, shipToX, y);
+  y += Math.max(billTo.length, shipTo.length, 1) * 12 + 12;
+
+  // ---- Line items ----
+  const columnTextX = (column: (typeof COLUMNS)[number]) => {
+    const x = MARGIN + column.x;
+    if (column.align === 'right') return x + column.width - 4;
+    if (column.align === 'center') return x + column.width / 2;
+    return x + 4;
+  };
+
+  const drawTableHeader = () => {
+    doc.setFillColor(...HEADER_FILL);
+    doc.rect(MARGIN, y, CONTENT_WIDTH, 18, 'F');
+    setText(8.5, 'bold');
+    for (const column of COLUMNS) {
+      doc.text(column.label, columnTextX(column), y + 12, { align: column.align });
+    }
+    y += 18;
+  };
+
+  drawTableHeader();
+  for (const item of invoice.lineItems) {
+    const descriptionLines = doc.splitTextToSize(item.description || '-', COLUMNS[2].width - 8) as string[];
+    const rowHeight = Math.max(descriptionLines.length, 1) * 11 + 8;
+
+    if (ensureSpace(rowHeight)) {
+      drawTableHeader();
+    }
+
+    const cells = [
+      item.source,
+      item.itemNo,
+      descriptionLines,
+      String(item.quantity),
+      formatCurrency(item.unitPrice),
+      item.discountPercent > 0 ? `${item.discountPercent}%` : '-',
+      item.taxable && !invoice.taxExempt ? 'Y' : 'N',
+      formatCurrency(item.lineAmount),
+    ];
+
+    setText(9);
+    COLUMNS.forEach((column, index) => {
+      doc.text(cells[index], columnTextX(column), y + 13, { align: column.align });
+    });
+    y += rowHeight;
+    rule(y);
+  }
+  y += 16;
+
+  // ---- Totals ----
+  const totalsX = PAGE_WIDTH - MARGIN - 200;
+  const totalRow = (label: string, value: string, bold = false) => {
+    ensureSpace(16);
+    setText(10, bold ? 'bold' : 'normal');
+    doc.text(label, totalsX, y);
+    doc.text(value, right, y, { align: 'right' });
+    y += 16;
+  };
+
+  totalRow(`Delivery Charges${invoice.deliveryTaxable ? '' : ' (non-taxable)'}:`, formatCurrency(invoice.deliveryCharges));
+  totalRow('Subtotal:', formatCurrency(invoice.subtotal));
+  totalRow(
+    invoice.taxExempt ? 'Tax (Exempt):' : `Tax (${formatTaxRate(invoice.taxRate)}):`,
+    formatCurrency(invoice.salesTax)
+  );
+  if (invoice.taxExempt && invoice.taxExemptCertificate) {
+    setText(8, 'italic', MUTED_COLOR);
+    doc.text(`Exemption certificate #${invoice.taxExemptCertificate}`, totalsX, y - 4);
+    y += 8;
+  }
+  totalRow('Total:', formatCurrency(invoice.total), true);
+
+  for (const payment of invoice.payments) {
+    totalRow(
+      `Paid ${formatInvoiceDate(payment.date)} (${PAYMENT_METHOD_LABELS[payment.method]}):`,
+      formatCurrency(payment.amount)
+    );
+  }
+  totalRow('Balance:', formatCurrency(invoice.balance), true);
+  if (invoice.balance <= 0) {
+    setText(9, 'bold', [22, 128, 61]);
+    doc.text('PAID IN FULL', right, y, { align: 'right' });
+    y += 16;
+  }
+
+  // ---- Signature ----
+  ensureSpace(70);
+  y += 20;
+  setText(8.5, 'italic', MUTED_COLOR);
+  doc.text('By signing below, I find no defect or damage on the furniture.', MARGIN, y);
+  y += 36;
+  doc.setDrawColor(...TEXT_COLOR);
+  doc.setLineWidth(0.75);
+  doc.line(MARGIN, y, MARGIN + 300, y);
+  doc.line(right - 140, y, right, y);
+  setText(10);
+  doc.text(formatInvoiceDate(invoice.date), right - 70, y - 6, { align: 'center' });
+  setText(8.5, 'normal', MUTED_COLOR);
+  doc.text('Customer Signature', MARGIN, y + 12);
+  doc.text('Date', right - 70, y + 12, { align: 'center' });
+
+  // ---- Return terms page ----
+  doc.addPage();
+  y = MARGIN;
+  setText(14, 'bold');
+  doc.text('Return Terms', MARGIN, y + 10);
+  y += 30;
+  setText(10, 'bold');
+  doc.text('Delivery and assembly fees are non-refundable.', MARGIN, y);
+  y += 22;
+
+  returnTerms.forEach((term, index) => {
+    const heading = `${index + 1}. ${term.title}`;
+    const body = doc.splitTextToSize(term.content, CONTENT_WIDTH - 14) as string[];
+    ensureSpace(16 + body.length * 12);
+    setText(10, 'bold');
+    doc.text(heading, MARGIN, y);
+    y += 14;
+    setText(9.5, 'normal', MUTED_COLOR);
+    doc.text(body, MARGIN + 14, y);
+    y += body.length * 12 + 10;
+  });
+
+  // ---- Footer on every page ----
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    setText(8, 'normal', MUTED_COLOR);
+    doc.text(
+      `${storeInfo.name} · Invoice #${invoice.orderNumber} · Page ${page} of ${pageCount}`,
+      PAGE_WIDTH / 2,
+      PAGE_HEIGHT - MARGIN / 2,
+      { align: 'center' }
+    );
+  }
+
+  return doc;
+}
+
+export async function generateInvoicePdf(invoice: Invoice): Promise<Blob> {
+  const doc = await buildInvoicePdf(invoice);
+  return doc.output('blob');
+}
+
+export async function downloadInvoicePdf(invoice: Invoice) {
+  const doc = await buildInvoicePdf(invoice);
+  doc.save(getInvoicePdfFileName(invoice));
+}
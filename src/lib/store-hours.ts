@@ -0,0 +1,128 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { storeInfo } from '@/data/storeInfo';
+import { BookingWindow, BusinessHours, StoreHours, StoreHoursException } from '@/types/store-hours';
+
+// Type for database business hours
+export interface DbBusinessHours {
+  day_of_week: number;
+  is_open: boolean;
+  open_time: string | null;
+  close_time: string | null;
+  slot_capacity: number;
+}
+
+// Type for database store hours exception
+export interface DbStoreHoursException {
+  id: string;
+  date: string;
+  is_closed: boolean;
+  open_time: string | null;
+  close_time: string | null;
+  label: string;
+}
+
+// Type for database booking window
+export interface DbBookingWindow {
+  min_lead_hours: number;
+  max_horizon_days: number;
+}
+
+export const BUSINESS_HOURS_COLUMNS = 'day_of_week,is_open,open_time,close_time,slot_capacity';
+export const STORE_HOURS_EXCEPTION_COLUMNS = 'id,date,is_closed,open_time,close_time,label';
+export const BOOKING_WINDOW_COLUMNS = 'min_lead_hours,max_horizon_days';
+
+// Matches the booking functions when the booking_window row is missing
+const DEFAULT_BOOKING_WINDOW: BookingWindow = { minLeadHours: 2, maxHorizonDays: 60 };
+
+// Postgres TIME comes back as HH:mm:ss
+const toTime = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+export function dbToBusinessHours(db: DbBusinessHours): BusinessHours {
+  return {
+    dayOfWeek: db.day_of_week,
+    isOpen: db.is_open,
+    openTime: toTime(db.open_time),
+    closeTime: toTime(db.close_time),
+    slotCapacity: db.slot_capacity,
+  };
+}
+
+export function dbToStoreHoursException(db: DbStoreHoursException): StoreHoursException {
+  return {
+    id: db.id,
+    date: db.date,
+    isClosed: db.is_closed,
+    openTime: toTime(db.open_time),
+    closeTime: toTime(db.close_time),
+    label: db.label,
+  };
+}
+
+export function dbToBookingWindow(db: DbBookingWindow): BookingWindow {
+  return {
+    minLeadHours: db.min_lead_hours,
+    maxHorizonDays: db.max_horizon_days,
+  };
+}
+
+// Today's date at the store, which can differ from the visitor's around midnight
+export function getStoreToday(now = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: storeInfo.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+// Store-local dates customers can currently pick, inclusive. Mirrors
+// getBookableDateRange in the booking functions.
+export function getBookableDateRange(bookingWindow: BookingWindow, now = new Date()) {
+  const first = getStoreToday(now);
+  return { first, last: format(addDays(parseISO(first), bookingWindow.maxHorizonDays), 'yyyy-MM-dd') };
+}
+
+async function fetchStoreHours(): Promise<StoreHours> {
+  const [weeklyResult, exceptionsResult, bookingWindowResult] = await Promise.all([
+    supabase.from('business_hours').select(BUSINESS_HOURS_COLUMNS).order('day_of_week'),
+    // Past exceptions never matter to the site
+    supabase
+      .from('store_hours_exceptions')
+      .select(STORE_HOURS_EXCEPTION_COLUMNS)
+      .gte('date', getStoreToday())
+      .order('date'),
+    supabase.from('booking_window').select(BOOKING_WINDOW_COLUMNS).maybeSingle(),
+  ]);
+
+  if (weeklyResult.error) throw weeklyResult.error;
+  if (exceptionsResult.error) throw exceptionsResult.error;
+  if (bookingWindowResult.error) throw bookingWindowResult.error;
+
+  return {
+    weekly: ((weeklyResult.data || []) as DbBusinessHours[]).map(dbToBusinessHours),
+    exceptions: ((exceptionsResult.data || []) as DbStoreHoursException[]).map(dbToStoreHoursException),
+    bookingWindow: bookingWindowResult.data
+      ? dbToBookingWindow(bookingWindowResult.data as DbBookingWindow)
+      : DEFAULT_BOOKING_WINDOW,
+  };
+}
+
+// The header, footer, homepage and booking calendar all show hours on the same
+// page, so they share one request
+let storeHoursRequest: Promise<StoreHours> | null = null;
+
+export function loadStoreHours(): Promise<StoreHours> {
+  if (!storeHoursRequest) {
+    storeHoursRequest = fetchStoreHours().catch((err) => {
+      storeHoursRequest = null;
+      throw err;
+    });
+  }
+  return storeHoursRequest;
+}
+
+// Called after admins edit hours so the next load sees the change
+export function clearStoreHoursCache() {
+  storeHoursRequest = null;
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
 import { 
   LayoutDashboard, 
   Package, 
   FileText, 
+  CalendarDays,
   Plus, 
   Edit, 
   Trash2,
@@ -12,6 +14,10 @@ import {
   LogOut,
   Menu,
   Loader2,
+  Settings,
+  Tag,
+  Boxes,
+  AlertTriangle,
   X
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -44,14 +50,36 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Product, ProductCategory, SetItem, calculateFinalPrice } from '@/types/product';
+import {
+  Invoice,
+  Product,
+  ProductCategory,
+  ProductHold,
+  ProductSpecs,
+  SetItem,
+  PRODUCT_STATUS_LABELS,
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  STOCK_STATUS_LABELS,
+  STOREFRONT_PRODUCT_STATUSES,
+  calculateFinalPrice,
+  getStockStatus,
+} from '@/types/product';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { Progress } from '@/components/ui/progress';
 import { MultipleImageUpload } from '@/components/admin/MultipleImageUpload';
 import { SetItemsEditor } from '@/components/admin/SetItemsEditor';
+import { ProductSpecsEditor } from '@/components/admin/ProductSpecsEditor';
 import { CategorySelector } from '@/components/admin/CategorySelector';
 import InvoicePage from '@/components/admin/InvoicePage';
+import { InvoiceHistory } from '@/components/admin/InvoiceHistory';
+import { TaxSettings } from '@/components/admin/TaxSettings';
+import { StoreHoursSettings } from '@/components/admin/StoreHoursSettings';
+import { ConsultantSettings } from '@/components/admin/ConsultantSettings';
+import { AppointmentsView } from '@/components/admin/AppointmentsView';
+import { ProductStatusDialog } from '@/components/admin/ProductStatusDialog';
+import { StockDialog } from '@/components/admin/StockDialog';
+import { StockLocationSettings } from '@/components/admin/StockLocationSettings';
 import {
   Sheet,
   SheetContent,
@@ -60,17 +88,40 @@ import {
 import { useAuth } from '@/hooks/useAuth';
 import { useProducts } from '@/hooks/useProducts';
 
-type AdminView = 'dashboard' | 'products' | 'invoices';
+type AdminView = 'dashboard' | 'products' | 'invoices' | 'appointments' | 'settings';
+
+// Invoice currently open in the editor; invoice is null for a blank one
+interface InvoiceEditorState {
+  invoice: Invoice | null;
+  duplicate?: boolean;
+}
+
+const formatHold = (hold: ProductHold) =>
+  `Held for ${hold.customer} until ${format(parseISO(hold.heldUntil), 'EEE, MMM d')}`;
+
+const formatStock = (product: Product) =>
+  product.stockQuantity === undefined ? 'Stock not tracked' : `${product.stockQuantity} in stock`;
 
 const Admin = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading, signOut } = useAuth();
-  const { products, isLoading: productsLoading, addProduct, updateProduct, deleteProduct } = useProducts();
+  const {
+    products,
+    isLoading: productsLoading,
+    fetchProducts,
+    addProduct,
+    updateProduct,
+    deleteProduct,
+    updateProductStatus,
+  } = useProducts();
   
   const [categoryFilter, setCategoryFilter] = useState<'all' | ProductCategory>('all');
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [statusProduct, setStatusProduct] = useState<Product | null>(null);
+  const [stockProduct, setStockProduct] = useState<Product | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [activeView, setActiveView] = useState<AdminView>('dashboard');
+  const [invoiceEditor, setInvoiceEditor] = useState<InvoiceEditorState | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveProgress, setSaveProgress] = useState(0);
@@ -90,6 +141,8 @@ const Admin = () => {
     isNew: false,
     tagSale: false,
     tagStaffPick: false,
+    lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+    specs: {} as ProductSpecs,
     setItems: [] as SetItem[],
   });
 
@@ -119,6 +172,8 @@ const Admin = () => {
       isNew: false,
       tagSale: false,
       tagStaffPick: false,
+      lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+      specs: {},
       setItems: [],
     });
     setEditingProduct(null);
@@ -149,6 +204,8 @@ const Admin = () => {
       isNew: product.isNew,
       tagSale: product.tags.includes('sale'),
       tagStaffPick: product.tags.includes('staff_pick'),
+      lowStockThreshold: product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      specs: product.specs ?? {},
       setItems: processedSetItems,
     });
     setIsDialogOpen(true);
@@ -225,6 +282,8 @@ const Admin = () => {
       mainImageUrl: mainImageUrl,
       imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
       setItems: processedSetItems.length > 0 ? processedSetItems : undefined,
+      lowStockThreshold: formData.inventoryType === 'online_inventory' ? formData.lowStockThreshold : undefined,
+      specs: formData.specs,
     };
 
     setIsSaving(true);
@@ -280,6 +339,14 @@ const Admin = () => {
 
   const floorSampleCount = products.filter(p => p.category === 'floor_sample').length;
   const onlineCount = products.filter(p => p.category === 'online_inventory').length;
+  // Listed online inventory at or below its alert level, emptiest first
+  const lowStockProducts = products
+    .filter(
+      (p) =>
+        STOREFRONT_PRODUCT_STATUSES.includes(p.status ?? 'available') &&
+        (getStockStatus(p) ?? 'in_stock') !== 'in_stock'
+    )
+    .sort((a, b) => (a.stockQuantity ?? 0) - (b.stockQuantity ?? 0));
 
   // Loading state
   if (authLoading) {
@@ -337,6 +404,7 @@ const Admin = () => {
         <button
           onClick={() => {
             setActiveView('invoices');
+            setInvoiceEditor(null);
             onNavigate?.();
           }}
           className={cn(
@@ -349,6 +417,36 @@ const Admin = () => {
           <FileText className="h-4 w-4" />
           Invoices
         </button>
+        <button
+          onClick={() => {
+            setActiveView('appointments');
+            onNavigate?.();
+          }}
+          className={cn(
+            'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+            activeView === 'appointments'
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:bg-secondary hover:text-foreground'
+          )}
+        >
+          <CalendarDays className="h-4 w-4" />
+          Appointments
+        </button>
+        <button
+          onClick={() => {
+            setActiveView('settings');
+            onNavigate?.();
+          }}
+          className={cn(
+            'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+            activeView === 'settings'
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:bg-secondary hover:text-foreground'
+          )}
+        >
+          <Settings className="h-4 w-4" />
+          Settings
+        </button>
       </nav>
 
       <div className="mt-auto pt-4 border-t border-border">
@@ -445,6 +543,44 @@ const Admin = () => {
               </Card>
             </div>
 
+            {/* Low stock alerts */}
+            {!productsLoading && lowStockProducts.length > 0 && (
+              <Card className="mb-8 border-destructive/40">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-base">Low Stock</CardTitle>
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y divide-border">
+                    {lowStockProducts.map((product) => {
+                      const stockStatus = getStockStatus(product);
+                      return (
+                        <li key={product.id} className="flex items-center justify-between gap-4 py-2">
+                          <div className="min-w-0">
+                            <p className="truncate font-medium text-foreground">{product.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {product.stockQuantity ?? 0} on hand, alert at {product.lowStockThreshold ?? 0}
+                            </p>
+                          </div>
+                          <div className="flex shrink-0 items-center gap-2">
+                            {stockStatus && (
+                              <Badge variant={stockStatus === 'backorder' ? 'destructive' : 'outline'}>
+                                {STOCK_STATUS_LABELS[stockStatus]}
+                              </Badge>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => setStockProduct(product)}>
+                              <Boxes className="mr-2 h-4 w-4" />
+                              Stock
+                            </Button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Quick Actions */}
             <Card>
               <CardHeader>
@@ -455,7 +591,13 @@ const Admin = () => {
                   <Plus className="mr-2 h-4 w-4" />
                   Add Product
                 </Button>
-                <Button variant="outline" onClick={() => setActiveView('invoices')}>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setActiveView('invoices');
+                    setInvoiceEditor({ invoice: null });
+                  }}
+                >
                   <FileText className="mr-2 h-4 w-4" />
                   Create Invoice
                 </Button>
@@ -616,6 +758,33 @@ const Admin = () => {
                           </div>
                         )}
 
+                        {formData.inventoryType === 'online_inventory' && (
+                          <div>
+                            <Label htmlFor="lowStockThreshold">Low Stock Alert At</Label>
+                            <Input
+                              id="lowStockThreshold"
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={formData.lowStockThreshold}
+                              onFocus={(e) => e.currentTarget.select()}
+                              onChange={(e) =>
+                                setFormData({ ...formData, lowStockThreshold: Math.max(0, parseInt(e.target.value) || 0) })
+                              }
+                              className="sm:w-1/2"
+                            />
+                            <p className="mt-1 text-xs text-muted-foreground">
+                              Shown as low stock on the site, and flagged on the dashboard, at or below this quantity.
+                              Record stock from the product list.
+                            </p>
+                          </div>
+                        )}
+
+                        <ProductSpecsEditor
+                          specs={formData.specs}
+                          onChange={(specs) => setFormData({ ...formData, specs })}
+                        />
+
                         {/* Set Items */}
                         <SetItemsEditor
                           items={formData.setItems}
@@ -720,7 +889,18 @@ const Admin = () => {
                                     <Badge variant={product.category === 'floor_sample' ? 'default' : 'secondary'} className="text-xs">
                                       {product.category === 'floor_sample' ? 'Floor Sample' : 'Online'}
                                     </Badge>
+                                    {product.status && product.status !== 'available' && (
+                                      <Badge variant="outline" className="text-xs">
+                                        {PRODUCT_STATUS_LABELS[product.status]}
+                                      </Badge>
+                                    )}
                                   </div>
+                                  {product.hold && (
+                                    <p className="text-xs text-muted-foreground">{formatHold(product.hold)}</p>
+                                  )}
+                                  {product.category === 'online_inventory' && (
+                                    <p className="text-xs text-muted-foreground">{formatStock(product)}</p>
+                                  )}
                                   <p className="text-xs text-muted-foreground">
                                     {product.productType || '-'}
                                   </p>
@@ -750,6 +930,24 @@ const Admin = () => {
                                     <Edit className="h-4 w-4 mr-2" />
                                     Edit
                                   </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setStatusProduct(product)}
+                                  >
+                                    <Tag className="h-4 w-4 mr-2" />
+                                    Status
+                                  </Button>
+                                  {product.category === 'online_inventory' && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setStockProduct(product)}
+                                    >
+                                      <Boxes className="h-4 w-4 mr-2" />
+                                      Stock
+                                    </Button>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -797,9 +995,22 @@ const Admin = () => {
                               </TableCell>
                               <TableCell className="font-medium">{product.name}</TableCell>
                               <TableCell>
-                                <Badge variant={product.category === 'floor_sample' ? 'default' : 'secondary'}>
-                                  {product.category === 'floor_sample' ? 'Floor Sample' : 'Online'}
-                                </Badge>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant={product.category === 'floor_sample' ? 'default' : 'secondary'}>
+                                    {product.category === 'floor_sample' ? 'Floor Sample' : 'Online'}
+                                  </Badge>
+                                  {product.status && product.status !== 'available' && (
+                                    <Badge variant="outline" title={product.hold && formatHold(product.hold)}>
+                                      {PRODUCT_STATUS_LABELS[product.status]}
+                                    </Badge>
+                                  )}
+                                </div>
+                                {product.hold && (
+                                  <p className="mt-1 text-xs text-muted-foreground">{formatHold(product.hold)}</p>
+                                )}
+                                {product.category === 'online_inventory' && (
+                                  <p className="mt-1 text-xs text-muted-foreground">{formatStock(product)}</p>
+                                )}
                               </TableCell>
                               <TableCell className="text-muted-foreground">
                                 {product.productType || '-'}
@@ -822,6 +1033,24 @@ const Admin = () => {
                                   >
                                     <Edit className="h-4 w-4" />
                                   </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setStatusProduct(product)}
+                                    title="Availability"
+                                  >
+                                    <Tag className="h-4 w-4" />
+                                  </Button>
+                                  {product.category === 'online_inventory' && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => setStockProduct(product)}
+                                      title="Stock"
+                                    >
+                                      <Boxes className="h-4 w-4" />
+                                    </Button>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="icon"
@@ -847,12 +1076,58 @@ const Admin = () => {
                 )}
               </CardContent>
             </Card>
+            <ProductStatusDialog
+              key={statusProduct?.id}
+              product={statusProduct}
+              onOpenChange={(open) => !open && setStatusProduct(null)}
+              onSave={(status, hold) => updateProductStatus(statusProduct!.id, status, hold)}
+            />
           </div>
         )}
 
         {activeView === 'invoices' && (
-          <InvoicePage isEmbedded />
+          invoiceEditor ? (
+            <InvoicePage
+              key={`${invoiceEditor.invoice?.id ?? 'new'}${invoiceEditor.duplicate ? ':copy' : ''}`}
+              isEmbedded
+              initialInvoice={invoiceEditor.invoice}
+              duplicate={invoiceEditor.duplicate}
+              products={products}
+              onBack={() => setInvoiceEditor(null)}
+              onFinalized={() => fetchProducts()}
+            />
+          ) : (
+            <InvoiceHistory
+              onOpen={(invoice) => setInvoiceEditor({ invoice })}
+              onDuplicate={(invoice) => setInvoiceEditor({ invoice, duplicate: true })}
+              onCreate={() => setInvoiceEditor({ invoice: null })}
+            />
+          )
+        )}
+
+        {activeView === 'appointments' && <AppointmentsView />}
+
+        {activeView === 'settings' && (
+          <div className="p-4 sm:p-6 md:p-8">
+            <div className="mb-8">
+              <h2 className="text-2xl font-semibold text-foreground">Settings</h2>
+              <p className="text-muted-foreground">Store-wide settings used by the site and invoices</p>
+            </div>
+            <div className="space-y-8">
+              <StoreHoursSettings />
+              <ConsultantSettings />
+              <TaxSettings />
+              <StockLocationSettings />
+            </div>
+          </div>
         )}
+
+        <StockDialog
+          key={stockProduct?.id}
+          product={stockProduct}
+          onOpenChange={(open) => !open && setStockProduct(null)}
+          onStockChange={fetchProducts}
+        />
       </main>
     </div>
   );
@@ -1,16 +1,24 @@
 import { useEffect } from 'react';
 import { Link } from 'react-router-dom';
+import { addDays, format, parseISO } from 'date-fns';
 import { ArrowRight, MapPin, Phone, Clock } from 'lucide-react';
 import { Layout } from '@/components/layout/Layout';
 import { ProductGrid } from '@/components/products/ProductGrid';
 import { Button } from '@/components/ui/button';
 import { storeInfo } from '@/data/storeInfo';
-import { prefetchFloorSamplesPage, useFeaturedProducts } from '@/hooks/useProducts';
+import { prefetchCatalogPage, useFeaturedProducts } from '@/hooks/useProducts';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { formatExceptionHours, summarizeWeeklyHours } from '@/types/store-hours';
 import { BookAppointmentButton } from '@/components/appointment/BookAppointmentButton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const Index = () => {
   const { featuredProducts, newArrivals, onSale, staffPicks, isLoading } = useFeaturedProducts();
+  const { hours } = useStoreHours();
+  // Holidays and special hours coming up in the next month
+  const upcomingExceptions = (hours?.exceptions ?? []).filter(
+    (exception) => exception.date <= format(addDays(new Date(), 30), 'yyyy-MM-dd')
+  );
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -23,7 +31,7 @@ const Index = () => {
     if (connection?.saveData || isSlowConnection) return;
 
     const prefetch = () => {
-      prefetchFloorSamplesPage(1, 12);
+      prefetchCatalogPage('floor_sample', 1, 12);
     };
 
     const win = window as Window & {
@@ -96,7 +104,10 @@ const Index = () => {
               <Clock className="h-5 w-5 shrink-0 text-gray-800" />
               <div className="text-sm">
                 <p className="font-semibold text-gray-900">Store Hours</p>
-                <p className="text-gray-700">{storeInfo.hoursShort.open}</p>
+                {hours &&
+                  summarizeWeeklyHours(hours.weekly, true).map((line) => (
+                    <p key={line} className="text-gray-700">{line}</p>
+                  ))}
               </div>
             </div>
             <div className="flex items-center gap-3 rounded-lg border border-white/30 bg-white/95 backdrop-blur-md p-4 shadow-xl">
@@ -226,8 +237,15 @@ const Index = () => {
                   </div>
                   <div>
                     <p className="font-medium text-foreground">Hours</p>
-                    <p className="text-muted-foreground">{storeInfo.hours.weekdays}</p>
-                    <p className="text-muted-foreground">{storeInfo.hours.sunday}</p>
+                    {hours &&
+                      summarizeWeeklyHours(hours.weekly).map((line) => (
+                        <p key={line} className="text-muted-foreground">{line}</p>
+                      ))}
+                    {upcomingExceptions.map((exception) => (
+                      <p key={exception.id} className="text-sm font-medium text-foreground">
+                        {format(parseISO(exception.date), 'EEE, MMM d')} – {formatExceptionHours(exception)}
+                      </p>
+                    ))}
                   </div>
                 </div>
                 <div className="flex items-start gap-4">
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, Loader2, MapPin, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/layout/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { AppointmentSlotPicker } from '@/components/appointment/AppointmentSlotPicker';
+import { storeInfo } from '@/data/storeInfo';
+import { getFunctionErrorMessage } from '@/lib/function-errors';
+import { AppointmentStatus, APPOINTMENT_STATUS_LABELS, formatAppointmentTime } from '@/types/appointment';
+
+// What manage-appointment returns; the token only unlocks these fields
+interface ManagedAppointment {
+  name: string;
+  appointment_date: string;
+  appointment_time: string;
+  status: AppointmentStatus;
+}
+
+type ManageAction = 'get' | 'cancel' | 'reschedule';
+
+const callManageAppointment = async (
+  token: string,
+  action: ManageAction,
+  slot?: { appointment_date: string; appointment_time: string }
+): Promise<{ appointment: ManagedAppointment; manageToken?: string }> => {
+  const { data, error } = await supabase.functions.invoke('manage-appointment', {
+    body: { token, action, ...slot },
+  });
+  if (error) throw error;
+  // A reschedule comes with a new link; the old one expires with the old time
+  return { appointment: data.appointment as ManagedAppointment, manageToken: data.manage_token };
+};
+
+const ManageAppointment = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [appointment, setAppointment] = useState<ManagedAppointment | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [newDate, setNewDate] = useState<Date | undefined>();
+  const [newTime, setNewTime] = useState('');
+  const [pendingAction, setPendingAction] = useState<ManageAction | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    setIsLoading(true);
+    callManageAppointment(token, 'get')
+      .then((loaded) => {
+        if (isActive) setAppointment(loaded.appointment);
+      })
+      .catch(async (err) => {
+        const message = await getFunctionErrorMessage(err, 'Failed to load your appointment');
+        if (isActive) setLoadError(message);
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [token]);
+
+  const runAction = async (action: 'cancel' | 'reschedule') => {
+    setPendingAction(action);
+    try {
+      const updated = await callManageAppointment(
+        token,
+        action,
+        action === 'reschedule' && newDate
+          ? { appointment_date: format(newDate, 'yyyy-MM-dd'), appointment_time: newTime }
+          : undefined
+      );
+      setAppointment(updated.appointment);
+      if (updated.manageToken) navigate(`/appointment/${updated.manageToken}`, { replace: true });
+      setIsRescheduling(false);
+      setNewDate(undefined);
+      setNewTime('');
+      toast.success(
+        action === 'cancel'
+          ? 'Your appointment has been cancelled.'
+          : 'Your appointment has been moved. We will confirm the new time shortly.'
+      );
+    } catch (err) {
+      toast.error(
+        await getFunctionErrorMessage(
+          err,
+          action === 'cancel' ? 'Failed to cancel appointment' : 'Failed to reschedule appointment'
+        )
+      );
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const canChange =
+    !!appointment && (appointment.status === 'pending' || appointment.status === 'confirmed');
+  const isBusy = pendingAction !== null;
+
+  return (
+    <Layout>
+      <div className="container mx-auto max-w-xl px-4 py-12">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : loadError || !appointment ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Appointment not found</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-muted-foreground">
+              <p>{loadError}</p>
+              <p>
+                Please call us at{' '}
+                <a href={`tel:${storeInfo.phone}`} className="text-foreground underline">
+                  {storeInfo.phone}
+                </a>{' '}
+                and we will be happy to help.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your appointment</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <p className="text-muted-foreground">Hi {appointment.name},</p>
+                <div className="flex items-start gap-3">
+                  <CalendarClock className="mt-0.5 h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p
+                      className={
+                        appointment.status === 'cancelled'
+                          ? 'font-medium text-muted-foreground line-through'
+                          : 'font-medium text-foreground'
+                      }
+                    >
+                      {format(parseISO(appointment.appointment_date), 'EEEE, MMMM d, yyyy')} at{' '}
+                      {formatAppointmentTime(appointment.appointment_time)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Status: {APPOINTMENT_STATUS_LABELS[appointment.status]}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-start gap-3">
+                  <MapPin className="mt-0.5 h-5 w-5 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">{storeInfo.fullAddress}</p>
+                </div>
+              </div>
+
+              {canChange ? (
+                isRescheduling ? (
+                  <div className="space-y-4 border-t border-border pt-6">
+                    <AppointmentSlotPicker
+                      date={newDate}
+                      onDateChange={setNewDate}
+                      time={newTime}
+                      onTimeChange={setNewTime}
+                      disabled={isBusy}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => setIsRescheduling(false)}
+                        disabled={isBusy}
+                      >
+                        Back
+                      </Button>
+                      <Button
+                        className="flex-1"
+                        onClick={() => runAction('reschedule')}
+                        disabled={isBusy || !newDate || !newTime}
+                      >
+                        {pendingAction === 'reschedule' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Confirm new time
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-2 border-t border-border pt-6 sm:flex-row">
+                    <Button className="flex-1" onClick={() => setIsRescheduling(true)} disabled={isBusy}>
+                      <CalendarClock className="mr-2 h-4 w-4" />
+                      Reschedule
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" className="flex-1" disabled={isBusy}>
+                          {pendingAction === 'cancel' ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <XCircle className="mr-2 h-4 w-4" />
+                          )}
+                          Cancel appointment
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Cancel this appointment?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Your time slot will be released. You can always book a new visit later.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep it</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => runAction('cancel')}>
+                            Cancel appointment
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )
+              ) : (
+                <p className="border-t border-border pt-6 text-sm text-muted-foreground">
+                  This appointment can no longer be changed online.{' '}
+                  <Link to="/" className="text-foreground underline">
+                    Back to the store
+                  </Link>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ManageAppointment;
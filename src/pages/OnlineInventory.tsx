@@ -1,18 +1,16 @@
 import { Layout } from '@/components/layout/Layout';
+import { ProductCatalog } from '@/components/products/ProductCatalog';
 
 const OnlineInventory = () => {
   return (
     <Layout>
-      <div className="container flex min-h-[60vh] items-center justify-center py-12 md:py-16">
-        <div className="text-center">
-          <h1 className="text-4xl font-semibold text-foreground md:text-5xl">
-            Coming Soon!
-          </h1>
-          <p className="mt-4 text-lg text-muted-foreground">
-            Our online inventory is currently being prepared. Check back later!
-          </p>
-        </div>
-      </div>
+      <ProductCatalog
+        category="online_inventory"
+        title="Online Inventory – Order for Delivery"
+        description="Pieces we carry through our suppliers. In-stock items ship from our warehouse; anything else is a special order that we purchase for you and deliver once it arrives."
+        countLabel="items available to order"
+        dotClassName="bg-blue-500"
+      />
     </Layout>
   );
 };
@@ -4,12 +4,18 @@ import { Layout } from '@/components/layout/Layout';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useProductById } from '@/hooks/useProducts';
+import { useStoreHours } from '@/hooks/useStoreHours';
+import { summarizeWeeklyHours } from '@/types/store-hours';
+import { STOCK_STATUS_LABELS, getStockStatus } from '@/types/product';
 import { storeInfo } from '@/data/storeInfo';
 import { ProductGallery } from '@/components/products/ProductGallery';
+import { ProductSpecsTable } from '@/components/products/ProductSpecsTable';
+import { BookAppointmentButton } from '@/components/appointment/BookAppointmentButton';
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const { product, parentSet, setChildren, isLoading } = useProductById(id);
+  const { hours } = useStoreHours();
 
   if (isLoading) {
     return (
@@ -50,12 +56,16 @@ const ProductDetail = () => {
 
   const hasDiscount = product.discountPercent > 0;
   const isFloorSample = product.category === 'floor_sample';
+  const isOnHold = product.status === 'on_hold';
+  const stockStatus = getStockStatus(product);
   const isSetProduct = !!product.isSet || (product.setItems && product.setItems.length > 0);
   const legacySetItems = product.setItems || [];
   const hasSetChildren = setChildren.length > 0;
   const includedItemsTotal = hasSetChildren
     ? setChildren.reduce((sum, item) => sum + item.priceFinal, 0)
     : legacySetItems.reduce((sum, item) => sum + (item.price || 0), 0);
+  // A set's pieces are listed too so staff can pull all of them forward
+  const viewingProducts = [product, ...setChildren].slice(0, 10);
   const setSavings =
     includedItemsTotal > 0 && includedItemsTotal > product.priceFinal
       ? includedItemsTotal - product.priceFinal
@@ -91,6 +101,7 @@ const ProductDetail = () => {
               <Badge variant={isFloorSample ? 'default' : 'secondary'}>
                 {isFloorSample ? 'Floor Sample' : 'Online Inventory'}
               </Badge>
+              {isOnHold && <Badge variant="outline">On Hold</Badge>}
               {product.tags.includes('new') && <Badge variant="accent">New Arrival</Badge>}
               {product.tags.includes('staff_pick') && (
                 <Badge variant="outline">Staff Pick</Badge>
@@ -127,12 +138,24 @@ const ProductDetail = () => {
                 <Tag className="mt-0.5 h-5 w-5 shrink-0 text-muted-foreground" />
                 <div>
                   <p className="font-medium text-foreground">
-                    {isFloorSample ? 'Available Now' : 'Made to Order'}
+                    {isOnHold
+                      ? 'On Hold'
+                      : isFloorSample
+                        ? 'Available Now'
+                        : stockStatus
+                          ? STOCK_STATUS_LABELS[stockStatus]
+                          : 'Made to Order'}
                   </p>
                   <p className="mt-1 text-sm text-muted-foreground">
-                    {isFloorSample
-                      ? 'This item is in our showroom. Visit us to see it in person, purchase, and take it home or schedule delivery.'
-                      : 'This item must be ordered first. Once you place an order, we purchase it from our supplier and deliver it to you.'}
+                    {isOnHold
+                      ? 'This item is being held for another customer. Contact us and we will let you know if it comes back on sale.'
+                      : isFloorSample
+                        ? 'This item is in our showroom. Visit us to see it in person, purchase, and take it home or schedule delivery.'
+                        : stockStatus === 'in_stock'
+                          ? 'This item is in our warehouse and ready to deliver.'
+                          : stockStatus === 'low_stock'
+                            ? 'Only a few left in our warehouse. Order soon to get yours.'
+                            : 'This item must be ordered first. Once you place an order, we purchase it from our supplier and deliver it to you.'}
                   </p>
                 </div>
               </div>
@@ -146,6 +169,8 @@ const ProductDetail = () => {
               </p>
             </div>
 
+            {product.specs && <ProductSpecsTable specs={product.specs} />}
+
             {/* Set items */}
             {isSetProduct && (hasSetChildren || legacySetItems.length > 0) && (
               <div className="mt-8 rounded-lg border border-border bg-secondary/20 p-4">
@@ -249,6 +274,9 @@ const ProductDetail = () => {
                   Call to Purchase – {storeInfo.phone}
                 </a>
               </Button>
+              <BookAppointmentButton variant="outline" size="lg" className="w-full" products={viewingProducts}>
+                Book a Viewing
+              </BookAppointmentButton>
               {isFloorSample && (
                 <Button variant="outline" size="lg" className="w-full" asChild>
                   <a
@@ -265,11 +293,13 @@ const ProductDetail = () => {
 
             {/* Store info */}
             <div className="mt-8 rounded-lg border border-border p-4 text-sm">
+              {hours && (
+                <div className="mb-2 flex items-center gap-2 text-muted-foreground">
+                  <Clock className="h-4 w-4" />
+                  <span>{summarizeWeeklyHours(hours.weekly).join(' · ')}</span>
+                </div>
+              )}
               <div className="flex items-center gap-2 text-muted-foreground">
-                <Clock className="h-4 w-4" />
-                <span>{storeInfo.hours.weekdays}</span>
-              </div>
-              <div className="mt-2 flex items-center gap-2 text-muted-foreground">
                 <MapPin className="h-4 w-4" />
                 <span>{storeInfo.fullAddress}</span>
               </div>
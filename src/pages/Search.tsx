@@ -0,0 +1,40 @@
+import { useSearchParams } from 'react-router-dom';
+import { Layout } from '@/components/layout/Layout';
+import { ProductGrid } from '@/components/products/ProductGrid';
+import { useProductSearch } from '@/hooks/useProducts';
+
+// The search RPC returns at most 100 results
+const RESULT_LIMIT = 60;
+
+const Search = () => {
+  const [searchParams] = useSearchParams();
+  const query = (searchParams.get('q') ?? '').trim();
+  const { products, isLoading, error } = useProductSearch(query, RESULT_LIMIT);
+
+  return (
+    <Layout>
+      <div className="container py-12 md:py-16">
+        <div className="mb-8">
+          <h1 className="text-3xl font-semibold text-foreground md:text-4xl">
+            {query ? `Results for "${query}"` : 'Search'}
+          </h1>
+          <p className="mt-3 text-muted-foreground">
+            {!query
+              ? 'Type in the search box above to find furniture by name, category or style.'
+              : isLoading
+                ? 'Searching...'
+                : `${products.length}${products.length === RESULT_LIMIT ? '+' : ''} ${products.length === 1 ? 'item' : 'items'} found`}
+          </p>
+        </div>
+
+        {error ? (
+          <p className="py-8 text-center text-destructive">{error}</p>
+        ) : (
+          query && <ProductGrid products={products} isLoading={isLoading} />
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Search;
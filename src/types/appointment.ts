@@ -0,0 +1,74 @@
+export type AppointmentStatus = 'pending' | 'confirmed' | 'completed' | 'no_show' | 'cancelled';
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  no_show: 'No-show',
+  cancelled: 'Cancelled',
+};
+
+export interface Appointment {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  date: string; // YYYY-MM-DD, store local
+  time: string; // HH:mm, store local
+  notes: string; // From the customer
+  internalNotes: string; // Staff only
+  status: AppointmentStatus;
+  consultantId: string | null;
+  productIds: string[]; // What the customer wants to see
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Just enough of a product to show a thumbnail and link to it
+export interface AppointmentProduct {
+  id: string;
+  name: string;
+  mainImageUrl: string;
+}
+
+export interface Consultant {
+  id: string;
+  name: string;
+  title: string;
+  isActive: boolean;
+}
+
+// One weekday of a consultant's availability; days without a shift are off
+export interface ConsultantShift {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string; // HH:mm, store local
+  endTime: string;
+}
+
+export type BookingBlockReason = 'honeypot' | 'challenge' | 'ip_rate_limit' | 'email_rate_limit' | 'active_booking_cap';
+
+export const BOOKING_BLOCK_REASON_LABELS: Record<BookingBlockReason, string> = {
+  honeypot: 'Bot (hidden field filled)',
+  challenge: 'Failed verification',
+  ip_rate_limit: 'Too many attempts from IP',
+  email_rate_limit: 'Too many attempts for email',
+  active_booking_cap: 'Too many upcoming bookings',
+};
+
+// A booking request that book-appointment turned away
+export interface BlockedBookingAttempt {
+  id: string;
+  ip: string | null;
+  email: string;
+  phone: string;
+  reason: BookingBlockReason;
+  createdAt: string;
+}
+
+// 'HH:mm' -> '2:30 PM'
+export function formatAppointmentTime(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  const period = h >= 12 ? 'PM' : 'AM';
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  return `${h12}:${m.toString().padStart(2, '0')} ${period}`;
+}
@@ -2,9 +2,117 @@ export type ProductCategory = 'floor_sample' | 'online_inventory';
 
 export type ProductTag = 'new' | 'sale' | 'staff_pick';
 
+// Floor samples are one-of-a-kind. Held ones stay on the storefront with a badge;
+// reserved (deposit on an invoice), sold and removed ones are hidden.
+export type ProductStatus = 'available' | 'on_hold' | 'reserved' | 'sold' | 'removed';
+
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  available: 'Available',
+  on_hold: 'On Hold',
+  reserved: 'Reserved',
+  sold: 'Sold',
+  removed: 'Removed',
+};
+
+// Statuses the public catalog lists
+export const STOREFRONT_PRODUCT_STATUSES: ProductStatus[] = ['available', 'on_hold'];
+
+// Who an on-hold product is set aside for. Admin-only; never loaded on the storefront.
+export interface ProductHold {
+  customer: string;
+  heldUntil: string; // Last day of the hold (yyyy-MM-dd, store time)
+}
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'backorder';
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  in_stock: 'In Stock',
+  low_stock: 'Low Stock',
+  backorder: 'Backorder',
+};
+
+// Matches the products.low_stock_threshold column default
+export const DEFAULT_LOW_STOCK_THRESHOLD = 2;
+
+// Storefront availability for online inventory; null for floor samples
+export function getStockStatus(product: Product): StockStatus | null {
+  if (product.category !== 'online_inventory' || product.stockQuantity === undefined) return null;
+  if (product.stockQuantity <= 0) return 'backorder';
+  if (product.stockQuantity <= (product.lowStockThreshold ?? 0)) return 'low_stock';
+  return 'in_stock';
+}
+
+export type StockMovementReason = 'received' | 'sold' | 'adjusted' | 'returned';
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  received: 'Received',
+  sold: 'Sold',
+  adjusted: 'Adjusted',
+  returned: 'Returned',
+};
+
+// Warehouse or back room stock is kept in
+export interface StockLocation {
+  id: string;
+  name: string;
+}
+
+// Quantity of one product at one location (null: recorded without a location)
+export interface StockLevel {
+  locationId: string | null;
+  quantity: number;
+}
+
+// One entry in a product's stock ledger
+export interface StockMovement {
+  id: string;
+  locationId: string | null;
+  quantityChange: number;
+  reason: StockMovementReason;
+  invoiceId: string | null;
+  note: string;
+  createdAt: string;
+}
+
 // Product categories for classification
 export type ProductType = 'sofa_set' | 'dining_set' | 'bedroom_set' | 'accessories' | string;
 
+// Storefront names for the category filter ids; products store the label in product_type
+export const PRODUCT_TYPE_LABELS: Record<string, string> = {
+  bedroom_set: 'Bedroom Set',
+  dining_set: 'Dining Set',
+  sofa_set: 'Sofa Set',
+  accessories: 'Accessories',
+};
+
+// Guards URL and user input; a plain lookup would also match 'constructor'
+export const isProductTypeId = (value: string) => Object.prototype.hasOwnProperty.call(PRODUCT_TYPE_LABELS, value);
+
+// Catalog listing filters, applied in the database query. Every field narrows the result.
+export interface CatalogFilters {
+  productType?: string; // Category filter id, e.g. 'dining_set'
+  subcategory?: string;
+  minPrice?: number; // Final (discounted) price
+  maxPrice?: number;
+  tags?: ProductTag[]; // Products must have all of them
+  // Inches; products without the measurement are left out
+  maxWidthIn?: number;
+  maxDepthIn?: number;
+  maxHeightIn?: number;
+}
+
+// Catalog listing order, applied in the database query. Featured puts sets
+// first, then the newest items.
+export type CatalogSort = 'featured' | 'price_asc' | 'price_desc' | 'discount' | 'newest';
+
+export const CATALOG_SORT_LABELS: Record<CatalogSort, string> = {
+  featured: 'Featured',
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  discount: 'Biggest Discount',
+  newest: 'Newest',
+};
+
 // Set item for product bundles
 export interface SetItem {
   id: string;
@@ -15,6 +123,18 @@ export interface SetItem {
   childProductId?: string;
 }
 
+// Structured specifications, all optional. Stored in inches and pounds; the
+// storefront can show them in cm and kg.
+export interface ProductSpecs {
+  widthIn?: number;
+  depthIn?: number;
+  heightIn?: number;
+  seatHeightIn?: number;
+  material?: string;
+  color?: string;
+  weightLb?: number;
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -33,12 +153,20 @@ export interface Product {
   mainImageUrl: string;
   imageUrls?: string[]; // Multiple images support
   setItems?: SetItem[];
+  status?: ProductStatus;
+  hold?: ProductHold;
+  // Online inventory only; floor samples are one-of-a-kind. Unset until stock
+  // is first recorded.
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  specs?: ProductSpecs;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface InvoiceLineItem {
   id: string;
+  productId?: string; // Catalog product this line sells, if picked from the catalog
   source: string;
   itemNo: string;
   description: string;
@@ -46,29 +174,79 @@ export interface InvoiceLineItem {
   unitPrice: number;
   discountPercent: number;
   lineAmount: number;
+  taxable: boolean;
+}
+
+export type PaymentMethod = 'cash' | 'debit_card' | 'credit_card' | 'check' | 'store_credit';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  debit_card: 'Debit',
+  credit_card: 'Credit',
+  check: 'Check',
+  store_credit: 'Store Credit',
+};
+
+// Sales tax rate and rules, editable in admin settings
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  rate: number; // Fraction, e.g. 0.0625
+  taxDelivery: boolean;
+  isDefault: boolean;
+}
+
+// One entry in an invoice's payment ledger
+export interface InvoicePayment {
+  id: string;
+  date: string;
+  method: PaymentMethod;
+  amount: number;
+  note: string;
 }
 
-export type PaymentMethod = 'cash' | 'debit_card' | 'credit_card';
+export type InvoiceStatus = 'draft' | 'finalized';
+
+// One attempt to email an invoice to the customer
+export interface InvoiceEmail {
+  id: string;
+  recipient: string;
+  status: 'sent' | 'failed';
+  provider?: string;
+  providerMessageId?: string;
+  error?: string;
+  sentAt: string;
+}
 
 export interface Invoice {
   id: string;
   orderNumber: number;
+  status: InvoiceStatus;
   date: string;
   billToName: string;
   billToAddress: string;
   billToPhone: string;
+  billToEmail: string;
   shipToName: string;
   shipToAddress: string;
   shipToPhone: string;
   sameAsBillTo: boolean;
   lineItems: InvoiceLineItem[];
   deliveryCharges: number;
+  // Tax snapshot - copied from the jurisdiction when the invoice is written
+  taxJurisdictionId?: string;
+  taxJurisdictionName: string;
+  taxRate: number;
+  deliveryTaxable: boolean;
+  taxExempt: boolean;
+  taxExemptCertificate: string;
   subtotal: number;
   salesTax: number;
   total: number;
-  paymentMethod: PaymentMethod;
-  amountPaid: number;
-  balance: number;
+  payments: InvoicePayment[];
+  amountPaid: number; // Sum of payments
+  balance: number; // total - amountPaid
+  finalizedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -90,8 +268,42 @@ export function calculateLineAmount(quantity: number, unitPrice: number, discoun
   return subtotal * (1 - discountPercent / 100);
 }
 
-// Sales tax rate for Massachusetts
-export const SALES_TAX_RATE = 0.0625;
+export interface InvoiceTotalsInput {
+  lineItems: InvoiceLineItem[];
+  deliveryCharges: number;
+  taxRate: number;
+  deliveryTaxable: boolean;
+  taxExempt: boolean;
+}
+
+// Helper function to calculate invoice subtotal, tax and total
+export function calculateInvoiceTotals({
+  lineItems,
+  deliveryCharges,
+  taxRate,
+  deliveryTaxable,
+  taxExempt,
+}: InvoiceTotalsInput) {
+  const itemsSubtotal = lineItems.reduce((sum, item) => sum + item.lineAmount, 0);
+  const subtotal = itemsSubtotal + deliveryCharges;
+  const taxableAmount =
+    lineItems.filter((item) => item.taxable).reduce((sum, item) => sum + item.lineAmount, 0) +
+    (deliveryTaxable ? deliveryCharges : 0);
+  const salesTax = taxExempt ? 0 : Math.round(taxableAmount * taxRate * 100) / 100;
+
+  return {
+    itemsSubtotal,
+    subtotal,
+    taxableAmount,
+    salesTax,
+    total: subtotal + salesTax,
+  };
+}
+
+// Format a tax rate fraction as a percentage label, e.g. 0.0625 -> "6.25%"
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(4))}%`;
+}
 
 // Default product categories and subcategories
 export interface CategoryConfig {
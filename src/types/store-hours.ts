@@ -0,0 +1,80 @@
+// Times are HH:mm, store local. Weekdays follow getDay(): 0 = Sunday.
+export interface BusinessHours {
+  dayOfWeek: number;
+  isOpen: boolean;
+  openTime: string | null;
+  closeTime: string | null;
+  slotCapacity: number; // Appointments allowed per slot
+}
+
+// Replaces the weekly schedule for one date (holiday closure or special hours)
+export interface StoreHoursException {
+  id: string;
+  date: string; // YYYY-MM-DD
+  isClosed: boolean;
+  openTime: string | null;
+  closeTime: string | null;
+  label: string;
+}
+
+// How soon and how far ahead customers can book, in the store's time zone
+export interface BookingWindow {
+  minLeadHours: number;
+  maxHorizonDays: number;
+}
+
+export interface StoreHours {
+  weekly: BusinessHours[];
+  exceptions: StoreHoursException[];
+  bookingWindow: BookingWindow;
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DAY_NAMES_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Monday first, the way the store lists its week
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// 'HH:mm' -> '11:00 AM', or '11AM' / '5:30PM' when short
+export function formatHoursTime(time: string, short = false): string {
+  const [h, m] = time.split(':').map(Number);
+  const period = h >= 12 ? 'PM' : 'AM';
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  if (short) return m === 0 ? `${h12}${period}` : `${h12}:${m.toString().padStart(2, '0')}${period}`;
+  return `${h12}:${m.toString().padStart(2, '0')} ${period}`;
+}
+
+function formatRange(openTime: string | null, closeTime: string | null, short: boolean) {
+  if (!openTime || !closeTime) return 'Closed';
+  return `${formatHoursTime(openTime, short)} – ${formatHoursTime(closeTime, short)}`;
+}
+
+// Groups consecutive days with the same hours:
+// long  -> ['Monday – Saturday: 11:00 AM – 5:00 PM', 'Sunday: Closed']
+// short -> ['Mon-Sat: 11AM – 5PM', 'Sun: Closed']
+export function summarizeWeeklyHours(weekly: BusinessHours[], short = false): string[] {
+  const names = short ? DAY_NAMES_SHORT : DAY_NAMES;
+  const groups: { first: number; last: number; range: string }[] = [];
+
+  for (const dayOfWeek of WEEK_ORDER) {
+    const day = weekly.find((d) => d.dayOfWeek === dayOfWeek);
+    const range = day?.isOpen ? formatRange(day.openTime, day.closeTime, short) : 'Closed';
+    const previous = groups[groups.length - 1];
+    if (previous && previous.range === range) {
+      previous.last = dayOfWeek;
+    } else {
+      groups.push({ first: dayOfWeek, last: dayOfWeek, range });
+    }
+  }
+
+  return groups.map(({ first, last, range }) => {
+    const days = first === last ? names[first] : `${names[first]}${short ? '-' : ' – '}${names[last]}`;
+    return `${days}: ${range}`;
+  });
+}
+
+// 'Thanksgiving: Closed' or 'Christmas Eve: 11:00 AM – 2:00 PM'
+export function formatExceptionHours(exception: StoreHoursException, short = false): string {
+  const hours = exception.isClosed ? 'Closed' : formatRange(exception.openTime, exception.closeTime, short);
+  return exception.label ? `${exception.label}: ${hours}` : hours;
+}
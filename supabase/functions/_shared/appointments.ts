@@ -0,0 +1,214 @@
+import { encodeBase64 } from 'https://deno.land/std@0.224.0/encoding/base64.ts';
+import { decodeBase64Url, encodeBase64Url } from 'https://deno.land/std@0.224.0/encoding/base64url.ts';
+import { buildIcsEvent } from './ics.ts';
+import { MailAttachment, MailResult, escapeHtml, sendMail } from './mail.ts';
+import { STORE_ADDRESS, STORE_NAME, STORE_PHONE, getNotifyEmail, getSiteUrl } from './store.ts';
+import { zonedDateTimeToUtc } from './time.ts';
+
+export const APPOINTMENT_DURATION_MINUTES = 30;
+
+export interface CustomerAppointment {
+  id: string;
+  name: string;
+  email: string;
+  appointment_date: string; // YYYY-MM-DD
+  appointment_time: string; // HH:mm[:ss]
+  // Bumped on every customer reschedule; used as the calendar event SEQUENCE
+  reschedule_count?: number;
+}
+
+export type CustomerEmailKind = 'confirmation' | 'rescheduled' | 'cancelled' | 'reminder';
+
+// 'YYYY-MM-DD' -> 'Tuesday, March 4, 2026'
+export const formatAppointmentDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+
+// 'HH:mm' -> '2:30 PM'
+export const formatAppointmentTime = (time: string) => {
+  const [hh, mm] = time.split(':').map(Number);
+  const period = hh >= 12 ? 'PM' : 'AM';
+  const h12 = hh % 12 === 0 ? 12 : hh % 12;
+  return `${h12}:${mm.toString().padStart(2, '0')} ${period}`;
+};
+
+// ---- Manage links ----
+// The link token is "<appointment id>.<expiry>.<HMAC of both>", so links can be
+// checked without storing anything and can't be guessed from an id alone. The
+// expiry (Unix seconds) is a day after the appointment; a reschedule issues a
+// new link for the new time.
+
+const MANAGE_LINK_GRACE_MS = 24 * 60 * 60_000;
+
+type ManagedSlot = Pick<CustomerAppointment, 'id' | 'appointment_date' | 'appointment_time'>;
+
+const getLinkKey = () => {
+  // No fallback to another key: links are simply not issued until this is set
+  const secret = Deno.env.get('APPOINTMENT_LINK_SECRET')?.trim();
+  if (!secret) throw new Error('APPOINTMENT_LINK_SECRET is not set');
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+};
+
+export const createManageToken = async (appointment: ManagedSlot) => {
+  const start = zonedDateTimeToUtc(appointment.appointment_date, appointment.appointment_time.slice(0, 5));
+  const expiresAt = Math.floor((start.getTime() + MANAGE_LINK_GRACE_MS) / 1000);
+  const payload = `${appointment.id}.${expiresAt}`;
+  const signature = await crypto.subtle.sign('HMAC', await getLinkKey(), new TextEncoder().encode(payload));
+  return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+// Returns the appointment id, or null when the token was not issued by us or
+// has expired
+export const verifyManageToken = async (token: string) => {
+  const [appointmentId, expiresAt, signature, ...rest] = token.split('.');
+  if (!appointmentId || !/^\d+$/.test(expiresAt ?? '') || !signature || rest.length > 0) return null;
+  if (Number(expiresAt) * 1000 < Date.now()) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getLinkKey(),
+      decodeBase64Url(signature),
+      new TextEncoder().encode(`${appointmentId}.${expiresAt}`)
+    );
+    return valid ? appointmentId : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getManageUrl = async (appointment: ManagedSlot) =>
+  `${getSiteUrl()}/appointment/${await createManageToken(appointment)}`;
+
+// ---- Customer emails ----
+
+export const buildAppointmentIcsAttachment = (
+  appointment: CustomerAppointment,
+  manageUrl: string,
+  cancelled = false
+): MailAttachment => {
+  const start = zonedDateTimeToUtc(appointment.appointment_date, appointment.appointment_time.slice(0, 5));
+  const ics = buildIcsEvent({
+    uid: `appointment-${appointment.id}@vmodernfurniture.com`,
+    start,
+    end: new Date(start.getTime() + APPOINTMENT_DURATION_MINUTES * 60_000),
+    summary: `Appointment at ${STORE_NAME}`,
+    description: `Showroom appointment for ${appointment.name}.\nCancel or reschedule: ${manageUrl}`,
+    location: STORE_ADDRESS,
+    url: manageUrl,
+    // A cancellation must outrank the last version the customer received
+    sequence: (appointment.reschedule_count ?? 0) + (cancelled ? 1 : 0),
+    cancelled,
+  });
+
+  return {
+    filename: 'appointment.ics',
+    content: encodeBase64(new TextEncoder().encode(ics)),
+    contentType: 'text/calendar; charset=utf-8',
+  };
+};
+
+const CUSTOMER_EMAIL_COPY: Record<CustomerEmailKind, { subject: string; heading: string; intro: string }> = {
+  confirmation: {
+    subject: 'Your appointment is booked',
+    heading: 'Your appointment is booked',
+    intro: 'Thanks for booking a visit to our showroom. Here are the details:',
+  },
+  rescheduled: {
+    subject: 'Your appointment has been moved',
+    heading: 'Your appointment has been moved',
+    intro: 'Your showroom appointment now takes place at the new time below:',
+  },
+  cancelled: {
+    subject: 'Your appointment has been cancelled',
+    heading: 'Your appointment has been cancelled',
+    intro: 'We have cancelled the following showroom appointment:',
+  },
+  reminder: {
+    subject: 'Reminder: your appointment is tomorrow',
+    heading: 'See you tomorrow',
+    intro: 'This is a reminder about your showroom appointment tomorrow:',
+  },
+};
+
+export const buildCustomerAppointmentEmail = (
+  kind: CustomerEmailKind,
+  appointment: CustomerAppointment,
+  manageUrl: string
+) => {
+  const copy = CUSTOMER_EMAIL_COPY[kind];
+  const isCancelled = kind === 'cancelled';
+  const prettyDate = formatAppointmentDate(appointment.appointment_date);
+  const prettyTime = formatAppointmentTime(appointment.appointment_time);
+  const subject = `${copy.subject} - ${STORE_NAME}`;
+
+  const text = [
+    `Hi ${appointment.name},`,
+    '',
+    copy.intro,
+    '',
+    `Date: ${prettyDate}`,
+    `Time: ${prettyTime}`,
+    `Where: ${STORE_ADDRESS}`,
+    '',
+    isCancelled ? `Want to book another visit? ${getSiteUrl()}` : `Need to cancel or reschedule? ${manageUrl}`,
+    '',
+    STORE_NAME,
+    STORE_ADDRESS,
+    STORE_PHONE,
+  ].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111827;">
+      <h2 style="margin: 0 0 16px;">${copy.heading}</h2>
+      <p>Hi ${escapeHtml(appointment.name)},</p>
+      <p>${copy.intro}</p>
+      <table style="border-collapse: collapse; width: 100%; max-width: 560px;">
+        <tr><td style="padding: 6px 0; font-weight: 700;">Date</td><td>${escapeHtml(prettyDate)}</td></tr>
+        <tr><td style="padding: 6px 0; font-weight: 700;">Time</td><td>${escapeHtml(prettyTime)}</td></tr>
+        <tr><td style="padding: 6px 0; font-weight: 700;">Where</td><td>${STORE_ADDRESS}</td></tr>
+      </table>
+      <p style="margin-top: 20px;">
+        ${
+          isCancelled
+            ? `<a href="${escapeHtml(getSiteUrl())}" style="color: #111827; font-weight: 700;">Book another visit</a>`
+            : `<a href="${escapeHtml(manageUrl)}" style="color: #111827; font-weight: 700;">Cancel or reschedule</a>`
+        }
+      </p>
+      <p style="margin-top: 20px; color: #4b5563;">
+        ${STORE_NAME}<br />
+        ${STORE_ADDRESS}<br />
+        ${STORE_PHONE}
+      </p>
+    </div>
+  `;
+
+  return { subject, text, html };
+};
+
+// Idempotency keys cover the appointment, kind and slot, so retries never
+// double-send but a rescheduled appointment still gets fresh emails
+export const sendCustomerAppointmentEmail = async (
+  kind: CustomerEmailKind,
+  appointment: CustomerAppointment
+): Promise<MailResult> => {
+  const manageUrl = await getManageUrl(appointment);
+  const email = buildCustomerAppointmentEmail(kind, appointment, manageUrl);
+
+  return sendMail({
+    to: appointment.email,
+    replyTo: getNotifyEmail(),
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    idempotencyKey: `appointment-${kind}-${appointment.id}-${appointment.appointment_date}-${appointment.appointment_time.slice(0, 5)}`,
+    attachments: [buildAppointmentIcsAttachment(appointment, manageUrl, kind === 'cancelled')],
+  });
+};
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+
+// Limits for the public booking endpoint live in record_booking_attempt, which
+// checks and records each attempt in one transaction.
+
+export type LimitReason = 'ip_rate_limit' | 'email_rate_limit' | 'active_booking_cap';
+export type BlockReason = 'honeypot' | 'challenge' | LimitReason;
+
+export interface BookingAttempt {
+  ip: string | null;
+  email: string;
+  phone: string;
+}
+
+// The first X-Forwarded-For entry is whatever the client sent, so only headers
+// set by the edge, or the hop the gateway appended last, can be trusted
+export const getClientIp = (req: Request) =>
+  req.headers.get('cf-connecting-ip')?.trim() ||
+  req.headers.get('x-real-ip')?.trim() ||
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() ||
+  null;
+
+// Records the attempt and returns why it was blocked, or null when the booking
+// may go ahead. blockedAs marks an attempt already blocked before the limits.
+// Throws when the attempt can't be checked.
+export const recordAttempt = async (
+  supabase: SupabaseClient,
+  attempt: BookingAttempt,
+  blockedAs: 'honeypot' | 'challenge' | null = null
+): Promise<BlockReason | null> => {
+  const { data, error } = await supabase.rpc('record_booking_attempt', {
+    _ip: attempt.ip,
+    _email: attempt.email,
+    _phone: attempt.phone,
+    _reason: blockedAs,
+  });
+  if (error) throw error;
+  return (data as BlockReason | null) ?? null;
+};
+
+// The insert trigger's last word on the active booking cap, for bookings that
+// raced past recordAttempt in parallel
+export const isActiveBookingCapError = (error: unknown) =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as { code?: unknown }).code === '23514' &&
+  (error as { hint?: unknown }).hint === 'active_booking_cap';
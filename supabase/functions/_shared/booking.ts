@@ -0,0 +1,219 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { APPOINTMENT_DURATION_MINUTES } from './appointments.ts';
+import {
+  DayHours,
+  getAppointmentSlots,
+  getDayOfWeek,
+  getHoursForDate,
+  loadStoreHours,
+  toMinutes,
+} from './store-hours.ts';
+import { addDaysToDateString, toZonedDateString, zonedDateTimeToUtc } from './time.ts';
+
+export interface BookingWindow {
+  min_lead_hours: number;
+  max_horizon_days: number;
+}
+
+// Used when the booking_window row is missing
+const DEFAULT_BOOKING_WINDOW: BookingWindow = { min_lead_hours: 2, max_horizon_days: 60 };
+
+export const loadBookingWindow = async (supabase: SupabaseClient): Promise<BookingWindow> => {
+  const { data, error } = await supabase
+    .from('booking_window')
+    .select('min_lead_hours, max_horizon_days')
+    .maybeSingle();
+  if (error) throw error;
+  return data ?? DEFAULT_BOOKING_WINDOW;
+};
+
+// Store-local dates customers can currently pick, inclusive
+export const getBookableDateRange = (bookingWindow: BookingWindow, now = new Date()) => {
+  const today = toZonedDateString(now);
+  return { first: today, last: addDaysToDateString(today, bookingWindow.max_horizon_days) };
+};
+
+// Why a store-local date and time can't be booked right now, or null if it can.
+// Every comparison is made in the store's time zone, wherever the function runs.
+export const getBookingWindowError = (
+  bookingWindow: BookingWindow,
+  date: string,
+  time: string,
+  now = new Date()
+): string | null => {
+  const { last } = getBookableDateRange(bookingWindow, now);
+  if (date > last) return `Appointments can be booked up to ${bookingWindow.max_horizon_days} days ahead`;
+
+  const startsAt = zonedDateTimeToUtc(date, time).getTime();
+  if (startsAt < now.getTime()) return 'Cannot book a past time';
+  if (startsAt < now.getTime() + bookingWindow.min_lead_hours * 60 * 60 * 1000) {
+    const notice = bookingWindow.min_lead_hours === 1 ? "1 hour's" : `${bookingWindow.min_lead_hours} hours'`;
+    return `Appointments need at least ${notice} notice`;
+  }
+  return null;
+};
+
+export interface ActiveBooking {
+  id: string;
+  appointment_date: string;
+  appointment_time: string; // HH:mm
+  consultant_id: string | null;
+}
+
+export interface ConsultantShift {
+  consultant_id: string;
+  day_of_week: number;
+  start_time: string; // HH:mm
+  end_time: string;
+}
+
+// Non-cancelled bookings between two dates. excludeId skips the appointment being rescheduled.
+export const loadActiveBookings = async (
+  supabase: SupabaseClient,
+  dateFrom: string,
+  dateTo: string,
+  excludeId?: string
+): Promise<ActiveBooking[]> => {
+  let query = supabase
+    .from('appointments')
+    .select('id, appointment_date, appointment_time, consultant_id')
+    .gte('appointment_date', dateFrom)
+    .lte('appointment_date', dateTo)
+    .neq('status', 'cancelled');
+
+  if (excludeId) {
+    query = query.neq('id', excludeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ...row, appointment_time: row.appointment_time.slice(0, 5) }));
+};
+
+// Weekly hours of active consultants, in the order they were added
+export const loadConsultantShifts = async (supabase: SupabaseClient): Promise<ConsultantShift[]> => {
+  const { data, error } = await supabase
+    .from('consultant_hours')
+    .select('consultant_id, day_of_week, start_time, end_time, consultants!inner(is_active, created_at)')
+    .eq('consultants.is_active', true);
+  if (error) throw error;
+
+  return (data ?? [])
+    .sort((a, b) => String(a.consultants.created_at).localeCompare(String(b.consultants.created_at)))
+    .map((row) => ({
+      consultant_id: row.consultant_id,
+      day_of_week: row.day_of_week,
+      start_time: row.start_time.slice(0, 5),
+      end_time: row.end_time.slice(0, 5),
+    }));
+};
+
+const bookingsAt = (bookings: ActiveBooking[], date: string, time: string) =>
+  bookings.filter((b) => b.appointment_date === date && b.appointment_time === time);
+
+// Consultants working the whole slot who have no one booked in it
+export const getFreeConsultants = (
+  shifts: ConsultantShift[],
+  bookings: ActiveBooking[],
+  date: string,
+  time: string
+): string[] => {
+  const dayOfWeek = getDayOfWeek(date);
+  const start = toMinutes(time);
+  const booked = new Set(bookingsAt(bookings, date, time).map((b) => b.consultant_id));
+
+  return shifts
+    .filter(
+      (shift) =>
+        shift.day_of_week === dayOfWeek &&
+        toMinutes(shift.start_time) <= start &&
+        start + APPOINTMENT_DURATION_MINUTES <= toMinutes(shift.end_time) &&
+        !booked.has(shift.consultant_id)
+    )
+    .map((shift) => shift.consultant_id);
+};
+
+// Whether a slot inside opening hours still has room, optionally with one consultant
+export const isSlotOpen = (
+  bookingWindow: BookingWindow,
+  day: DayHours,
+  bookings: ActiveBooking[],
+  shifts: ConsultantShift[],
+  date: string,
+  time: string,
+  consultantId?: string | null
+) => {
+  if (getBookingWindowError(bookingWindow, date, time)) return false;
+  if (bookingsAt(bookings, date, time).length >= day.capacity) return false;
+  return !consultantId || getFreeConsultants(shifts, bookings, date, time).includes(consultantId);
+};
+
+export interface SlotCheck {
+  error: string | null;
+  status: number;
+  // Who the booking goes to; null when unassigned
+  consultantId: string | null;
+}
+
+interface SlotCheckOptions {
+  consultantId?: string | null;
+  // When false, another free consultant (or none) is used if consultantId is busy
+  requireConsultant?: boolean;
+  excludeId?: string;
+}
+
+// Decides whether a slot can be booked and who it goes to. Shared by new bookings
+// and customer reschedules so both follow the same rules. Throws when the
+// schedule can't be loaded.
+export const checkSlot = async (
+  supabase: SupabaseClient,
+  date: string,
+  time: string,
+  { consultantId = null, requireConsultant = false, excludeId }: SlotCheckOptions = {}
+): Promise<SlotCheck> => {
+  const reject = (status: number, error: string): SlotCheck => ({ error, status, consultantId: null });
+
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return reject(400, 'Invalid date');
+  if (!time || !/^\d{2}:\d{2}$/.test(time)) return reject(400, 'Invalid time');
+
+  const dt = new Date(`${date}T${time}:00Z`);
+  if (isNaN(dt.getTime())) return reject(400, 'Invalid date/time');
+
+  const bookingWindow = await loadBookingWindow(supabase);
+  const windowError = getBookingWindowError(bookingWindow, date, time);
+  if (windowError) return reject(400, windowError);
+
+  const [hours, bookings, shifts] = await Promise.all([
+    loadStoreHours(supabase, date, date),
+    loadActiveBookings(supabase, date, date, excludeId),
+    loadConsultantShifts(supabase),
+  ]);
+
+  const day = getHoursForDate(hours, date);
+  if (!day.isOpen) {
+    return reject(400, day.label ? `The store is closed that day (${day.label})` : 'The store is closed that day');
+  }
+  if (!getAppointmentSlots(day).includes(time)) return reject(400, 'Time is outside store hours');
+
+  if (bookingsAt(bookings, date, time).length >= day.capacity) {
+    return reject(409, 'That time slot is already booked. Please pick another.');
+  }
+
+  const freeConsultants = getFreeConsultants(shifts, bookings, date, time);
+  if (consultantId && freeConsultants.includes(consultantId)) {
+    return { error: null, status: 200, consultantId };
+  }
+  if (consultantId && requireConsultant) {
+    return reject(409, 'That consultant is not available at this time. Please pick another.');
+  }
+
+  // No preference: the first free consultant, or unassigned when everyone is busy
+  return { error: null, status: 200, consultantId: freeConsultants[0] ?? null };
+};
+
+// 23505 = unique violation, i.e. someone took the slot between check and write
+export const isSlotTakenError = (error: unknown) =>
+  typeof error === 'object' &&
+  error !== null &&
+  'code' in error &&
+  String((error as { code?: unknown }).code) === '23505';
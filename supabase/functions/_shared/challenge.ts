@@ -0,0 +1,36 @@
+import { requiredSecret } from './mail.ts';
+
+// Bot check for public forms. The verifier is picked from secrets the same way
+// mail.ts picks a provider: a local stub when BOOKING_CHALLENGE=stub, Cloudflare
+// Turnstile when TURNSTILE_SECRET_KEY is set, otherwise no check at all.
+
+export type ChallengeVerifier = (token: string, ip: string | null) => Promise<boolean>;
+
+const verifyWithTurnstile: ChallengeVerifier = async (token, ip) => {
+  if (!token) return false;
+
+  const form = new FormData();
+  form.append('secret', requiredSecret('TURNSTILE_SECRET_KEY'));
+  form.append('response', token);
+  if (ip) form.append('remoteip', ip);
+
+  const response = await fetch('https://challenges.cloudflare.com/turnstile/v0/siteverify', {
+    method: 'POST',
+    body: form,
+  });
+  if (!response.ok) {
+    throw new Error(`Turnstile verification failed: ${response.status} ${await response.text()}`);
+  }
+
+  const data = await response.json().catch(() => null);
+  return data?.success === true;
+};
+
+// For local development: every token passes except 'fail', so both paths can be tried
+const verifyWithStub: ChallengeVerifier = async (token) => token !== 'fail';
+
+export const getChallengeVerifier = (): ChallengeVerifier | null => {
+  if (Deno.env.get('BOOKING_CHALLENGE')?.trim() === 'stub') return verifyWithStub;
+  if (Deno.env.get('TURNSTILE_SECRET_KEY')) return verifyWithTurnstile;
+  return null;
+};
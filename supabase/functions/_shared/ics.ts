@@ -0,0 +1,92 @@
+// Minimal iCalendar (RFC 5545) writer for appointment events and feeds
+
+export interface IcsEvent {
+  // Stable across updates so calendar apps replace rather than duplicate the event
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  // Bump when the event changes (e.g. rescheduled)
+  sequence?: number;
+  cancelled?: boolean;
+}
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = new TextEncoder().encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const eventLines = (event: IcsEvent) => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatUtc(new Date())}`,
+  `DTSTART:${formatUtc(event.start)}`,
+  `DTEND:${formatUtc(event.end)}`,
+  `SEQUENCE:${event.sequence ?? 0}`,
+  `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  ...(event.url ? [`URL:${event.url}`] : []),
+  'END:VEVENT',
+];
+
+const serialize = (lines: string[]) => lines.map(foldLine).join('\r\n') + '\r\n';
+
+const CALENDAR_HEADER = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Vmodern Furniture//Appointments//EN',
+  'CALSCALE:GREGORIAN',
+];
+
+// A single event, e.g. attached to a customer email
+export const buildIcsEvent = (event: IcsEvent) =>
+  serialize([
+    ...CALENDAR_HEADER,
+    `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    ...eventLines(event),
+    'END:VCALENDAR',
+  ]);
+
+// A subscribable calendar. Apps that honour the refresh hints re-fetch every 15 minutes.
+export const buildIcsCalendar = (name: string, events: IcsEvent[]) =>
+  serialize([
+    ...CALENDAR_HEADER,
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M',
+    ...events.flatMap(eventLines),
+    'END:VCALENDAR',
+  ]);
@@ -0,0 +1,148 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// Shared email transport for edge functions. Resend is preferred; Zoho SMTP is
+// the fallback when only SMTP credentials are configured.
+
+export interface MailAttachment {
+  filename: string;
+  // Base64-encoded file content
+  content: string;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+  // Resend drops repeated sends with the same key (e.g. retried requests)
+  idempotencyKey?: string;
+  attachments?: MailAttachment[];
+}
+
+export type MailProvider = 'resend' | 'zoho_smtp';
+
+export interface MailResult {
+  provider: MailProvider;
+  // Provider message id, when the provider returns one
+  messageId: string | null;
+}
+
+export class MailNotConfiguredError extends Error {
+  constructor() {
+    super(
+      'No email provider secrets are configured. Set RESEND_API_KEY or ZOHO_SMTP_USER/ZOHO_SMTP_PASSWORD.'
+    );
+    this.name = 'MailNotConfiguredError';
+  }
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const requiredSecret = (name: string) => {
+  const value = Deno.env.get(name)?.trim();
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+export const isMailConfigured = () =>
+  !!Deno.env.get('RESEND_API_KEY') ||
+  !!(Deno.env.get('ZOHO_SMTP_USER') && Deno.env.get('ZOHO_SMTP_PASSWORD'));
+
+const sendWithResend = async (message: MailMessage): Promise<MailResult> => {
+  const apiKey = requiredSecret('RESEND_API_KEY');
+  const from = requiredSecret('BOOKING_EMAIL_FROM');
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+  if (message.idempotencyKey) headers['Idempotency-Key'] = message.idempotencyKey;
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      from,
+      to: message.to,
+      reply_to: message.replyTo,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        content_type: attachment.contentType,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const details = await response.text();
+    throw new Error(`Resend email failed: ${response.status} ${details}`);
+  }
+
+  const data = await response.json().catch(() => null);
+  return { provider: 'resend', messageId: typeof data?.id === 'string' ? data.id : null };
+};
+
+const sendWithZohoSmtp = async (message: MailMessage): Promise<MailResult> => {
+  const username = requiredSecret('ZOHO_SMTP_USER');
+  const password = requiredSecret('ZOHO_SMTP_PASSWORD');
+  const hostname = Deno.env.get('ZOHO_SMTP_HOST')?.trim() || 'smtp.zoho.com';
+  const port = Number(Deno.env.get('ZOHO_SMTP_PORT') || '465');
+  const tls = (Deno.env.get('ZOHO_SMTP_TLS') || 'true').toLowerCase() !== 'false';
+  const from = Deno.env.get('BOOKING_EMAIL_FROM')?.trim() || username;
+
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port,
+      tls,
+      auth: {
+        username,
+        password,
+      },
+    },
+  });
+
+  try {
+    await client.send({
+      from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        encoding: 'base64' as const,
+        contentType: attachment.contentType,
+      })),
+    });
+  } finally {
+    await client.close();
+  }
+
+  return { provider: 'zoho_smtp', messageId: null };
+};
+
+export const sendMail = async (message: MailMessage): Promise<MailResult> => {
+  if (Deno.env.get('RESEND_API_KEY')) {
+    return sendWithResend(message);
+  }
+
+  if (Deno.env.get('ZOHO_SMTP_USER') && Deno.env.get('ZOHO_SMTP_PASSWORD')) {
+    return sendWithZohoSmtp(message);
+  }
+
+  throw new MailNotConfiguredError();
+};
@@ -0,0 +1,111 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { APPOINTMENT_DURATION_MINUTES } from './appointments.ts';
+
+// Hours are edited in the admin panel and stored in business_hours (weekly)
+// and store_hours_exceptions (one date). Appointment slots are derived here only.
+
+export interface DayHours {
+  isOpen: boolean;
+  openTime: string | null; // HH:mm, store local
+  closeTime: string | null;
+  label: string; // Holiday or special-hours label, when one applies
+  capacity: number; // Appointments allowed per slot
+}
+
+interface HoursRow {
+  open_time: string | null;
+  close_time: string | null;
+}
+
+interface WeeklyHoursRow extends HoursRow {
+  day_of_week: number;
+  is_open: boolean;
+  slot_capacity: number;
+}
+
+interface ExceptionRow extends HoursRow {
+  date: string;
+  is_closed: boolean;
+  label: string;
+}
+
+export interface StoreHours {
+  weekly: WeeklyHoursRow[];
+  exceptions: ExceptionRow[];
+}
+
+const toTime = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+// Weekly hours plus the exceptions between dateFrom and dateTo (inclusive)
+export const loadStoreHours = async (
+  supabase: SupabaseClient,
+  dateFrom: string,
+  dateTo: string
+): Promise<StoreHours> => {
+  const [weeklyResult, exceptionsResult] = await Promise.all([
+    supabase.from('business_hours').select('day_of_week, is_open, open_time, close_time, slot_capacity'),
+    supabase
+      .from('store_hours_exceptions')
+      .select('date, is_closed, open_time, close_time, label')
+      .gte('date', dateFrom)
+      .lte('date', dateTo),
+  ]);
+  if (weeklyResult.error) throw weeklyResult.error;
+  if (exceptionsResult.error) throw exceptionsResult.error;
+
+  return {
+    weekly: (weeklyResult.data ?? []) as WeeklyHoursRow[],
+    exceptions: (exceptionsResult.data ?? []) as ExceptionRow[],
+  };
+};
+
+// getUTCDay because date is YYYY-MM-DD
+export const getDayOfWeek = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+export const getHoursForDate = (hours: StoreHours, date: string): DayHours => {
+  const regular = hours.weekly.find((w) => w.day_of_week === getDayOfWeek(date));
+  // Special-hours days keep the weekday's capacity
+  const capacity = regular?.slot_capacity ?? 1;
+
+  const exception = hours.exceptions.find((e) => e.date === date);
+  if (exception) {
+    return {
+      isOpen: !exception.is_closed,
+      openTime: toTime(exception.open_time),
+      closeTime: toTime(exception.close_time),
+      label: exception.label,
+      capacity,
+    };
+  }
+
+  return {
+    isOpen: !!regular?.is_open,
+    openTime: toTime(regular?.open_time ?? null),
+    closeTime: toTime(regular?.close_time ?? null),
+    label: '',
+    capacity,
+  };
+};
+
+export const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Every slot that starts and ends within opening hours
+export const getAppointmentSlots = (day: DayHours): string[] => {
+  if (!day.isOpen || !day.openTime || !day.closeTime) return [];
+  const slots: string[] = [];
+  const close = toMinutes(day.closeTime);
+  for (
+    let start = toMinutes(day.openTime);
+    start + APPOINTMENT_DURATION_MINUTES <= close;
+    start += APPOINTMENT_DURATION_MINUTES
+  ) {
+    slots.push(`${Math.floor(start / 60).toString().padStart(2, '0')}:${(start % 60).toString().padStart(2, '0')}`);
+  }
+  return slots;
+};
@@ -0,0 +1,15 @@
+// Store details used in outgoing emails. Keep in sync with src/data/storeInfo.ts.
+export const NOTIFY_EMAIL = 'Furniture1141@yahoo.com';
+export const STORE_NAME = 'Vmodern Furniture';
+export const STORE_ADDRESS = '1141 Main Street, Unit B, Worcester, MA 01603';
+export const STORE_PHONE = '(508) 749-3311';
+export const STORE_WEBSITE = 'www.vmodernfurniture.com';
+
+export const getNotifyEmail = () => Deno.env.get('BOOKING_NOTIFY_EMAIL')?.trim() || NOTIFY_EMAIL;
+
+// Appointment times are entered and shown in the store's local time
+export const STORE_TIMEZONE = 'America/New_York';
+
+// Public site that customer-facing links point at, without a trailing slash
+export const getSiteUrl = () =>
+  (Deno.env.get('PUBLIC_SITE_URL')?.trim() || `https://${STORE_WEBSITE}`).replace(/\/+$/, '');
@@ -0,0 +1,44 @@
+import { STORE_TIMEZONE } from './store.ts';
+
+// Edge functions run in UTC. These helpers convert between UTC instants and
+// wall-clock dates/times in the store's time zone using Intl only.
+
+const partsFormatter = (timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+// Milliseconds to add to a UTC instant to get wall-clock time in timeZone
+const getTimeZoneOffset = (at: Date, timeZone: string) => {
+  const parts = partsFormatter(timeZone).formatToParts(at);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+};
+
+// 'YYYY-MM-DD' + 'HH:mm' in the store's zone -> UTC instant
+export const zonedDateTimeToUtc = (date: string, time: string, timeZone = STORE_TIMEZONE) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  const asUtc = Date.UTC(y, m - 1, d, hh, mm);
+  const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const corrected = getTimeZoneOffset(new Date(asUtc - offset), timeZone);
+  // The second pass matters only when the guess lands across a DST change
+  return new Date(asUtc - corrected);
+};
+
+// UTC instant -> 'YYYY-MM-DD' in the store's zone
+export const toZonedDateString = (at: Date, timeZone = STORE_TIMEZONE) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(at);
+
+export const addDaysToDateString = (date: string, days: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
@@ -0,0 +1,82 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { corsHeaders, json } from '../_shared/http.ts';
+import {
+  getBookableDateRange,
+  isSlotOpen,
+  loadActiveBookings,
+  loadBookingWindow,
+  loadConsultantShifts,
+} from '../_shared/booking.ts';
+import { getAppointmentSlots, getHoursForDate, loadStoreHours } from '../_shared/store-hours.ts';
+import { addDaysToDateString } from '../_shared/time.ts';
+
+// Public endpoint behind the booking calendar. Returns slot times and whether
+// each one is free, never who booked them.
+
+interface Body {
+  date_from?: string;
+  date_to?: string;
+  // Only count slots this consultant can take
+  consultant_id?: string | null;
+}
+
+// About two calendar months, enough for the visible month plus overflow days
+const MAX_RANGE_DAYS = 62;
+
+const isDateString = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const body: Body = await req.json();
+    const requestedFrom = body.date_from ?? '';
+    const requestedTo = body.date_to ?? requestedFrom;
+
+    if (!isDateString(requestedFrom) || !isDateString(requestedTo) || requestedTo < requestedFrom) {
+      return json(400, { error: 'Invalid date range' });
+    }
+    if (requestedTo > addDaysToDateString(requestedFrom, MAX_RANGE_DAYS)) {
+      return json(400, { error: `Date range can be at most ${MAX_RANGE_DAYS} days` });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Days outside the booking window are left out rather than listed as full
+    const bookingWindow = await loadBookingWindow(supabase);
+    const bookable = getBookableDateRange(bookingWindow);
+    const dateFrom = requestedFrom < bookable.first ? bookable.first : requestedFrom;
+    const dateTo = requestedTo > bookable.last ? bookable.last : requestedTo;
+    if (dateFrom > dateTo) {
+      return json(200, { ok: true, days: [] });
+    }
+
+    const [hours, bookings, shifts] = await Promise.all([
+      loadStoreHours(supabase, dateFrom, dateTo),
+      loadActiveBookings(supabase, dateFrom, dateTo),
+      loadConsultantShifts(supabase),
+    ]);
+
+    const days = [];
+    for (let date = dateFrom; date <= dateTo; date = addDaysToDateString(date, 1)) {
+      const dayHours = getHoursForDate(hours, date);
+      days.push({
+        date,
+        is_open: dayHours.isOpen,
+        label: dayHours.label,
+        slots: getAppointmentSlots(dayHours).map((time) => ({
+          time,
+          available: isSlotOpen(bookingWindow, dayHours, bookings, shifts, date, time, body.consultant_id),
+        })),
+      });
+    }
+
+    return json(200, { ok: true, days });
+  } catch (err) {
+    console.error('Unhandled error:', err);
+    return json(500, { error: 'Failed to load availability' });
+  }
+});
@@ -0,0 +1,78 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { json } from '../_shared/http.ts';
+import { MailNotConfiguredError, requiredSecret } from '../_shared/mail.ts';
+import { sendCustomerAppointmentEmail } from '../_shared/appointments.ts';
+import { addDaysToDateString, toZonedDateString } from '../_shared/time.ts';
+
+// Invoked by the pg_cron job in 20261019190000_schedule_appointment_reminders.sql.
+// Emails every active appointment booked for tomorrow (store time) that hasn't
+// had its reminder yet.
+
+Deno.serve(async (req) => {
+  try {
+    if (req.headers.get('Authorization') !== `Bearer ${requiredSecret('CRON_SECRET')}`) {
+      return json(401, { error: 'Unauthorized' });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const tomorrow = addDaysToDateString(toZonedDateString(new Date()), 1);
+
+    const { data: due, error: dueErr } = await supabase
+      .from('appointments')
+      .select('id, name, email, appointment_date, appointment_time, reschedule_count')
+      .eq('appointment_date', tomorrow)
+      .in('status', ['pending', 'confirmed'])
+      .is('reminder_sent_at', null)
+      .order('appointment_time', { ascending: true });
+
+    if (dueErr) {
+      console.error('Load error:', dueErr);
+      return json(500, { error: 'Failed to load appointments' });
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const appointment of due ?? []) {
+      // Claim the row first so an overlapping run can't send the same reminder
+      const { data: claimed, error: claimErr } = await supabase
+        .from('appointments')
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .eq('id', appointment.id)
+        .is('reminder_sent_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (claimErr) {
+        console.error('Claim error:', claimErr);
+        failed++;
+        continue;
+      }
+      if (!claimed) continue;
+
+      try {
+        await sendCustomerAppointmentEmail('reminder', appointment);
+        sent++;
+      } catch (sendErr) {
+        // Release the claim so the next run retries
+        await supabase.from('appointments').update({ reminder_sent_at: null }).eq('id', appointment.id);
+
+        if (sendErr instanceof MailNotConfiguredError) {
+          console.warn(`Reminders were not sent. ${sendErr.message}`);
+          return json(503, { error: 'Email is not configured', date: tomorrow, sent, failed });
+        }
+        console.error(`Reminder for appointment ${appointment.id} failed:`, sendErr);
+        failed++;
+      }
+    }
+
+    return json(200, { ok: true, date: tomorrow, sent, failed });
+  } catch (err) {
+    console.error('Unhandled error:', err);
+    return json(500, { error: 'Unexpected server error' });
+  }
+});
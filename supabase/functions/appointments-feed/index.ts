@@ -0,0 +1,134 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { corsHeaders } from '../_shared/http.ts';
+import { IcsEvent, buildIcsCalendar } from '../_shared/ics.ts';
+import { STORE_ADDRESS, STORE_NAME } from '../_shared/store.ts';
+import { APPOINTMENT_DURATION_MINUTES, formatAppointmentTime } from '../_shared/appointments.ts';
+import { toZonedDateString, zonedDateTimeToUtc } from '../_shared/time.ts';
+
+// Staff calendar subscription: GET /appointments-feed?token=<calendar_feed.token>.
+// Calendar apps can't sign in, so the secret token in the URL is the credential.
+// Lists upcoming appointments that haven't been cancelled.
+
+interface FeedAppointment {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  appointment_date: string;
+  appointment_time: string;
+  notes: string | null;
+  appointment_internal_notes: { notes: string } | null;
+  status: string;
+  product_ids: string[];
+  updated_at: string;
+  consultants: { name: string } | null;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  no_show: 'No-show',
+};
+
+// Compares every character so response time doesn't reveal how much matched
+const tokensMatch = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const text = (status: number, body: string) =>
+  new Response(body, { status, headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' } });
+
+const toEvent = (appointment: FeedAppointment, productNames: Map<string, string>): IcsEvent => {
+  const start = zonedDateTimeToUtc(appointment.appointment_date, appointment.appointment_time.slice(0, 5));
+  const status = STATUS_LABELS[appointment.status] ?? appointment.status;
+  const products = appointment.product_ids.flatMap((id) => productNames.get(id) ?? []);
+
+  const description = [
+    `Status: ${status}`,
+    `Time: ${formatAppointmentTime(appointment.appointment_time)}`,
+    `Phone: ${appointment.phone}`,
+    `Email: ${appointment.email}`,
+    ...(appointment.consultants ? [`Consultant: ${appointment.consultants.name}`] : []),
+    ...(products.length > 0 ? [`Wants to see: ${products.join(', ')}`] : []),
+    `Customer notes: ${appointment.notes || 'None'}`,
+    ...(appointment.appointment_internal_notes?.notes
+      ? [`Internal notes: ${appointment.appointment_internal_notes.notes}`]
+      : []),
+  ].join('\n');
+
+  return {
+    uid: `staff-appointment-${appointment.id}@vmodernfurniture.com`,
+    start,
+    end: new Date(start.getTime() + APPOINTMENT_DURATION_MINUTES * 60_000),
+    summary: `${appointment.name} (${status})`,
+    description,
+    location: STORE_ADDRESS,
+    // Changes on every edit so apps pick up new statuses and notes
+    sequence: Math.floor(new Date(appointment.updated_at).getTime() / 1000),
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'GET') return text(405, 'Method not allowed');
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? '';
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feed')
+      .select('token')
+      .maybeSingle();
+    if (feedError) throw feedError;
+    if (!feed || !token || !tokensMatch(token, feed.token)) return text(404, 'Not found');
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(
+        'id, name, email, phone, appointment_date, appointment_time, notes, status, product_ids, updated_at, consultants(name), appointment_internal_notes(notes)'
+      )
+      .gte('appointment_date', toZonedDateString(new Date()))
+      .neq('status', 'cancelled')
+      .order('appointment_date')
+      .order('appointment_time');
+    if (error) throw error;
+    const appointments = (data ?? []) as FeedAppointment[];
+
+    const productIds = [...new Set(appointments.flatMap((appointment) => appointment.product_ids))];
+    const productNames = new Map<string, string>();
+    if (productIds.length > 0) {
+      const { data: products, error: productsError } = await supabase
+        .from('products')
+        .select('id, name')
+        .in('id', productIds);
+      if (productsError) throw productsError;
+      for (const product of products ?? []) productNames.set(product.id, product.name);
+    }
+
+    const calendar = buildIcsCalendar(
+      `${STORE_NAME} Appointments`,
+      appointments.map((appointment) => toEvent(appointment, productNames))
+    );
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('Unhandled error:', err);
+    return text(500, 'Failed to build the calendar');
+  }
+});
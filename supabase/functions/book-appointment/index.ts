@@ -1,32 +1,75 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
-import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { MailNotConfiguredError, escapeHtml, sendMail } from '../_shared/mail.ts';
+import { STORE_ADDRESS, STORE_NAME, STORE_PHONE, getNotifyEmail, getSiteUrl } from '../_shared/store.ts';
+import { SlotCheck, checkSlot, isSlotTakenError } from '../_shared/booking.ts';
+import {
+  BookingAttempt,
+  LimitReason,
+  getClientIp,
+  isActiveBookingCapError,
+  recordAttempt,
+} from '../_shared/booking-guard.ts';
+import { getChallengeVerifier } from '../_shared/challenge.ts';
+import {
+  createManageToken,
+  formatAppointmentDate,
+  formatAppointmentTime,
+  sendCustomerAppointmentEmail,
+} from '../_shared/appointments.ts';
+
+// Fields as sent by the booking form. The body is untrusted JSON, so every
+// value is checked before use.
+interface Body {
+  name?: unknown;
+  email?: unknown;
+  phone?: unknown;
+  notes?: unknown;
+  appointment_date?: unknown;
+  appointment_time?: unknown;
+  // Optional; without one the first free consultant is assigned
+  consultant_id?: unknown;
+  // Products the customer wants to see, when booked from a product page
+  product_ids?: unknown;
+  // Hidden field only bots fill in
+  company?: unknown;
+  // From the challenge widget, when one is configured
+  challenge_token?: unknown;
+}
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+// Anything but a string counts as missing
+const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const BLOCKED_RESPONSES: Record<'challenge' | LimitReason, { status: number; error: string }> = {
+  challenge: { status: 403, error: 'We could not verify this request. Please try again.' },
+  ip_rate_limit: { status: 429, error: 'Too many booking attempts. Please try again later or call the store.' },
+  email_rate_limit: { status: 429, error: 'Too many booking attempts. Please try again later or call the store.' },
+  active_booking_cap: {
+    status: 409,
+    error: 'You already have several upcoming appointments. Please call the store to book another.',
+  },
 };
 
-const NOTIFY_EMAIL = 'Furniture1141@yahoo.com';
-const STORE_NAME = 'Vmodern Furniture';
-const STORE_ADDRESS = '1141 Main Street, Unit B, Worcester, MA 01603';
-const STORE_PHONE = '(508) 749-3311';
+// Matches the appointments_product_ids_count constraint
+const MAX_PRODUCTS = 10;
 
-// Mon-Sat 11:00-17:00, 30-min slots
-const VALID_SLOTS = [
-  '11:00', '11:30', '12:00', '12:30', '13:00', '13:30',
-  '14:00', '14:30', '15:00', '15:30', '16:00', '16:30',
-];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-interface Body {
-  name?: string;
-  email?: string;
-  phone?: string;
-  notes?: string | null;
-  appointment_date?: string;
-  appointment_time?: string;
+interface ViewingProduct {
+  id: string;
+  name: string;
+  main_image_url: string;
 }
 
+// Unknown ids (e.g. a product deleted while the page was open) are dropped
+const loadViewingProducts = async (supabase: SupabaseClient, ids: string[]): Promise<ViewingProduct[]> => {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase.from('products').select('id, name, main_image_url').in('id', ids);
+  if (error) throw error;
+  const byId = new Map((data ?? []).map((product) => [product.id, product]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+};
+
 interface BookingEmail {
   id: string;
   customerName: string;
@@ -35,27 +78,31 @@ interface BookingEmail {
   appointmentDate: string;
   appointmentTime: string;
   notes: string;
+  products: ViewingProduct[];
 }
 
-const json = (status: number, data: unknown) =>
-  new Response(JSON.stringify(data), {
-    status,
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-  });
-
-const escapeHtml = (value: string) =>
-  value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
+const productUrl = (product: ViewingProduct) => `${getSiteUrl()}/product/${product.id}`;
 
-const requiredSecret = (name: string) => {
-  const value = Deno.env.get(name)?.trim();
-  if (!value) throw new Error(`${name} is not configured`);
-  return value;
-};
+// Thumbnails so staff can pull the pieces forward before the visit
+const buildProductsHtml = (products: ViewingProduct[]) => `
+      <h3 style="margin: 20px 0 8px;">Wants to see</h3>
+      <table style="border-collapse: collapse; width: 100%; max-width: 560px;">
+        ${products
+          .map(
+            (product) => `
+        <tr>
+          <td style="padding: 6px 12px 6px 0; width: 64px;">
+            ${
+              product.main_image_url
+                ? `<img src="${escapeHtml(product.main_image_url)}" alt="" width="64" height="64" style="display: block; width: 64px; height: 64px; object-fit: cover; border-radius: 6px;" />`
+                : ''
+            }
+          </td>
+          <td><a href="${escapeHtml(productUrl(product))}" style="color: #111827;">${escapeHtml(product.name)}</a></td>
+        </tr>`
+          )
+          .join('')}
+      </table>`;
 
 const buildBookingEmail = (booking: BookingEmail) => {
   const subject = `New appointment booking - ${booking.appointmentDate} at ${booking.appointmentTime}`;
@@ -68,6 +115,9 @@ const buildBookingEmail = (booking: BookingEmail) => {
     `Date: ${booking.appointmentDate}`,
     `Time: ${booking.appointmentTime}`,
     `Notes: ${booking.notes || 'None'}`,
+    ...(booking.products.length > 0
+      ? ['', 'Wants to see:', ...booking.products.map((product) => `- ${product.name} (${productUrl(product)})`)]
+      : []),
     '',
     STORE_NAME,
     STORE_ADDRESS,
@@ -85,6 +135,7 @@ const buildBookingEmail = (booking: BookingEmail) => {
         <tr><td style="padding: 6px 0; font-weight: 700;">Time</td><td>${escapeHtml(booking.appointmentTime)}</td></tr>
         <tr><td style="padding: 6px 0; font-weight: 700; vertical-align: top;">Notes</td><td>${escapeHtml(booking.notes || 'None')}</td></tr>
       </table>
+      ${booking.products.length > 0 ? buildProductsHtml(booking.products) : ''}
       <p style="margin-top: 20px; color: #4b5563;">
         ${STORE_NAME}<br />
         ${STORE_ADDRESS}<br />
@@ -96,140 +147,111 @@ const buildBookingEmail = (booking: BookingEmail) => {
   return { subject, text, html };
 };
 
-const sendWithResend = async (booking: BookingEmail) => {
-  const apiKey = requiredSecret('RESEND_API_KEY');
-  const from = requiredSecret('BOOKING_EMAIL_FROM');
-  const to = Deno.env.get('BOOKING_NOTIFY_EMAIL')?.trim() || NOTIFY_EMAIL;
-  const email = buildBookingEmail(booking);
-
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'Idempotency-Key': `appointment-${booking.id}`,
-    },
-    body: JSON.stringify({
-      from,
-      to,
-      reply_to: booking.customerEmail,
-      subject: email.subject,
-      text: email.text,
-      html: email.html,
-    }),
-  });
-
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`Resend email failed: ${response.status} ${details}`);
-  }
-};
-
-const sendWithZohoSmtp = async (booking: BookingEmail) => {
-  const username = requiredSecret('ZOHO_SMTP_USER');
-  const password = requiredSecret('ZOHO_SMTP_PASSWORD');
-  const hostname = Deno.env.get('ZOHO_SMTP_HOST')?.trim() || 'smtp.zoho.com';
-  const port = Number(Deno.env.get('ZOHO_SMTP_PORT') || '465');
-  const tls = (Deno.env.get('ZOHO_SMTP_TLS') || 'true').toLowerCase() !== 'false';
-  const from = Deno.env.get('BOOKING_EMAIL_FROM')?.trim() || username;
-  const to = Deno.env.get('BOOKING_NOTIFY_EMAIL')?.trim() || NOTIFY_EMAIL;
+const sendBookingNotification = async (booking: BookingEmail) => {
   const email = buildBookingEmail(booking);
 
-  const client = new SMTPClient({
-    connection: {
-      hostname,
-      port,
-      tls,
-      auth: {
-        username,
-        password,
-      },
-    },
-  });
-
   try {
-    await client.send({
-      from,
-      to,
+    await sendMail({
+      to: getNotifyEmail(),
       replyTo: booking.customerEmail,
       subject: email.subject,
-      content: email.text,
+      text: email.text,
       html: email.html,
+      idempotencyKey: `appointment-${booking.id}`,
     });
-  } finally {
-    await client.close();
-  }
-};
-
-const sendBookingNotification = async (booking: BookingEmail) => {
-  if (Deno.env.get('RESEND_API_KEY')) {
-    await sendWithResend(booking);
-    return;
-  }
-
-  if (Deno.env.get('ZOHO_SMTP_USER') && Deno.env.get('ZOHO_SMTP_PASSWORD')) {
-    await sendWithZohoSmtp(booking);
-    return;
+  } catch (err) {
+    if (err instanceof MailNotConfiguredError) {
+      console.warn(`Booking email was not sent. ${err.message}`);
+      return;
+    }
+    throw err;
   }
-
-  console.warn(
-    'Booking email was not sent because no email provider secrets are configured. Set RESEND_API_KEY or ZOHO_SMTP_USER/ZOHO_SMTP_PASSWORD.'
-  );
 };
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
 
   try {
-    const body: Body = await req.json();
+    const parsed: unknown = await req.json();
+    if (!parsed || typeof parsed !== 'object') return json(400, { error: 'Invalid request' });
+    const body = parsed as Body;
+    const ip = getClientIp(req);
 
-    const name = body.name?.trim();
-    const email = body.email?.trim().toLowerCase();
-    const phone = body.phone?.trim();
-    const notes = body.notes?.toString().trim().slice(0, 500) || null;
-    const date = body.appointment_date;
-    const time = body.appointment_time;
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Looks like success so the bot has nothing to adjust
+    if (body.company) {
+      try {
+        await recordAttempt(
+          supabase,
+          { ip, email: String(body.email ?? ''), phone: String(body.phone ?? '') },
+          'honeypot'
+        );
+      } catch (recordErr) {
+        console.error('Failed to record booking attempt:', recordErr);
+      }
+      return json(200, { ok: true });
+    }
+
+    const name = asString(body.name)?.trim();
+    const email = asString(body.email)?.trim().toLowerCase();
+    const phone = asString(body.phone)?.trim();
+    const notes = asString(body.notes)?.trim().slice(0, 500) || null;
+    const date = asString(body.appointment_date) ?? '';
+    const time = asString(body.appointment_time) ?? '';
+    const productIds = Array.isArray(body.product_ids) ? [...new Set(body.product_ids.map(String))] : [];
 
     // Validation
     if (!name || name.length > 100) return json(400, { error: 'Invalid name' });
     if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 255)
       return json(400, { error: 'Invalid email' });
     if (!phone || phone.length < 7 || phone.length > 30) return json(400, { error: 'Invalid phone' });
-    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return json(400, { error: 'Invalid date' });
-    if (!time || !VALID_SLOTS.includes(time.slice(0, 5)))
-      return json(400, { error: 'Time is outside store hours' });
-
-    const dt = new Date(`${date}T${time}:00`);
-    if (isNaN(dt.getTime())) return json(400, { error: 'Invalid date/time' });
-
-    // Block past dates
-    const now = new Date();
-    if (dt < now) return json(400, { error: 'Cannot book a past time' });
-
-    // Block Sundays (getUTCDay because date is YYYY-MM-DD)
-    const [y, m, d] = date.split('-').map(Number);
-    const dow = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
-    if (dow === 0) return json(400, { error: 'Closed on Sundays' });
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    );
+    if (productIds.length > MAX_PRODUCTS || !productIds.every((id) => UUID_PATTERN.test(id))) {
+      return json(400, { error: 'Invalid products' });
+    }
 
-    // Double-booking check
-    const { data: existing, error: checkErr } = await supabase
-      .from('appointments')
-      .select('id')
-      .eq('appointment_date', date)
-      .eq('appointment_time', time)
-      .neq('status', 'cancelled')
-      .maybeSingle();
+    // Bot check, rate limits and the per-customer cap
+    const attempt: BookingAttempt = { ip, email, phone };
+    let blockReason: 'challenge' | LimitReason | null;
+    try {
+      const verifyChallenge = getChallengeVerifier();
+      const failedChallenge = !!verifyChallenge && !(await verifyChallenge(asString(body.challenge_token) ?? '', ip));
+      blockReason = (await recordAttempt(supabase, attempt, failedChallenge ? 'challenge' : null)) as
+        | 'challenge'
+        | LimitReason
+        | null;
+    } catch (guardErr) {
+      console.error('Guard error:', guardErr);
+      return json(503, { error: 'Could not verify this request. Please try again shortly.' });
+    }
+    if (blockReason) {
+      const { status, error } = BLOCKED_RESPONSES[blockReason];
+      return json(status, { error });
+    }
 
-    if (checkErr) {
+    // Store hours, holidays, capacity and the chosen consultant
+    let slot: SlotCheck;
+    try {
+      slot = await checkSlot(supabase, date, time, {
+        consultantId: asString(body.consultant_id) || null,
+        requireConsultant: true,
+      });
+    } catch (checkErr) {
       console.error('Check error:', checkErr);
       return json(500, { error: 'Failed to verify slot availability' });
     }
-    if (existing) return json(409, { error: 'That time slot is already booked. Please pick another.' });
+    if (slot.error) return json(slot.status, { error: slot.error });
+
+    let products: ViewingProduct[];
+    try {
+      products = await loadViewingProducts(supabase, productIds);
+    } catch (productsErr) {
+      console.error('Products error:', productsErr);
+      return json(500, { error: 'Failed to load products' });
+    }
 
     // Insert
     const { data: inserted, error: insertErr } = await supabase
@@ -238,6 +260,8 @@ Deno.serve(async (req) => {
         name, email, phone, notes,
         appointment_date: date,
         appointment_time: time,
+        consultant_id: slot.consultantId,
+        product_ids: products.map((product) => product.id),
         status: 'pending',
       })
       .select()
@@ -245,42 +269,51 @@ Deno.serve(async (req) => {
 
     if (insertErr) {
       console.error('Insert error:', insertErr);
-      // 23505 = unique violation (race condition)
-      const insertCode =
-        typeof insertErr === 'object' && insertErr !== null && 'code' in insertErr
-          ? String((insertErr as { code?: unknown }).code)
-          : '';
-      if (insertCode === '23505') {
+      if (isSlotTakenError(insertErr)) {
         return json(409, { error: 'That time slot was just taken. Please pick another.' });
       }
+      if (isActiveBookingCapError(insertErr)) {
+        const { status, error } = BLOCKED_RESPONSES.active_booking_cap;
+        return json(status, { error });
+      }
       return json(500, { error: 'Failed to save appointment' });
     }
 
-    // Format pretty values
-    const prettyDate = new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
-      weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
-    });
-    const [hh, mm] = time.split(':').map(Number);
-    const period = hh >= 12 ? 'PM' : 'AM';
-    const h12 = hh % 12 === 0 ? 12 : hh % 12;
-    const prettyTime = `${h12}:${mm.toString().padStart(2, '0')} ${period}`;
-
-    // Send notification email to store owner only. Booking remains saved if email delivery fails.
+    // Notify the store, then confirm to the customer. Booking remains saved if email delivery fails.
     try {
       await sendBookingNotification({
         id: inserted.id,
         customerName: name,
         customerEmail: email,
         customerPhone: phone,
-        appointmentDate: prettyDate,
-        appointmentTime: prettyTime,
+        appointmentDate: formatAppointmentDate(date),
+        appointmentTime: formatAppointmentTime(time),
         notes: notes || '',
+        products,
       });
     } catch (emailErr) {
       console.warn('Email notification failed (non-fatal):', emailErr);
     }
 
-    return json(200, { ok: true, appointment: inserted });
+    try {
+      await sendCustomerAppointmentEmail('confirmation', inserted);
+    } catch (emailErr) {
+      if (emailErr instanceof MailNotConfiguredError) {
+        console.warn(`Customer confirmation was not sent. ${emailErr.message}`);
+      } else {
+        console.warn('Customer confirmation failed (non-fatal):', emailErr);
+      }
+    }
+
+    // Lets the customer cancel or reschedule at /appointment/:token
+    let manageToken: string | undefined;
+    try {
+      manageToken = await createManageToken(inserted);
+    } catch (tokenErr) {
+      console.warn('Manage link was not created:', tokenErr);
+    }
+
+    return json(200, { ok: true, appointment: inserted, manage_token: manageToken });
   } catch (err) {
     console.error('Unhandled error:', err);
     return json(500, { error: 'Unexpected server error' });
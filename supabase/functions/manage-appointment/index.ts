@@ -0,0 +1,211 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { MailNotConfiguredError, escapeHtml, sendMail } from '../_shared/mail.ts';
+import { STORE_NAME, getNotifyEmail } from '../_shared/store.ts';
+import { SlotCheck, checkSlot, isSlotTakenError } from '../_shared/booking.ts';
+import {
+  CustomerEmailKind,
+  createManageToken,
+  formatAppointmentDate,
+  formatAppointmentTime,
+  sendCustomerAppointmentEmail,
+  verifyManageToken,
+} from '../_shared/appointments.ts';
+
+// Public endpoint behind the /appointment/:token page. The signed token is the
+// only credential, so responses never include more than the booking itself.
+
+interface Body {
+  token?: string;
+  action?: 'get' | 'cancel' | 'reschedule';
+  appointment_date?: string;
+  appointment_time?: string;
+}
+
+interface ManagedAppointment {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  appointment_date: string;
+  appointment_time: string;
+  status: string;
+  reschedule_count: number;
+  consultant_id: string | null;
+}
+
+const APPOINTMENT_COLUMNS = 'id, name, email, phone, appointment_date, appointment_time, status, reschedule_count, consultant_id';
+
+// Statuses the customer can still change
+const OPEN_STATUSES = ['pending', 'confirmed'];
+
+const toPublicAppointment = (appointment: ManagedAppointment) => ({
+  name: appointment.name,
+  appointment_date: appointment.appointment_date,
+  appointment_time: appointment.appointment_time.slice(0, 5),
+  status: appointment.status,
+});
+
+const notifyStore = async (
+  change: 'cancelled' | 'rescheduled',
+  appointment: ManagedAppointment,
+  previous?: { date: string; time: string }
+) => {
+  const when = `${formatAppointmentDate(appointment.appointment_date)} at ${formatAppointmentTime(appointment.appointment_time)}`;
+  const was = previous ? `${formatAppointmentDate(previous.date)} at ${formatAppointmentTime(previous.time)}` : '';
+  const subject =
+    change === 'cancelled'
+      ? `Appointment cancelled by customer - ${when}`
+      : `Appointment rescheduled by customer - now ${when}`;
+  const lines = [
+    `Customer: ${appointment.name}`,
+    `Email: ${appointment.email}`,
+    `Phone: ${appointment.phone}`,
+    change === 'cancelled' ? `Appointment: ${when}` : `Now: ${when}`,
+    ...(was ? [`Was: ${was}`] : []),
+  ];
+
+  await sendMail({
+    to: getNotifyEmail(),
+    replyTo: appointment.email,
+    subject,
+    text: [subject, '', ...lines, '', STORE_NAME].join('\n'),
+    html: `
+      <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111827;">
+        <h2 style="margin: 0 0 16px;">${escapeHtml(subject)}</h2>
+        <p>${lines.map(escapeHtml).join('<br />')}</p>
+      </div>
+    `,
+    idempotencyKey: `appointment-${change}-store-${appointment.id}-${appointment.appointment_date}-${appointment.appointment_time.slice(0, 5)}`,
+  });
+};
+
+// Emails are best-effort; the change itself is already saved
+const sendChangeEmails = async (
+  kind: Extract<CustomerEmailKind, 'cancelled' | 'rescheduled'>,
+  appointment: ManagedAppointment,
+  previous?: { date: string; time: string }
+) => {
+  const results = await Promise.allSettled([
+    notifyStore(kind, appointment, previous),
+    sendCustomerAppointmentEmail(kind, appointment),
+  ]);
+  for (const result of results) {
+    if (result.status === 'fulfilled') continue;
+    if (result.reason instanceof MailNotConfiguredError) {
+      console.warn(`Change email was not sent. ${result.reason.message}`);
+    } else {
+      console.warn('Change email failed (non-fatal):', result.reason);
+    }
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const body: Body = await req.json();
+    const appointmentId = body.token ? await verifyManageToken(body.token) : null;
+    if (!appointmentId) return json(404, { error: 'This link is invalid or has expired' });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: appointment, error: loadErr } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_COLUMNS)
+      .eq('id', appointmentId)
+      .maybeSingle<ManagedAppointment>();
+
+    if (loadErr) {
+      console.error('Load error:', loadErr);
+      return json(500, { error: 'Failed to load appointment' });
+    }
+    if (!appointment) return json(404, { error: 'This appointment no longer exists' });
+
+    const action = body.action ?? 'get';
+    if (action === 'get') {
+      return json(200, { ok: true, appointment: toPublicAppointment(appointment) });
+    }
+
+    if (!OPEN_STATUSES.includes(appointment.status)) {
+      return json(409, { error: 'This appointment can no longer be changed. Please call the store.' });
+    }
+
+    if (action === 'cancel') {
+      const { data: cancelled, error: cancelErr } = await supabase
+        .from('appointments')
+        .update({ status: 'cancelled' })
+        .eq('id', appointment.id)
+        .select(APPOINTMENT_COLUMNS)
+        .single<ManagedAppointment>();
+
+      if (cancelErr) {
+        console.error('Cancel error:', cancelErr);
+        return json(500, { error: 'Failed to cancel appointment' });
+      }
+
+      await sendChangeEmails('cancelled', cancelled);
+      return json(200, { ok: true, appointment: toPublicAppointment(cancelled) });
+    }
+
+    if (action === 'reschedule') {
+      const date = body.appointment_date ?? '';
+      const time = body.appointment_time ?? '';
+
+      // Same rules as a new booking; keeps the same consultant when they're free
+      let slot: SlotCheck;
+      try {
+        slot = await checkSlot(supabase, date, time, {
+          consultantId: appointment.consultant_id,
+          excludeId: appointment.id,
+        });
+      } catch (checkErr) {
+        console.error('Check error:', checkErr);
+        return json(500, { error: 'Failed to verify slot availability' });
+      }
+      if (slot.error) return json(slot.status, { error: slot.error });
+
+      const { data: moved, error: moveErr } = await supabase
+        .from('appointments')
+        .update({
+          appointment_date: date,
+          appointment_time: time,
+          consultant_id: slot.consultantId,
+          // Staff confirm the new time, and the reminder goes out again for it
+          status: 'pending',
+          reminder_sent_at: null,
+          reschedule_count: appointment.reschedule_count + 1,
+        })
+        .eq('id', appointment.id)
+        .select(APPOINTMENT_COLUMNS)
+        .single<ManagedAppointment>();
+
+      if (moveErr) {
+        console.error('Reschedule error:', moveErr);
+        if (isSlotTakenError(moveErr)) {
+          return json(409, { error: 'That time slot was just taken. Please pick another.' });
+        }
+        return json(500, { error: 'Failed to reschedule appointment' });
+      }
+
+      await sendChangeEmails('rescheduled', moved, {
+        date: appointment.appointment_date,
+        time: appointment.appointment_time,
+      });
+      // The old link expires with the old time
+      return json(200, {
+        ok: true,
+        appointment: toPublicAppointment(moved),
+        manage_token: await createManageToken(moved),
+      });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (err) {
+    console.error('Unhandled error:', err);
+    return json(500, { error: 'Unexpected server error' });
+  }
+});
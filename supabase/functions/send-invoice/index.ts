@@ -0,0 +1,272 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { MailNotConfiguredError, escapeHtml, sendMail } from '../_shared/mail.ts';
+import { STORE_ADDRESS, STORE_NAME, STORE_PHONE, STORE_WEBSITE, getNotifyEmail } from '../_shared/store.ts';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  debit_card: 'Debit',
+  credit_card: 'Credit',
+  check: 'Check',
+  store_credit: 'Store Credit',
+};
+
+interface Body {
+  invoice_id?: string;
+  to?: string;
+  // Client-generated id per send; retries with the same id are not delivered twice
+  request_id?: string;
+}
+
+interface ReceiptInvoice {
+  order_number: number;
+  invoice_date: string;
+  bill_to_name: string;
+  delivery_charges: number;
+  subtotal: number;
+  sales_tax: number;
+  tax_rate: number;
+  tax_exempt: boolean;
+  total: number;
+  amount_paid: number;
+  balance: number;
+}
+
+interface ReceiptLineItem {
+  item_no: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  line_amount: number;
+}
+
+interface ReceiptPayment {
+  payment_date: string;
+  method: string;
+  amount: number;
+}
+
+const formatCurrency = (amount: number) => `$${Number(amount).toFixed(2)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+
+const formatTaxRate = (rate: number) => `${Number((Number(rate) * 100).toFixed(4))}%`;
+
+const buildReceiptEmail = (
+  invoice: ReceiptInvoice,
+  lineItems: ReceiptLineItem[],
+  payments: ReceiptPayment[]
+) => {
+  const paidInFull = Number(invoice.balance) <= 0;
+  const kind = paidInFull ? 'Receipt' : 'Invoice';
+  const subject = `${STORE_NAME} ${kind} #${invoice.order_number}`;
+  const taxLabel = invoice.tax_exempt ? 'Tax (Exempt)' : `Tax (${formatTaxRate(invoice.tax_rate)})`;
+
+  const totals: [string, string][] = [
+    ['Delivery', formatCurrency(invoice.delivery_charges)],
+    ['Subtotal', formatCurrency(invoice.subtotal)],
+    [taxLabel, formatCurrency(invoice.sales_tax)],
+    ['Total', formatCurrency(invoice.total)],
+    ...payments.map((payment): [string, string] => [
+      `Paid ${formatDate(payment.payment_date)} (${PAYMENT_METHOD_LABELS[payment.method] ?? payment.method})`,
+      formatCurrency(payment.amount),
+    ]),
+    ['Balance', formatCurrency(invoice.balance)],
+  ];
+
+  const text = [
+    `${kind} #${invoice.order_number}`,
+    formatDate(invoice.invoice_date),
+    '',
+    invoice.bill_to_name ? `Hi ${invoice.bill_to_name},` : 'Hello,',
+    paidInFull
+      ? 'Thank you for your purchase. Your receipt is below.'
+      : 'Thank you for your order. Your invoice is below.',
+    '',
+    ...lineItems.map(
+      (item) =>
+        `${item.quantity} x ${item.description || item.item_no || 'Item'} @ ${formatCurrency(item.unit_price)}` +
+        `${Number(item.discount_percent) > 0 ? ` (-${item.discount_percent}%)` : ''} = ${formatCurrency(item.line_amount)}`
+    ),
+    '',
+    ...totals.map(([label, value]) => `${label}: ${value}`),
+    ...(paidInFull ? ['', 'PAID IN FULL'] : []),
+    '',
+    STORE_NAME,
+    STORE_ADDRESS,
+    STORE_PHONE,
+    STORE_WEBSITE,
+  ].join('\n');
+
+  const cell = 'padding: 6px 8px; border-bottom: 1px solid #e5e7eb;';
+  const itemRows = lineItems
+    .map(
+      (item) => `
+        <tr>
+          <td style="${cell}">${escapeHtml(item.description || item.item_no || 'Item')}</td>
+          <td style="${cell} text-align: right;">${item.quantity}</td>
+          <td style="${cell} text-align: right;">${formatCurrency(item.unit_price)}</td>
+          <td style="${cell} text-align: right;">${Number(item.discount_percent) > 0 ? `${item.discount_percent}%` : '-'}</td>
+          <td style="${cell} text-align: right;">${formatCurrency(item.line_amount)}</td>
+        </tr>`
+    )
+    .join('');
+  const totalRows = totals
+    .map(
+      ([label, value]) => `
+        <tr>
+          <td style="padding: 4px 8px; text-align: right;">${escapeHtml(label)}</td>
+          <td style="padding: 4px 8px; text-align: right; font-weight: 700;">${value}</td>
+        </tr>`
+    )
+    .join('');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111827;">
+      <h2 style="margin: 0 0 4px;">${kind} #${invoice.order_number}</h2>
+      <p style="margin: 0 0 16px; color: #4b5563;">${formatDate(invoice.invoice_date)}</p>
+      <p>${invoice.bill_to_name ? `Hi ${escapeHtml(invoice.bill_to_name)},` : 'Hello,'}</p>
+      <p>${paidInFull ? 'Thank you for your purchase. Your receipt is below.' : 'Thank you for your order. Your invoice is below.'}</p>
+      <table style="border-collapse: collapse; width: 100%; max-width: 640px;">
+        <tr style="background: #f3f4f6;">
+          <th style="padding: 6px 8px; text-align: left;">Item</th>
+          <th style="padding: 6px 8px; text-align: right;">Qty</th>
+          <th style="padding: 6px 8px; text-align: right;">Price</th>
+          <th style="padding: 6px 8px; text-align: right;">Disc</th>
+          <th style="padding: 6px 8px; text-align: right;">Amount</th>
+        </tr>
+        ${itemRows}
+      </table>
+      <table style="border-collapse: collapse; width: 100%; max-width: 640px; margin-top: 12px;">
+        ${totalRows}
+      </table>
+      ${paidInFull ? '<p style="margin-top: 12px; color: #16803d; font-weight: 700;">PAID IN FULL</p>' : ''}
+      <p style="margin-top: 20px; color: #4b5563;">
+        ${STORE_NAME}<br />
+        ${STORE_ADDRESS}<br />
+        ${STORE_PHONE}<br />
+        ${STORE_WEBSITE}
+      </p>
+    </div>
+  `;
+
+  return { subject, text, html };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) return json(401, { error: 'Not signed in' });
+
+    // Resolve the caller from their JWT, then check the admin role
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const { data: { user }, error: userErr } = await userClient.auth.getUser();
+    if (userErr || !user) return json(401, { error: 'Not signed in' });
+
+    const { data: isAdmin, error: roleErr } = await userClient.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'admin',
+    });
+    if (roleErr) {
+      console.error('Role check error:', roleErr);
+      return json(500, { error: 'Failed to verify permissions' });
+    }
+    if (!isAdmin) return json(403, { error: 'Admin access required' });
+
+    const body: Body = await req.json();
+    const invoiceId = body.invoice_id?.trim();
+    const to = body.to?.trim().toLowerCase();
+    const requestId = body.request_id?.trim() || crypto.randomUUID();
+
+    if (!invoiceId) return json(400, { error: 'Missing invoice' });
+    if (!to || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to) || to.length > 255)
+      return json(400, { error: 'Invalid email' });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const [invoiceRes, lineItemsRes, paymentsRes] = await Promise.all([
+      supabase
+        .from('invoices')
+        .select('order_number, invoice_date, bill_to_name, delivery_charges, subtotal, sales_tax, tax_rate, tax_exempt, total, amount_paid, balance')
+        .eq('id', invoiceId)
+        .maybeSingle(),
+      supabase
+        .from('invoice_line_items')
+        .select('item_no, description, quantity, unit_price, discount_percent, line_amount')
+        .eq('invoice_id', invoiceId)
+        .order('display_order', { ascending: true }),
+      supabase
+        .from('invoice_payments')
+        .select('payment_date, method, amount')
+        .eq('invoice_id', invoiceId)
+        .order('payment_date', { ascending: true }),
+    ]);
+
+    const loadErr = invoiceRes.error || lineItemsRes.error || paymentsRes.error;
+    if (loadErr) {
+      console.error('Load error:', loadErr);
+      return json(500, { error: 'Failed to load invoice' });
+    }
+    if (!invoiceRes.data) return json(404, { error: 'Invoice not found' });
+
+    const email = buildReceiptEmail(
+      invoiceRes.data as ReceiptInvoice,
+      (lineItemsRes.data ?? []) as ReceiptLineItem[],
+      (paymentsRes.data ?? []) as ReceiptPayment[]
+    );
+
+    // Every attempt is logged on the invoice, successful or not
+    const logSend = async (entry: {
+      status: 'sent' | 'failed';
+      provider?: string | null;
+      provider_message_id?: string | null;
+      error?: string | null;
+    }) => {
+      const { error } = await supabase
+        .from('invoice_emails')
+        .insert({ invoice_id: invoiceId, recipient: to, sent_by: user.id, ...entry });
+      if (error) console.error('Log error:', error);
+    };
+
+    try {
+      const result = await sendMail({
+        to,
+        replyTo: getNotifyEmail(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        idempotencyKey: `invoice-${invoiceId}-${requestId}`,
+      });
+      await logSend({
+        status: 'sent',
+        provider: result.provider,
+        provider_message_id: result.messageId,
+      });
+      return json(200, { ok: true, provider: result.provider });
+    } catch (sendErr) {
+      const message = sendErr instanceof Error ? sendErr.message : String(sendErr);
+      console.error('Send error:', sendErr);
+      await logSend({ status: 'failed', error: message.slice(0, 1000) });
+      if (sendErr instanceof MailNotConfiguredError) {
+        return json(503, { error: 'Email is not configured for this store' });
+      }
+      return json(502, { error: 'The email provider rejected the message' });
+    }
+  } catch (err) {
+    console.error('Unhandled error:', err);
+    return json(500, { error: 'Unexpected server error' });
+  }
+});
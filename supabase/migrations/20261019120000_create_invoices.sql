@@ -0,0 +1,106 @@
+-- =====================================================
+-- INVOICES (saved from the admin invoice page)
+-- =====================================================
+
+-- Payment methods accepted at the register
+CREATE TYPE public.payment_method AS ENUM ('cash', 'debit_card', 'credit_card');
+
+-- Order numbers are handed out by the database so two admins can never
+-- issue the same number. Starts at 154 to continue the paper invoice book.
+CREATE SEQUENCE public.invoice_order_number_seq START WITH 154;
+
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_number INTEGER NOT NULL UNIQUE DEFAULT nextval('public.invoice_order_number_seq'),
+  invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  bill_to_name TEXT NOT NULL DEFAULT '',
+  bill_to_address TEXT NOT NULL DEFAULT '',
+  bill_to_phone TEXT NOT NULL DEFAULT '',
+  ship_to_name TEXT NOT NULL DEFAULT '',
+  ship_to_address TEXT NOT NULL DEFAULT '',
+  ship_to_phone TEXT NOT NULL DEFAULT '',
+  same_as_bill_to BOOLEAN NOT NULL DEFAULT true,
+  delivery_charges NUMERIC(10,2) NOT NULL DEFAULT 0,
+  subtotal NUMERIC(10,2) NOT NULL DEFAULT 0,
+  sales_tax NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  payment_method payment_method NOT NULL DEFAULT 'credit_card',
+  amount_paid NUMERIC(10,2) NOT NULL DEFAULT 0,
+  balance NUMERIC(10,2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER SEQUENCE public.invoice_order_number_seq OWNED BY public.invoices.order_number;
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices contain customer details, so only admins can see or change them
+CREATE POLICY "Admins can view invoices"
+  ON public.invoices FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert invoices"
+  ON public.invoices FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update invoices"
+  ON public.invoices FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete invoices"
+  ON public.invoices FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- =====================================================
+-- INVOICE LINE ITEMS
+-- =====================================================
+CREATE TABLE public.invoice_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL DEFAULT '',
+  item_no TEXT NOT NULL DEFAULT '',
+  description TEXT NOT NULL DEFAULT '',
+  quantity INTEGER NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10,2) NOT NULL DEFAULT 0,
+  discount_percent NUMERIC(5,2) NOT NULL DEFAULT 0,
+  line_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invoice line items"
+  ON public.invoice_line_items FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert invoice line items"
+  ON public.invoice_line_items FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update invoice line items"
+  ON public.invoice_line_items FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete invoice line items"
+  ON public.invoice_line_items FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- =====================================================
+-- GRANTS, TRIGGERS AND INDEXES
+-- =====================================================
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.invoices TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.invoice_line_items TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.invoice_order_number_seq TO authenticated;
+GRANT ALL ON public.invoices TO service_role;
+GRANT ALL ON public.invoice_line_items TO service_role;
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_date ON public.invoices(invoice_date DESC);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_order ON public.invoice_line_items(invoice_id, display_order);
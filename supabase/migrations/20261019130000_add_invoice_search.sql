@@ -0,0 +1,20 @@
+-- =====================================================
+-- INVOICE HISTORY SEARCH
+-- =====================================================
+
+-- Phone numbers are typed in many formats ("(508) 749-3311", "508.749.3311"),
+-- so keep a digits-only copy to search against
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS bill_to_phone_digits TEXT
+    GENERATED ALWAYS AS (regexp_replace(bill_to_phone, '\D', '', 'g')) STORED;
+
+-- Searches match anywhere in the name or number (ilike '%x%'), which only
+-- trigram indexes can serve
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_bill_to_name_trgm
+  ON public.invoices USING GIN (bill_to_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_invoices_ship_to_name_trgm
+  ON public.invoices USING GIN (ship_to_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_invoices_bill_to_phone_digits_trgm
+  ON public.invoices USING GIN (bill_to_phone_digits extensions.gin_trgm_ops);
@@ -0,0 +1,31 @@
+-- =====================================================
+-- PRODUCT AVAILABILITY
+-- =====================================================
+
+-- Floor samples are one-of-a-kind. Once sold (or reserved with a deposit)
+-- they must stop showing in the public catalog.
+CREATE TYPE public.product_status AS ENUM ('available', 'reserved', 'sold');
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS status product_status NOT NULL DEFAULT 'available';
+
+CREATE INDEX IF NOT EXISTS idx_products_category_status ON public.products(category, status);
+
+-- =====================================================
+-- INVOICE LINE ITEM -> PRODUCT LINK
+-- =====================================================
+ALTER TABLE public.invoice_line_items
+  ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES public.products(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_product_id ON public.invoice_line_items(product_id);
+
+-- =====================================================
+-- INVOICE STATUS
+-- =====================================================
+
+-- Drafts can be freely edited; finalizing marks linked floor samples sold/reserved
+CREATE TYPE public.invoice_status AS ENUM ('draft', 'finalized');
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS status invoice_status NOT NULL DEFAULT 'draft',
+  ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,106 @@
+-- =====================================================
+-- INVOICE PAYMENTS (ledger)
+-- =====================================================
+
+-- Customers often put a deposit down and pay the rest on delivery
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'check';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'store_credit';
+
+CREATE TABLE public.invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  method payment_method NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  note TEXT NOT NULL DEFAULT '',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invoice payments"
+  ON public.invoice_payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert invoice payments"
+  ON public.invoice_payments FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update invoice payments"
+  ON public.invoice_payments FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete invoice payments"
+  ON public.invoice_payments FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.invoice_payments TO authenticated;
+GRANT ALL ON public.invoice_payments TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice_date ON public.invoice_payments(invoice_id, payment_date);
+
+-- Move existing single payments into the ledger
+INSERT INTO public.invoice_payments (invoice_id, payment_date, method, amount, created_by, created_at)
+SELECT id, invoice_date, payment_method, amount_paid, created_by, created_at
+FROM public.invoices
+WHERE amount_paid > 0;
+
+ALTER TABLE public.invoices DROP COLUMN IF EXISTS payment_method;
+
+-- =====================================================
+-- DERIVED amount_paid / balance
+-- =====================================================
+
+-- Balance always follows total and amount paid, whoever writes the row
+CREATE OR REPLACE FUNCTION public.calculate_invoice_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.balance = NEW.total - NEW.amount_paid;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER calculate_invoices_balance
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_invoice_balance();
+
+-- Amount paid is the sum of the ledger
+CREATE OR REPLACE FUNCTION public.sync_invoice_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  _invoice_id UUID;
+BEGIN
+  _invoice_id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  UPDATE public.invoices
+  SET amount_paid = COALESCE(
+    (SELECT SUM(amount) FROM public.invoice_payments WHERE invoice_id = _invoice_id),
+    0
+  )
+  WHERE id = _invoice_id;
+
+  -- A payment moved to another invoice changes both
+  IF TG_OP = 'UPDATE' AND NEW.invoice_id <> OLD.invoice_id THEN
+    UPDATE public.invoices
+    SET amount_paid = COALESCE(
+      (SELECT SUM(amount) FROM public.invoice_payments WHERE invoice_id = OLD.invoice_id),
+      0
+    )
+    WHERE id = OLD.invoice_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_invoice_payments_amount_paid
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_amount_paid();
+
+-- Bring stored balances in line with the new rule
+UPDATE public.invoices SET balance = total - amount_paid;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_balance_due ON public.invoices(balance) WHERE balance > 0;
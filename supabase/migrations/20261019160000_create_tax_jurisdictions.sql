@@ -0,0 +1,73 @@
+-- =====================================================
+-- TAX JURISDICTIONS (admin-editable sales tax rates)
+-- =====================================================
+CREATE TABLE public.tax_jurisdictions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rate NUMERIC(7,6) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  tax_delivery BOOLEAN NOT NULL DEFAULT true,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one jurisdiction can be the default for new invoices
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_jurisdictions_single_default
+  ON public.tax_jurisdictions(is_default)
+  WHERE is_default;
+
+ALTER TABLE public.tax_jurisdictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view tax jurisdictions"
+  ON public.tax_jurisdictions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert tax jurisdictions"
+  ON public.tax_jurisdictions FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update tax jurisdictions"
+  ON public.tax_jurisdictions FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete tax jurisdictions"
+  ON public.tax_jurisdictions FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tax_jurisdictions TO authenticated;
+GRANT ALL ON public.tax_jurisdictions TO service_role;
+
+CREATE TRIGGER update_tax_jurisdictions_updated_at
+  BEFORE UPDATE ON public.tax_jurisdictions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The rate every invoice used until now
+INSERT INTO public.tax_jurisdictions (name, rate, tax_delivery, is_default)
+VALUES ('Massachusetts', 0.0625, true, true);
+
+-- =====================================================
+-- INVOICE TAX SNAPSHOT
+-- =====================================================
+
+-- Each invoice keeps the rate and rules it was written with, so changing
+-- a jurisdiction later never changes an old invoice
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS tax_jurisdiction_id UUID REFERENCES public.tax_jurisdictions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_jurisdiction_name TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(7,6) NOT NULL DEFAULT 0.0625,
+  ADD COLUMN IF NOT EXISTS delivery_taxable BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_tax_exempt_certificate_check
+  CHECK (NOT tax_exempt OR tax_exempt_certificate <> '');
+
+UPDATE public.invoices
+SET tax_jurisdiction_id = (SELECT id FROM public.tax_jurisdictions WHERE is_default),
+    tax_jurisdiction_name = 'Massachusetts';
+
+-- Non-taxable lines (e.g. services) are excluded from the taxable amount
+ALTER TABLE public.invoice_line_items
+  ADD COLUMN IF NOT EXISTS taxable BOOLEAN NOT NULL DEFAULT true;
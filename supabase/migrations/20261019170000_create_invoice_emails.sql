@@ -0,0 +1,32 @@
+-- =====================================================
+-- EMAILING INVOICES TO CUSTOMERS
+-- =====================================================
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS bill_to_email TEXT NOT NULL DEFAULT '';
+
+CREATE TYPE public.email_delivery_status AS ENUM ('sent', 'failed');
+
+-- One row per send attempt, written by the send-invoice edge function
+CREATE TABLE public.invoice_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  recipient TEXT NOT NULL,
+  status email_delivery_status NOT NULL,
+  provider TEXT,
+  provider_message_id TEXT,
+  error TEXT,
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoice_emails ENABLE ROW LEVEL SECURITY;
+
+-- Admins read the log; only the edge function (service role) writes it
+CREATE POLICY "Admins can view invoice emails"
+  ON public.invoice_emails FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT ON public.invoice_emails TO authenticated;
+GRANT ALL ON public.invoice_emails TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_emails_invoice_sent_at ON public.invoice_emails(invoice_id, sent_at DESC);
@@ -0,0 +1,41 @@
+-- =====================================================
+-- APPOINTMENT MANAGEMENT
+-- =====================================================
+CREATE TYPE public.appointment_status AS ENUM ('pending', 'confirmed', 'completed', 'no_show', 'cancelled');
+
+ALTER TABLE public.appointments ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.appointments
+  ALTER COLUMN status TYPE appointment_status USING status::appointment_status;
+ALTER TABLE public.appointments ALTER COLUMN status SET DEFAULT 'pending';
+
+-- Staff-only notes, never shown to the customer. They live in their own
+-- admin-only table so the edge functions that read appointments to email
+-- customers, manage their bookings and publish the calendar feed never load
+-- them.
+CREATE TABLE public.appointment_internal_notes (
+  appointment_id UUID PRIMARY KEY REFERENCES public.appointments(id) ON DELETE CASCADE,
+  notes TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.appointment_internal_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage appointment notes"
+  ON public.appointment_internal_notes FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.appointment_internal_notes TO authenticated;
+GRANT ALL ON public.appointment_internal_notes TO service_role;
+
+CREATE TRIGGER update_appointment_internal_notes_updated_at
+  BEFORE UPDATE ON public.appointment_internal_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A cancelled booking frees its slot for someone else
+ALTER TABLE public.appointments
+  DROP CONSTRAINT IF EXISTS appointments_appointment_date_appointment_time_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_active_slot
+  ON public.appointments(appointment_date, appointment_time)
+  WHERE status <> 'cancelled';
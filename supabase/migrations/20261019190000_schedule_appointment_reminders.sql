@@ -0,0 +1,36 @@
+-- =====================================================
+-- APPOINTMENT REMINDER EMAILS
+-- =====================================================
+-- Set when the day-before reminder goes out, so each appointment gets one
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_reminder_due
+  ON public.appointments(appointment_date)
+  WHERE reminder_sent_at IS NULL AND status IN ('pending', 'confirmed');
+
+-- =====================================================
+-- DAILY SCHEDULE
+-- =====================================================
+-- Calls the appointment-reminders edge function each morning. It runs at 14:00
+-- and 15:00 UTC so one run lands at 10:00 store time on either side of DST;
+-- whichever runs first sends, the other finds nothing left to send.
+-- The project URL and the shared secret are read from Vault - see DEPLOYMENT.md.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'appointment-reminders',
+  '0 14,15 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/appointment-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
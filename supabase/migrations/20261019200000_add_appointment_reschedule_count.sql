@@ -0,0 +1,7 @@
+-- =====================================================
+-- CUSTOMER SELF-SERVICE CANCEL / RESCHEDULE
+-- =====================================================
+-- Counts reschedules made through the manage link. Also used as the calendar
+-- event SEQUENCE so updated .ics files replace the old event.
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,90 @@
+-- =====================================================
+-- BUSINESS HOURS (regular weekly schedule)
+-- =====================================================
+-- One row per weekday, 0 = Sunday ... 6 = Saturday (same as JS getDay()).
+-- Times are store-local (America/New_York).
+CREATE TABLE public.business_hours (
+  day_of_week SMALLINT PRIMARY KEY CHECK (day_of_week BETWEEN 0 AND 6),
+  is_open BOOLEAN NOT NULL DEFAULT true,
+  open_time TIME,
+  close_time TIME,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT business_hours_open_range CHECK (
+    NOT is_open OR (open_time IS NOT NULL AND close_time IS NOT NULL AND open_time < close_time)
+  )
+);
+
+ALTER TABLE public.business_hours ENABLE ROW LEVEL SECURITY;
+
+-- Hours are shown on the public site and used by the booking calendar
+CREATE POLICY "Anyone can view business hours"
+  ON public.business_hours FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update business hours"
+  ON public.business_hours FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT ON public.business_hours TO anon;
+GRANT SELECT, UPDATE ON public.business_hours TO authenticated;
+GRANT ALL ON public.business_hours TO service_role;
+
+CREATE TRIGGER update_business_hours_updated_at
+  BEFORE UPDATE ON public.business_hours
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The hours the site has always advertised: Mon-Sat 11AM-5PM, closed Sunday
+INSERT INTO public.business_hours (day_of_week, is_open, open_time, close_time) VALUES
+  (0, false, NULL, NULL),
+  (1, true, '11:00', '17:00'),
+  (2, true, '11:00', '17:00'),
+  (3, true, '11:00', '17:00'),
+  (4, true, '11:00', '17:00'),
+  (5, true, '11:00', '17:00'),
+  (6, true, '11:00', '17:00');
+
+-- =====================================================
+-- STORE HOURS EXCEPTIONS (holiday closures, special-hours days)
+-- =====================================================
+-- A row replaces the weekly schedule for that one date
+CREATE TABLE public.store_hours_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL UNIQUE,
+  is_closed BOOLEAN NOT NULL DEFAULT true,
+  open_time TIME,
+  close_time TIME,
+  label TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT store_hours_exceptions_open_range CHECK (
+    is_closed OR (open_time IS NOT NULL AND close_time IS NOT NULL AND open_time < close_time)
+  )
+);
+
+ALTER TABLE public.store_hours_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view store hours exceptions"
+  ON public.store_hours_exceptions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert store hours exceptions"
+  ON public.store_hours_exceptions FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update store hours exceptions"
+  ON public.store_hours_exceptions FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete store hours exceptions"
+  ON public.store_hours_exceptions FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT ON public.store_hours_exceptions TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.store_hours_exceptions TO authenticated;
+GRANT ALL ON public.store_hours_exceptions TO service_role;
+
+CREATE TRIGGER update_store_hours_exceptions_updated_at
+  BEFORE UPDATE ON public.store_hours_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
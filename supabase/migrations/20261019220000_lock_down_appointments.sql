@@ -0,0 +1,19 @@
+-- =====================================================
+-- APPOINTMENTS: NO PUBLIC ACCESS
+-- =====================================================
+-- The booking calendar used to read appointments directly, which exposed every
+-- customer's name, email and phone to anyone holding the anon key. Availability
+-- now comes from the appointment-availability Edge Function (slot times only),
+-- and bookings go through book-appointment, which validates them. Both use the
+-- service role, so the public needs no access to the table at all.
+
+DROP POLICY IF EXISTS "Anyone can read booked slots" ON public.appointments;
+DROP POLICY IF EXISTS "Anyone can create appointments" ON public.appointments;
+
+REVOKE SELECT, INSERT ON public.appointments FROM anon;
+REVOKE INSERT ON public.appointments FROM authenticated;
+
+-- Admins read appointments through their own policy from now on
+CREATE POLICY "Admins can view appointments"
+  ON public.appointments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
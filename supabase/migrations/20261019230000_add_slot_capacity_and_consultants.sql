@@ -0,0 +1,149 @@
+-- =====================================================
+-- SLOT CAPACITY
+-- =====================================================
+-- How many appointments can share one half-hour slot on each weekday
+ALTER TABLE public.business_hours
+  ADD COLUMN IF NOT EXISTS slot_capacity INTEGER NOT NULL DEFAULT 1 CHECK (slot_capacity BETWEEN 1 AND 20);
+
+-- Capacity replaces one-booking-per-slot; the trigger below enforces it
+DROP INDEX IF EXISTS public.idx_appointments_active_slot;
+CREATE INDEX IF NOT EXISTS idx_appointments_slot
+  ON public.appointments(appointment_date, appointment_time)
+  WHERE status <> 'cancelled';
+
+-- =====================================================
+-- CONSULTANTS
+-- =====================================================
+-- Staff customers can book with. Only names are stored, so the list is public.
+CREATE TABLE public.consultants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.consultants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active consultants"
+  ON public.consultants FOR SELECT
+  USING (is_active OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert consultants"
+  ON public.consultants FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update consultants"
+  ON public.consultants FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete consultants"
+  ON public.consultants FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT ON public.consultants TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.consultants TO authenticated;
+GRANT ALL ON public.consultants TO service_role;
+
+CREATE TRIGGER update_consultants_updated_at
+  BEFORE UPDATE ON public.consultants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each consultant's weekly availability; no row means not working that day.
+-- Times are store-local, like business_hours.
+CREATE TABLE public.consultant_hours (
+  consultant_id UUID NOT NULL REFERENCES public.consultants(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  PRIMARY KEY (consultant_id, day_of_week),
+  CONSTRAINT consultant_hours_range CHECK (start_time < end_time)
+);
+
+ALTER TABLE public.consultant_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view consultant hours"
+  ON public.consultant_hours FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert consultant hours"
+  ON public.consultant_hours FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update consultant hours"
+  ON public.consultant_hours FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete consultant hours"
+  ON public.consultant_hours FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.consultant_hours TO authenticated;
+GRANT ALL ON public.consultant_hours TO service_role;
+
+-- =====================================================
+-- APPOINTMENT CONSULTANT
+-- =====================================================
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS consultant_id UUID REFERENCES public.consultants(id) ON DELETE SET NULL;
+
+-- A consultant sees one customer per slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_active_consultant_slot
+  ON public.appointments(consultant_id, appointment_date, appointment_time)
+  WHERE status <> 'cancelled' AND consultant_id IS NOT NULL;
+
+-- =====================================================
+-- CAPACITY ENFORCEMENT
+-- =====================================================
+-- Rejects an active booking that would overfill its slot. Raised as a unique
+-- violation so callers handle it like the old one-per-slot constraint.
+CREATE OR REPLACE FUNCTION public.enforce_appointment_slot_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _capacity INTEGER;
+  _booked INTEGER;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Edits that keep an active booking in its slot never change the count
+  IF TG_OP = 'UPDATE'
+    AND OLD.status <> 'cancelled'
+    AND OLD.appointment_date = NEW.appointment_date
+    AND OLD.appointment_time = NEW.appointment_time THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize bookings for the same slot so two can't both take the last place
+  PERFORM pg_advisory_xact_lock(hashtext('appointment-slot:' || NEW.appointment_date || ' ' || NEW.appointment_time));
+
+  SELECT slot_capacity INTO _capacity
+  FROM public.business_hours
+  WHERE day_of_week = EXTRACT(DOW FROM NEW.appointment_date);
+
+  SELECT count(*) INTO _booked
+  FROM public.appointments
+  WHERE appointment_date = NEW.appointment_date
+    AND appointment_time = NEW.appointment_time
+    AND status <> 'cancelled'
+    AND id <> NEW.id;
+
+  IF _booked >= COALESCE(_capacity, 1) THEN
+    RAISE EXCEPTION 'Appointment slot % % is full', NEW.appointment_date, NEW.appointment_time
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_appointment_slot_capacity
+  BEFORE INSERT OR UPDATE OF appointment_date, appointment_time, status ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_appointment_slot_capacity();
@@ -0,0 +1,33 @@
+-- =====================================================
+-- BOOKING WINDOW (how soon and how far ahead customers can book)
+-- =====================================================
+-- Single row. Both limits are measured in the store's time zone
+-- (America/New_York), the same as business_hours.
+CREATE TABLE public.booking_window (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  min_lead_hours INTEGER NOT NULL DEFAULT 2 CHECK (min_lead_hours BETWEEN 0 AND 168),
+  max_horizon_days INTEGER NOT NULL DEFAULT 60 CHECK (max_horizon_days BETWEEN 1 AND 365),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_window ENABLE ROW LEVEL SECURITY;
+
+-- The booking calendar greys out dates outside the window
+CREATE POLICY "Anyone can view the booking window"
+  ON public.booking_window FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update the booking window"
+  ON public.booking_window FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT ON public.booking_window TO anon;
+GRANT SELECT, UPDATE ON public.booking_window TO authenticated;
+GRANT ALL ON public.booking_window TO service_role;
+
+CREATE TRIGGER update_booking_window_updated_at
+  BEFORE UPDATE ON public.booking_window
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.booking_window (id) VALUES (true);
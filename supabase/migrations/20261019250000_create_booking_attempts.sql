@@ -0,0 +1,37 @@
+-- =====================================================
+-- BOOKING ATTEMPTS (rate limiting and abuse review)
+-- =====================================================
+-- book-appointment records every request that gets past input validation.
+-- Recent rows per IP and per email drive the rate limits; blocked rows are
+-- listed for admins under Appointments.
+CREATE TABLE public.booking_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip TEXT,
+  email TEXT NOT NULL DEFAULT '',
+  phone TEXT NOT NULL DEFAULT '',
+  blocked BOOLEAN NOT NULL DEFAULT false,
+  -- Why the attempt was blocked: honeypot, challenge, ip_rate_limit,
+  -- email_rate_limit or active_booking_cap. Empty when it went through.
+  reason TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_booking_attempts_ip_created_at ON public.booking_attempts (ip, created_at);
+CREATE INDEX idx_booking_attempts_email_created_at ON public.booking_attempts (email, created_at);
+CREATE INDEX idx_booking_attempts_blocked_created_at
+  ON public.booking_attempts (created_at DESC)
+  WHERE blocked;
+
+ALTER TABLE public.booking_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function (service role) writes here
+CREATE POLICY "Admins can view booking attempts"
+  ON public.booking_attempts FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete booking attempts"
+  ON public.booking_attempts FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, DELETE ON public.booking_attempts TO authenticated;
+GRANT ALL ON public.booking_attempts TO service_role;
@@ -0,0 +1,8 @@
+-- =====================================================
+-- APPOINTMENT PRODUCTS (items the customer wants to see)
+-- =====================================================
+-- Set when a visit is booked from a product page. Ids of deleted products are
+-- left in place and simply skipped when shown.
+ALTER TABLE public.appointments
+  ADD COLUMN product_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD CONSTRAINT appointments_product_ids_count CHECK (cardinality(product_ids) <= 10);
@@ -0,0 +1,32 @@
+-- =====================================================
+-- STAFF CALENDAR FEED
+-- =====================================================
+-- Single row holding the secret in the appointments-feed URL. Calendar apps
+-- can't sign in, so the token is the credential; admins reset it to revoke
+-- every existing subscription.
+CREATE TABLE public.calendar_feed (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  token TEXT NOT NULL CHECK (length(token) >= 32),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the calendar feed"
+  ON public.calendar_feed FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update the calendar feed"
+  ON public.calendar_feed FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, UPDATE ON public.calendar_feed TO authenticated;
+GRANT ALL ON public.calendar_feed TO service_role;
+
+CREATE TRIGGER update_calendar_feed_updated_at
+  BEFORE UPDATE ON public.calendar_feed
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.calendar_feed (id, token)
+VALUES (true, replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''));
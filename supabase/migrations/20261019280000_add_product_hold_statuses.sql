@@ -0,0 +1,9 @@
+-- =====================================================
+-- PRODUCT STATUS LIFECYCLE
+-- =====================================================
+-- on_hold: set aside for a customer until a date (see product_holds)
+-- removed: taken off the floor without being sold
+-- New enum values can't be used in the transaction that adds them, so the
+-- tables and functions that refer to them live in the next migration.
+ALTER TYPE public.product_status ADD VALUE IF NOT EXISTS 'on_hold' BEFORE 'reserved';
+ALTER TYPE public.product_status ADD VALUE IF NOT EXISTS 'removed';
@@ -0,0 +1,95 @@
+-- =====================================================
+-- PRODUCT HOLDS
+-- =====================================================
+-- Who an on_hold floor sample is held for, and the last day of the hold.
+-- Kept out of products so customer details never reach the public catalog.
+CREATE TABLE public.product_holds (
+  product_id UUID PRIMARY KEY REFERENCES public.products(id) ON DELETE CASCADE,
+  customer TEXT NOT NULL CHECK (char_length(customer) BETWEEN 1 AND 200),
+  held_until DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_holds_held_until ON public.product_holds(held_until);
+
+ALTER TABLE public.product_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view product holds"
+  ON public.product_holds FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert product holds"
+  ON public.product_holds FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update product holds"
+  ON public.product_holds FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete product holds"
+  ON public.product_holds FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.product_holds TO authenticated;
+GRANT ALL ON public.product_holds TO service_role;
+
+CREATE TRIGGER update_product_holds_updated_at
+  BEFORE UPDATE ON public.product_holds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A hold ends whenever its product leaves on_hold - set by hand, sold on an
+-- invoice or expired below
+CREATE OR REPLACE FUNCTION public.clear_product_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.product_holds WHERE product_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_product_hold_on_status_change
+  AFTER UPDATE OF status ON public.products
+  FOR EACH ROW
+  WHEN (NEW.status <> 'on_hold')
+  EXECUTE FUNCTION public.clear_product_hold();
+
+-- =====================================================
+-- HOLD EXPIRY
+-- =====================================================
+-- Puts floor samples back on sale once the last day of their hold has passed
+-- in store time (America/New_York, like the booking rules).
+CREATE OR REPLACE FUNCTION public.expire_product_holds()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _expired INTEGER;
+BEGIN
+  UPDATE public.products p
+  SET status = 'available'
+  FROM public.product_holds h
+  WHERE h.product_id = p.id
+    AND p.status = 'on_hold'
+    AND h.held_until < (now() AT TIME ZONE 'America/New_York')::date;
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_product_holds() FROM PUBLIC, anon, authenticated;
+
+-- Hourly, so a hold ends within the first hour of the day after its last day
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-product-holds',
+  '5 * * * *',
+  $$ SELECT public.expire_product_holds(); $$
+);
@@ -0,0 +1,167 @@
+-- =====================================================
+-- STOCK LOCATIONS
+-- =====================================================
+-- Warehouses or back rooms stock can be kept in. Optional: stock recorded
+-- without a location still counts toward the product's quantity.
+CREATE TABLE public.stock_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stock_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stock locations"
+  ON public.stock_locations FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert stock locations"
+  ON public.stock_locations FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update stock locations"
+  ON public.stock_locations FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete stock locations"
+  ON public.stock_locations FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.stock_locations TO authenticated;
+GRANT ALL ON public.stock_locations TO service_role;
+
+CREATE TRIGGER update_stock_locations_updated_at
+  BEFORE UPDATE ON public.stock_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- QUANTITY ON HAND
+-- =====================================================
+-- stock_quantity is derived from the movement ledger below; the storefront
+-- reads it with low_stock_threshold to show in stock / low stock / backorder.
+-- It stays NULL until a product's first movement, so products nobody has
+-- counted yet are untracked rather than out of stock.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER,
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 2 CHECK (low_stock_threshold >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_products_low_stock
+  ON public.products(stock_quantity)
+  WHERE category = 'online_inventory' AND stock_quantity <= low_stock_threshold;
+
+-- =====================================================
+-- STOCK MOVEMENTS (ledger)
+-- =====================================================
+CREATE TYPE public.stock_movement_reason AS ENUM ('received', 'sold', 'adjusted', 'returned');
+
+-- Append-only: a mistake is corrected with an adjustment, not an edit
+CREATE TABLE public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  -- Locations with history can't be deleted, only renamed
+  location_id UUID REFERENCES public.stock_locations(id) ON DELETE RESTRICT,
+  quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+  reason stock_movement_reason NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  note TEXT NOT NULL DEFAULT '',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stock movements"
+  ON public.stock_movements FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert stock movements"
+  ON public.stock_movements FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT ON public.stock_movements TO authenticated;
+GRANT ALL ON public.stock_movements TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_created
+  ON public.stock_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_location_id ON public.stock_movements(location_id);
+
+-- =====================================================
+-- STOCK LEVELS (derived)
+-- =====================================================
+-- Quantity per product and location; the row with no location holds stock
+-- recorded without one
+CREATE TABLE public.stock_levels (
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  location_id UUID REFERENCES public.stock_locations(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT stock_levels_product_location_key UNIQUE NULLS NOT DISTINCT (product_id, location_id)
+);
+
+ALTER TABLE public.stock_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stock levels"
+  ON public.stock_levels FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT ON public.stock_levels TO authenticated;
+GRANT ALL ON public.stock_levels TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_stock_levels_location_id ON public.stock_levels(location_id);
+
+-- Each movement updates its location's level and the product's total. Runs as
+-- the table owner since stock_levels has no write policies.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_levels (product_id, location_id, quantity)
+  VALUES (NEW.product_id, NEW.location_id, NEW.quantity_change)
+  ON CONFLICT (product_id, location_id)
+  DO UPDATE SET quantity = stock_levels.quantity + EXCLUDED.quantity, updated_at = now();
+
+  UPDATE public.products
+  SET stock_quantity = COALESCE(
+    (SELECT SUM(quantity) FROM public.stock_levels WHERE product_id = NEW.product_id),
+    0
+  )
+  WHERE id = NEW.product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_stock_movements
+  AFTER INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_stock_movement();
+
+-- =====================================================
+-- SOLD ON INVOICE
+-- =====================================================
+-- Finalizing an invoice takes its online inventory lines out of stock, once.
+-- Later edits to a finalized invoice don't move stock; record an adjustment.
+-- Untracked products stay untracked.
+CREATE OR REPLACE FUNCTION public.record_invoice_stock_sales()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_movements (product_id, quantity_change, reason, invoice_id, note)
+  SELECT li.product_id, -SUM(li.quantity), 'sold', NEW.id, 'Invoice #' || NEW.order_number
+  FROM public.invoice_line_items li
+  JOIN public.products p ON p.id = li.product_id
+  WHERE li.invoice_id = NEW.id
+    AND li.quantity > 0
+    AND p.category = 'online_inventory'
+    AND p.stock_quantity IS NOT NULL
+  GROUP BY li.product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER record_invoices_stock_sales
+  AFTER UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  WHEN (OLD.status = 'draft' AND NEW.status = 'finalized')
+  EXECUTE FUNCTION public.record_invoice_stock_sales();
@@ -0,0 +1,48 @@
+-- =====================================================
+-- PRODUCT SEARCH
+-- =====================================================
+-- Trigram matching lets a misspelled name still find the product
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Name matches rank above category and subcategory, which rank above description
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(product_type, '') || ' ' || coalesce(subcategory, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON public.products USING GIN (name extensions.gin_trgm_ops);
+
+-- Storefront search. Every word matches as a prefix ("din tab" finds "Dining
+-- Table"), and names close to the query match despite typos ("sofia" finds
+-- "Sofa"). Only products listed on the storefront are returned, best first.
+CREATE OR REPLACE FUNCTION public.search_products(search_query TEXT, result_limit INTEGER DEFAULT 24)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH terms AS (
+    SELECT
+      btrim(search_query) AS raw,
+      (
+        SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+        FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+        WHERE word <> ''
+      ) AS query
+  )
+  SELECT p.*
+  FROM public.products p, terms
+  WHERE terms.query IS NOT NULL
+    AND p.status IN ('available', 'on_hold')
+    AND (p.search_vector @@ terms.query OR terms.raw <% p.name)
+  ORDER BY
+    ts_rank(p.search_vector, terms.query) + word_similarity(terms.raw, p.name) DESC,
+    p.created_at DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 100)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, INTEGER) TO anon, authenticated, service_role;
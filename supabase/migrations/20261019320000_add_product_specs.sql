@@ -0,0 +1,16 @@
+-- =====================================================
+-- PRODUCT SPECIFICATIONS
+-- =====================================================
+-- Dimensions in inches and weight in pounds; the storefront converts to
+-- metric. All optional, since older listings only have a description.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS width_in NUMERIC(6,2) CHECK (width_in > 0),
+  ADD COLUMN IF NOT EXISTS depth_in NUMERIC(6,2) CHECK (depth_in > 0),
+  ADD COLUMN IF NOT EXISTS height_in NUMERIC(6,2) CHECK (height_in > 0),
+  ADD COLUMN IF NOT EXISTS seat_height_in NUMERIC(6,2) CHECK (seat_height_in > 0),
+  ADD COLUMN IF NOT EXISTS material TEXT CHECK (char_length(material) BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS color TEXT CHECK (char_length(color) BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS weight_lb NUMERIC(7,2) CHECK (weight_lb > 0);
+
+-- Catalog size filters, e.g. sofas under 84" wide
+CREATE INDEX IF NOT EXISTS idx_products_category_width ON public.products(category, width_in);
@@ -0,0 +1,166 @@
+-- =====================================================
+-- INVOICE FLOOR SAMPLES
+-- =====================================================
+-- Takes a finalized invoice's floor samples (and the pieces of linked sets)
+-- off sale: reserved while a balance is owed, sold once it's paid in full. A
+-- sold or removed piece is never moved back. Products in _removed_ids were
+-- taken off the invoice and go back on sale.
+CREATE OR REPLACE FUNCTION public.sync_invoice_floor_samples(
+  _invoice_id UUID,
+  _removed_ids UUID[] DEFAULT '{}'
+)
+RETURNS VOID AS $$
+DECLARE
+  _balance NUMERIC;
+  _linked_ids UUID[];
+BEGIN
+  SELECT balance INTO _balance FROM public.invoices WHERE id = _invoice_id;
+
+  SELECT COALESCE(array_agg(DISTINCT product_id), '{}') INTO _linked_ids
+  FROM public.invoice_line_items
+  WHERE invoice_id = _invoice_id AND product_id IS NOT NULL;
+
+  -- A product moved to another line is still on the invoice
+  _removed_ids := ARRAY(SELECT unnest(_removed_ids) EXCEPT SELECT unnest(_linked_ids));
+
+  UPDATE public.products
+  SET status = 'available'
+  WHERE category = 'floor_sample'
+    AND status IN ('reserved', 'sold')
+    AND (id = ANY(_removed_ids) OR part_of_set = ANY(_removed_ids));
+
+  UPDATE public.products
+  SET status = CASE WHEN _balance > 0 THEN 'reserved' ELSE 'sold' END::public.product_status
+  WHERE category = 'floor_sample'
+    AND status IN ('available', 'on_hold', 'reserved')
+    AND (id = ANY(_linked_ids) OR part_of_set = ANY(_linked_ids));
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sync_invoice_floor_samples(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sync_invoice_floor_samples(UUID, UUID[]) TO authenticated, service_role;
+
+-- Finalizing takes the floor samples off sale in the same transaction, like
+-- the stock ledger
+CREATE OR REPLACE FUNCTION public.sync_finalized_invoice_floor_samples()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.sync_invoice_floor_samples(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_invoices_floor_samples
+  AFTER UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  WHEN (OLD.status = 'draft' AND NEW.status = 'finalized')
+  EXECUTE FUNCTION public.sync_finalized_invoice_floor_samples();
+
+-- =====================================================
+-- SAVE INVOICE
+-- =====================================================
+-- Writes the invoice header, line items and payments in one transaction, so a
+-- save that fails partway can't leave an invoice with missing lines or
+-- payments. Creates the invoice when _invoice_id is null and returns its id.
+-- Runs as the caller, so the admin-only policies on each table still apply.
+CREATE OR REPLACE FUNCTION public.save_invoice(
+  _invoice JSONB,
+  _line_items JSONB,
+  _payments JSONB,
+  _invoice_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  _id UUID := _invoice_id;
+  _old_product_ids UUID[];
+BEGIN
+  IF _id IS NULL THEN
+    -- order_number is left out so the database sequence assigns it
+    INSERT INTO public.invoices (
+      invoice_date, bill_to_name, bill_to_address, bill_to_phone, bill_to_email,
+      ship_to_name, ship_to_address, ship_to_phone, same_as_bill_to, delivery_charges,
+      tax_jurisdiction_id, tax_jurisdiction_name, tax_rate, delivery_taxable,
+      tax_exempt, tax_exempt_certificate, subtotal, sales_tax, total
+    )
+    SELECT
+      r.invoice_date, r.bill_to_name, r.bill_to_address, r.bill_to_phone, r.bill_to_email,
+      r.ship_to_name, r.ship_to_address, r.ship_to_phone, r.same_as_bill_to, r.delivery_charges,
+      r.tax_jurisdiction_id, r.tax_jurisdiction_name, r.tax_rate, r.delivery_taxable,
+      r.tax_exempt, r.tax_exempt_certificate, r.subtotal, r.sales_tax, r.total
+    FROM jsonb_populate_record(NULL::public.invoices, _invoice) r
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.invoices
+    SET (
+      invoice_date, bill_to_name, bill_to_address, bill_to_phone, bill_to_email,
+      ship_to_name, ship_to_address, ship_to_phone, same_as_bill_to, delivery_charges,
+      tax_jurisdiction_id, tax_jurisdiction_name, tax_rate, delivery_taxable,
+      tax_exempt, tax_exempt_certificate, subtotal, sales_tax, total
+    ) = (
+      SELECT
+        r.invoice_date, r.bill_to_name, r.bill_to_address, r.bill_to_phone, r.bill_to_email,
+        r.ship_to_name, r.ship_to_address, r.ship_to_phone, r.same_as_bill_to, r.delivery_charges,
+        r.tax_jurisdiction_id, r.tax_jurisdiction_name, r.tax_rate, r.delivery_taxable,
+        r.tax_exempt, r.tax_exempt_certificate, r.subtotal, r.sales_tax, r.total
+      FROM jsonb_populate_record(NULL::public.invoices, _invoice) r
+    )
+    WHERE id = _id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(array_agg(product_id), '{}') INTO _old_product_ids
+  FROM public.invoice_line_items
+  WHERE invoice_id = _id AND product_id IS NOT NULL;
+
+  -- Line items are replaced wholesale, same as product images
+  DELETE FROM public.invoice_line_items WHERE invoice_id = _id;
+
+  INSERT INTO public.invoice_line_items (
+    invoice_id, product_id, source, item_no, description, quantity,
+    unit_price, discount_percent, line_amount, taxable, display_order
+  )
+  SELECT
+    _id, r.product_id, r.source, r.item_no, r.description, r.quantity,
+    r.unit_price, r.discount_percent, r.line_amount, r.taxable, r.display_order
+  FROM jsonb_populate_recordset(NULL::public.invoice_line_items, _line_items) r;
+
+  -- Payments are a ledger, so rows the form still has are updated in place
+  -- rather than recreated. Ids of new payments are only form keys, so they're
+  -- compared as text and never stored. Triggers keep amount_paid and balance
+  -- in step.
+  DELETE FROM public.invoice_payments p
+  WHERE p.invoice_id = _id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_payments) e WHERE e->>'id' = p.id::text
+    );
+
+  UPDATE public.invoice_payments p
+  SET payment_date = r.payment_date, method = r.method, amount = r.amount, note = r.note
+  FROM jsonb_array_elements(_payments) e,
+    LATERAL jsonb_populate_record(NULL::public.invoice_payments, e - 'id') r
+  WHERE p.invoice_id = _id
+    AND e->>'id' = p.id::text;
+
+  INSERT INTO public.invoice_payments (invoice_id, payment_date, method, amount, note)
+  SELECT _id, r.payment_date, r.method, r.amount, r.note
+  FROM jsonb_array_elements(_payments) e,
+    LATERAL jsonb_populate_record(NULL::public.invoice_payments, e - 'id') r
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.invoice_payments p WHERE p.invoice_id = _id AND p.id::text = e->>'id'
+  );
+
+  -- Edits to a finalized invoice keep its floor samples in step: removed lines
+  -- go back on sale, added ones come off, and paying it off marks them sold
+  IF (SELECT status FROM public.invoices WHERE id = _id) = 'finalized' THEN
+    PERFORM public.sync_invoice_floor_samples(_id, _old_product_ids);
+  END IF;
+
+  RETURN _id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_invoice(JSONB, JSONB, JSONB, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_invoice(JSONB, JSONB, JSONB, UUID) TO authenticated, service_role;
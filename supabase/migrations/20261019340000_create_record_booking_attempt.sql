@@ -0,0 +1,130 @@
+-- =====================================================
+-- ACTIVE BOOKING CAP
+-- =====================================================
+-- Whether one email or one phone number already holds the most upcoming
+-- bookings allowed. Completed, no-show and cancelled bookings don't count.
+CREATE OR REPLACE FUNCTION public.active_booking_cap_reached(_email TEXT, _phone TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _max_active_bookings CONSTANT INTEGER := 3;
+  _today DATE := (now() AT TIME ZONE 'America/New_York')::date;
+  -- "(508) 555-0100" and "508.555.0100" are the same customer
+  _phone_digits TEXT := regexp_replace(_phone, '\D', '', 'g');
+BEGIN
+  RETURN (
+    SELECT count(*) FROM public.appointments
+    WHERE email = _email
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date >= _today
+  ) >= _max_active_bookings
+  OR (
+    SELECT count(*) FROM public.appointments
+    WHERE regexp_replace(phone, '\D', '', 'g') = _phone_digits
+      AND status IN ('pending', 'confirmed')
+      AND appointment_date >= _today
+  ) >= _max_active_bookings;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.active_booking_cap_reached(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.active_booking_cap_reached(TEXT, TEXT) TO service_role;
+
+-- record_booking_attempt below turns most over-cap bookings away early, but
+-- the appointment is inserted in a later request. This enforces the cap in the
+-- insert's own transaction, serialized per email and per phone number, so
+-- parallel bookings can't all slip under it.
+CREATE OR REPLACE FUNCTION public.enforce_active_booking_cap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Always email first, then phone, so two bookings can't deadlock
+  PERFORM pg_advisory_xact_lock(hashtext('booking-contact-email:' || NEW.email));
+  PERFORM pg_advisory_xact_lock(hashtext('booking-contact-phone:' || regexp_replace(NEW.phone, '\D', '', 'g')));
+
+  IF public.active_booking_cap_reached(NEW.email, NEW.phone) THEN
+    RAISE EXCEPTION 'Too many upcoming appointments for % / %', NEW.email, NEW.phone
+      USING ERRCODE = 'check_violation', HINT = 'active_booking_cap';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_active_booking_cap
+  BEFORE INSERT ON public.appointments
+  FOR EACH ROW
+  WHEN (NEW.status IN ('pending', 'confirmed'))
+  EXECUTE FUNCTION public.enforce_active_booking_cap();
+
+-- =====================================================
+-- RECORD BOOKING ATTEMPT (atomic rate limits)
+-- =====================================================
+-- book-appointment used to count recent attempts and then insert its own in
+-- separate requests, so a burst of parallel requests all passed the limits.
+-- This checks and records in one transaction, under advisory locks on the IP
+-- and the email.
+--
+-- _reason is set when the edge function already blocked the attempt
+-- (honeypot or challenge); otherwise the limits decide. Returns the reason the
+-- attempt was blocked, or NULL when the booking may go ahead.
+CREATE OR REPLACE FUNCTION public.record_booking_attempt(
+  _ip TEXT,
+  _email TEXT,
+  _phone TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  -- Every recorded attempt counts, blocked or not, so a script can't just
+  -- keep retrying
+  _window_start TIMESTAMP WITH TIME ZONE := now() - INTERVAL '60 minutes';
+  _max_attempts_per_ip CONSTANT INTEGER := 10;
+  _max_attempts_per_email CONSTANT INTEGER := 5;
+  _ip_attempts INTEGER;
+  _result TEXT := NULLIF(_reason, '');
+BEGIN
+  -- Always IP first, then email, so two requests can't deadlock
+  PERFORM pg_advisory_xact_lock(hashtext('booking-attempt-ip:' || coalesce(_ip, '')));
+  PERFORM pg_advisory_xact_lock(hashtext('booking-attempt-email:' || _email));
+
+  SELECT count(*) INTO _ip_attempts
+  FROM public.booking_attempts
+  WHERE ip IS NOT DISTINCT FROM _ip
+    AND created_at >= _window_start;
+
+  IF _result IS NOT NULL THEN
+    -- Already blocked: stop logging once the IP is over its limit, so a bot
+    -- filling the honeypot can't flood the table
+    IF _ip_attempts >= _max_attempts_per_ip THEN
+      RETURN _result;
+    END IF;
+  ELSIF _ip IS NOT NULL AND _ip_attempts >= _max_attempts_per_ip THEN
+    _result := 'ip_rate_limit';
+  ELSIF (
+    SELECT count(*) FROM public.booking_attempts
+    WHERE email = _email AND created_at >= _window_start
+  ) >= _max_attempts_per_email THEN
+    _result := 'email_rate_limit';
+  ELSIF public.active_booking_cap_reached(_email, _phone) THEN
+    _result := 'active_booking_cap';
+  END IF;
+
+  INSERT INTO public.booking_attempts (ip, email, phone, blocked, reason)
+  VALUES (_ip, left(_email, 255), left(_phone, 30), _result IS NOT NULL, coalesce(_result, ''));
+
+  RETURN _result;
+END;
+$$;
+
+-- Only the edge function (service role) records attempts
+REVOKE EXECUTE ON FUNCTION public.record_booking_attempt(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_booking_attempt(TEXT, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,47 @@
+-- =====================================================
+-- SET PRODUCT STATUS
+-- =====================================================
+-- Moves a product and the pieces of its set to a new status, writing the hold
+-- in the same transaction, so an on_hold product can't end up without one.
+-- Leaving on_hold drops the hold through clear_product_hold. Runs as the
+-- caller, so the admin-only policies on products and product_holds apply.
+-- Returns the ids of the products that changed.
+CREATE OR REPLACE FUNCTION public.set_product_status(
+  _product_id UUID,
+  _status public.product_status,
+  _customer TEXT DEFAULT NULL,
+  _held_until DATE DEFAULT NULL
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _updated_ids UUID[];
+BEGIN
+  IF _status = 'on_hold' AND (coalesce(trim(_customer), '') = '' OR _held_until IS NULL) THEN
+    RAISE EXCEPTION 'Enter who the product is held for and until when';
+  END IF;
+
+  WITH updated AS (
+    UPDATE public.products
+    SET status = _status
+    WHERE id = _product_id OR part_of_set = _product_id
+    RETURNING id
+  )
+  SELECT coalesce(array_agg(id), '{}') INTO _updated_ids FROM updated;
+
+  IF _status = 'on_hold' THEN
+    INSERT INTO public.product_holds (product_id, customer, held_until)
+    SELECT unnest(_updated_ids), trim(_customer), _held_until
+    ON CONFLICT (product_id) DO UPDATE
+    SET customer = EXCLUDED.customer,
+        held_until = EXCLUDED.held_until;
+  END IF;
+
+  RETURN _updated_ids;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_product_status(UUID, public.product_status, TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_product_status(UUID, public.product_status, TEXT, DATE) TO authenticated, service_role;